@@ -0,0 +1,291 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { appendFileSync, readFileSync } from "node:fs";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestEvent } from "./propstack-client.js";
+
+// ── Audit log ────────────────────────────────────────────────────────
+//
+// Append-only JSONL trail of what the assistant did: one line per tool call
+// and one per Propstack write, plus erasure receipts from erase_contact.
+// Tool calls are captured by wrapping every `server.tool` handler; writes by
+// the PropstackClient request hook. The tool call's context (tool name,
+// session, account) is carried to the client hook through AsyncLocalStorage,
+// since clients are shared across sessions. Every entry names the account
+// (API key fingerprint) it belongs to, so sessions of one agency cannot read
+// another agency's entries from a shared log.
+
+export interface AuditConfig {
+  /** JSONL file to append to; null disables audit logging. */
+  path: string | null;
+  /** Replace personal data in logged arguments with a SHA-256 digest. */
+  hashPii: boolean;
+}
+
+interface AuditEntryBase {
+  ts: string;
+  /** MCP session ID, or "stdio" for the single stdio session. */
+  session: string;
+  /** Fingerprint of the API key the call used; null if unknown. */
+  account: string | null;
+  tool: string | null;
+}
+
+export interface ToolAuditEntry extends AuditEntryBase {
+  kind: "tool";
+  args: unknown;
+  ok: boolean;
+  duration_ms: number;
+  error?: string;
+}
+
+export interface RequestAuditEntry extends AuditEntryBase {
+  kind: "request";
+  method: string;
+  path: string;
+  /** HTTP status, or null if no response was received. */
+  status: number | null;
+  /** IDs of the records written (from the path and the response body). */
+  record_ids: number[];
+}
+
+/** One record touched by an erasure; shared tasks and events are only unlinked. */
+export interface ErasedRecord {
+  type: string;
+  id: number;
+  action: "deleted" | "anonymized" | "unlinked";
+  ok: boolean;
+  error?: string;
+}
+
+/** Art. 17 evidence: what was erased for one contact, when, and on whose instruction. */
+export interface ErasureAuditEntry extends AuditEntryBase {
+  kind: "erasure";
+  contact_id: number;
+  /** Person who carried out or authorized the erasure. */
+  operator: string;
+  method: "delete" | "anonymize";
+  started_at: string;
+  /** False if a step failed and the contact itself was not erased. */
+  completed: boolean;
+  records: ErasedRecord[];
+  /** Copies of the contact's data this server keeps outside Propstack, which the erasure left in place. */
+  local_copies?: string[];
+}
+
+export type AuditEntry = ToolAuditEntry | RequestAuditEntry | ErasureAuditEntry;
+
+/** Fields of an erasure receipt supplied by the caller; the log adds time and context. */
+export type ErasureReceipt = Omit<ErasureAuditEntry, "ts" | "session" | "account" | "tool" | "kind">;
+
+export interface AuditQuery {
+  /** Only entries of this account; entries without one never match. */
+  account?: string;
+  since?: Date;
+  until?: Date;
+  tool?: string;
+  session?: string;
+  kind?: AuditEntry["kind"];
+  recordId?: number;
+  limit?: number;
+}
+
+/**
+ * Tool parameter names whose values can identify a person: names, contact
+ * details and addresses, search text, and free text that may mention people.
+ */
+const PII_KEYS = new Set([
+  // names and contact details
+  "salutation", "academic_title", "first_name", "last_name", "name", "company", "position",
+  "email", "phone", "phone_number", "to", "cc", "operator",
+  // addresses (contacts' home and office, and property addresses)
+  "home_street", "home_house_number", "home_zip_code", "home_city",
+  "office_street", "office_house_number", "office_zip_code", "office_city",
+  "street", "house_number", "zip_code", "city",
+  // search text and free text
+  "q", "title", "body", "note", "notes", "description", "property_interest", "custom_fields",
+]);
+
+export interface CallContext {
+  tool: string;
+  session: string;
+  /** Fingerprint of the API key the call uses. */
+  account: string | null;
+}
+
+const callContext = new AsyncLocalStorage<CallContext>();
+
+function hashValue(value: unknown): string {
+  return "sha256:" + createHash("sha256").update(JSON.stringify(value)).digest("hex").slice(0, 16);
+}
+
+/** Copy of `value` with PII-named fields replaced by digests (recursively). */
+export function hashPii(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(hashPii);
+  if (value === null || typeof value !== "object") return value;
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = PII_KEYS.has(key) && v !== null && v !== undefined ? hashValue(v) : hashPii(v);
+  }
+  return out;
+}
+
+/** Record IDs touched by a write: numeric path segments plus `id` in the response. */
+export function recordIds(path: string, response: unknown): number[] {
+  const ids = new Set<number>();
+  for (const segment of path.split("/")) {
+    if (/^\d+$/.test(segment)) ids.add(Number(segment));
+  }
+  if (response && typeof response === "object" && !Array.isArray(response)) {
+    const id = (response as { id?: unknown }).id;
+    if (typeof id === "number") ids.add(id);
+  }
+  return [...ids];
+}
+
+/** Whether an entry wrote to, or erased, the record with this ID. */
+function touches(entry: AuditEntry, id: number): boolean {
+  if (entry.kind === "request") return entry.record_ids.includes(id);
+  if (entry.kind === "erasure") return entry.contact_id === id || entry.records.some((r) => r.id === id);
+  return false;
+}
+
+export class AuditLog {
+  private warned = false;
+
+  constructor(
+    readonly path: string,
+    private readonly hashArgs: boolean = false,
+  ) {}
+
+  /** Client request hook: logs every write. Reads are not audited. */
+  recordRequest(event: RequestEvent): void {
+    if (event.method === "GET") return;
+    const ctx = callContext.getStore();
+    this.append({
+      ts: new Date().toISOString(),
+      session: ctx?.session ?? "stdio",
+      account: ctx?.account ?? null,
+      tool: ctx?.tool ?? null,
+      kind: "request",
+      method: event.method,
+      path: event.path,
+      status: event.status,
+      record_ids: event.status !== null && event.status < 400 ? recordIds(event.path, event.response) : [],
+    });
+  }
+
+  /** Append an erasure receipt, attributed to the current tool call. */
+  recordErasure(receipt: ErasureReceipt): void {
+    const ctx = callContext.getStore();
+    this.append({
+      ts: new Date().toISOString(),
+      session: ctx?.session ?? "stdio",
+      account: ctx?.account ?? null,
+      tool: ctx?.tool ?? null,
+      kind: "erasure",
+      ...receipt,
+    });
+  }
+
+  /**
+   * Run a tool handler inside an audit context and log the call. The
+   * handler's result is passed through untouched.
+   */
+  async recordTool<T>(ctx: CallContext, args: unknown, run: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    const base = {
+      session: ctx.session,
+      account: ctx.account,
+      tool: ctx.tool,
+      kind: "tool" as const,
+      args: this.hashArgs ? hashPii(args) : args,
+    };
+    try {
+      const result = await callContext.run(ctx, run);
+      const isError = (result as { isError?: boolean } | undefined)?.isError === true;
+      this.append({ ts: new Date(started).toISOString(), ...base, ok: !isError, duration_ms: Date.now() - started });
+      return result;
+    } catch (err) {
+      this.append({
+        ts: new Date(started).toISOString(),
+        ...base,
+        ok: false,
+        duration_ms: Date.now() - started,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      throw err;
+    }
+  }
+
+  /** Matching entries, newest first. */
+  query(q: AuditQuery = {}): AuditEntry[] {
+    let raw: string;
+    try {
+      raw = readFileSync(this.path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+
+    const matches: AuditEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(line) as AuditEntry;
+      } catch {
+        continue; // a torn final line from a crash must not hide the rest
+      }
+      const ts = new Date(entry.ts);
+      if (q.account !== undefined && entry.account !== q.account) continue;
+      if (q.since && ts < q.since) continue;
+      if (q.until && ts >= q.until) continue;
+      if (q.tool && entry.tool !== q.tool) continue;
+      if (q.session && entry.session !== q.session) continue;
+      if (q.kind && entry.kind !== q.kind) continue;
+      if (q.recordId !== undefined && !touches(entry, q.recordId)) continue;
+      matches.push(entry);
+    }
+
+    matches.reverse();
+    return q.limit !== undefined ? matches.slice(0, q.limit) : matches;
+  }
+
+  private append(entry: AuditEntry): void {
+    try {
+      // Synchronous so entries land in order and survive a crash right after.
+      appendFileSync(this.path, JSON.stringify(entry) + "\n", { mode: 0o600 });
+    } catch (err) {
+      if (!this.warned) {
+        this.warned = true;
+        console.error(`Warning: could not write audit log ${this.path}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+}
+
+/**
+ * Wrap an McpServer so that every handler registered through `tool()` is
+ * audited under `account`. Handlers receive `(args, extra)`, or just
+ * `(extra)` for tools without parameters; the handler is always the last
+ * registration argument.
+ */
+export function applyAuditLog(server: McpServer, audit: AuditLog, account: string | null): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "tool") {
+        return (name: string, ...rest: unknown[]) => {
+          const handler = rest.pop() as (...args: unknown[]) => Promise<unknown>;
+          const audited = (...callArgs: unknown[]) => {
+            const extra = callArgs[callArgs.length - 1] as { sessionId?: string } | undefined;
+            const args = callArgs.length > 1 ? callArgs[0] : {};
+            return audit.recordTool({ tool: name, session: extra?.sessionId ?? "stdio", account }, args, () => handler(...callArgs));
+          };
+          return (target.tool as (...args: unknown[]) => unknown).call(target, name, ...rest, audited);
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
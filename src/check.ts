@@ -0,0 +1,55 @@
+import { PropstackClient, PropstackError } from "./propstack-client.js";
+import type { PropstackBroker } from "./types/propstack.js";
+
+// ── Startup connection check (--check) ───────────────────────────────
+//
+// Verifies key, base URL, proxy and CA in one cheap request, so a broken
+// setup shows up in the terminal instead of as the first failing tool call.
+// The API has no "who am I" endpoint; the broker list is the cheapest call
+// that proves the key works and identifies the account it belongs to.
+
+const LISTED_BROKERS = 10;
+
+export interface CheckResult {
+  ok: boolean;
+  /** Human-readable report, one line per entry. */
+  lines: string[];
+}
+
+function brokerLabel(b: PropstackBroker): string {
+  const name = b.name || [b.first_name, b.last_name].filter(Boolean).join(" ") || "(no name)";
+  return `${name} (ID: ${b.id}${b.email ? `, ${b.email}` : ""})`;
+}
+
+/** Call GET /brokers with the client and describe the result. */
+export async function checkConnection(client: PropstackClient, baseUrl: string, apiKey: string): Promise<CheckResult> {
+  if (!apiKey) {
+    return { ok: false, lines: ["PROPSTACK_API_KEY is not set."] };
+  }
+
+  try {
+    const brokers = await client.get<PropstackBroker[]>("/brokers");
+    const lines = [
+      `OK: API key accepted by ${baseUrl}`,
+      `Account has ${brokers.length} broker${brokers.length === 1 ? "" : "s"}:`,
+      ...brokers.slice(0, LISTED_BROKERS).map((b) => `  - ${brokerLabel(b)}`),
+    ];
+    if (brokers.length > LISTED_BROKERS) lines.push(`  … and ${brokers.length - LISTED_BROKERS} more`);
+    return { ok: true, lines };
+  } catch (err) {
+    if (err instanceof PropstackError && (err.status === 401 || err.status === 403)) {
+      return { ok: false, lines: [`The API key was rejected by ${baseUrl} (${err.status} ${err.statusText}).`] };
+    }
+    if (err instanceof PropstackError) {
+      return { ok: false, lines: [`Unexpected response from ${baseUrl}: ${err.message}`] };
+    }
+    const cause = err instanceof Error && err.cause instanceof Error ? ` (${err.cause.message})` : "";
+    return {
+      ok: false,
+      lines: [
+        `Could not reach ${baseUrl}: ${err instanceof Error ? err.message : String(err)}${cause}`,
+        "Check PROPSTACK_BASE_URL, the proxy settings and PROPSTACK_CA_FILE.",
+      ],
+    };
+  }
+}
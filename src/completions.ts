@@ -0,0 +1,133 @@
+import type { PropstackClient } from "./propstack-client.js";
+import type {
+  PropstackBroker,
+  PropstackContact,
+  PropstackContactSource,
+  PropstackPaginatedResponse,
+  PropstackProperty,
+  PropstackPropertyStatus,
+  PropstackSnippet,
+} from "./types/propstack.js";
+import { fetchPipelines } from "./tools/deals.js";
+import { fetchTags } from "./tools/lookups.js";
+import { fmt } from "./tools/helpers.js";
+
+// ── Argument completions ─────────────────────────────────────────────
+//
+// MCP completion suggests values for prompt arguments and resource-template
+// variables, so clients can offer real IDs instead of the model guessing
+// them. Suggestions are IDs (the value the argument takes); the typed text
+// is matched against the ID and the record's name. Lookups go through the
+// normal client, so reference data comes from the response cache. A failed
+// lookup yields no suggestions rather than an error.
+
+/** Same signature for prompt arguments (via completable) and resource templates. */
+export type Completer = (value: string | undefined, context?: { arguments?: Record<string, string> }) => Promise<string[]>;
+
+/** How many contacts or properties a search-based completion asks for. */
+const SEARCH_LIMIT = 10;
+
+/** IDs of the items whose ID or name matches the typed text, sorted by name. */
+function matching(items: readonly { id: number; name: string | null }[], value: string | undefined): string[] {
+  const typed = (value ?? "").trim().toLowerCase();
+  return items
+    .filter((item) => !typed || String(item.id).startsWith(typed) || (item.name ?? "").toLowerCase().includes(typed))
+    .sort((a, b) => (a.name ?? "").localeCompare(b.name ?? ""))
+    .map((item) => String(item.id));
+}
+
+/** Wrap a lookup so errors (API down, no permission) mean "no suggestions". */
+function safe(lookup: Completer): Completer {
+  return async (value, context) => {
+    try {
+      return await lookup(value, context);
+    } catch {
+      return [];
+    }
+  };
+}
+
+/** Items of a list response, whether a bare array or { data }. */
+function listOf<T>(raw: PropstackPaginatedResponse<T> | T[]): T[] {
+  return Array.isArray(raw) ? raw : raw?.data ?? [];
+}
+
+export interface Completers {
+  broker: Completer;
+  pipeline: Completer;
+  /** Stages of the pipeline in the `pipeline_id` argument, or of all pipelines. */
+  dealStage: Completer;
+  snippet: Completer;
+  /** Contact sources (lead channels), the IDs search_contacts takes as `sources`. */
+  contactSource: Completer;
+  /** Property statuses, the IDs search_properties takes as `status`. */
+  propertyStatus: Completer;
+  /** Tags (Merkmale) for contacts. */
+  contactTag: Completer;
+  /** Tags (Merkmale) for properties. */
+  propertyTag: Completer;
+  /** Contacts by name, email or phone; needs at least two typed characters. */
+  contact: Completer;
+  /** Properties by title, address or unit ID; needs at least two typed characters. */
+  property: Completer;
+}
+
+export function createCompleters(client: PropstackClient): Completers {
+  /** Full-text search completions; IDs typed as digits are not searchable. */
+  const search = (lookup: (q: string) => Promise<{ id: number }[]>): Completer =>
+    safe(async (value) => {
+      const q = (value ?? "").trim();
+      if (q.length < 2 || /^\d+$/.test(q)) return [];
+      return (await lookup(q)).map((r) => String(r.id));
+    });
+
+  return {
+    broker: safe(async (value) => {
+      const brokers = await client.get<PropstackBroker[]>("/brokers");
+      return matching(brokers.map((b) => ({ id: b.id, name: fmt(b.name, "") })), value);
+    }),
+
+    pipeline: safe(async (value) => matching(await fetchPipelines(client), value)),
+
+    dealStage: safe(async (value, context) => {
+      const pipelineId = Number(context?.arguments?.["pipeline_id"]);
+      const pipelines = (await fetchPipelines(client)).filter((p) => !pipelineId || p.id === pipelineId);
+      return matching(pipelines.flatMap((p) => p.deal_stages ?? []), value);
+    }),
+
+    snippet: safe(async (value) => {
+      const raw = await client.get<PropstackPaginatedResponse<PropstackSnippet> | PropstackSnippet[]>("/snippets");
+      return matching(listOf(raw), value);
+    }),
+
+    contactSource: safe(async (value) => {
+      const raw = await client.get<PropstackPaginatedResponse<PropstackContactSource> | PropstackContactSource[]>("/contact_sources");
+      return matching(listOf(raw), value);
+    }),
+
+    propertyStatus: safe(async (value) => {
+      const raw = await client.get<PropstackPaginatedResponse<PropstackPropertyStatus> | PropstackPropertyStatus[]>("/property_statuses");
+      return matching(listOf(raw), value);
+    }),
+
+    contactTag: safe(async (value) => matching(await fetchTags(client, "for_clients"), value)),
+
+    propertyTag: safe(async (value) => matching(await fetchTags(client, "for_properties"), value)),
+
+    contact: search(async (q) => {
+      const raw = await client.get<PropstackPaginatedResponse<PropstackContact> | PropstackContact[]>(
+        "/contacts",
+        { params: { q, per_page: SEARCH_LIMIT } },
+      );
+      return listOf(raw);
+    }),
+
+    property: search(async (q) => {
+      const raw = await client.get<PropstackPaginatedResponse<PropstackProperty>>(
+        "/units",
+        { params: { q, per_page: SEARCH_LIMIT } },
+      );
+      return listOf(raw);
+    }),
+  };
+}
@@ -0,0 +1,270 @@
+import { resolveToolsets, type ToolPolicy } from "./tool-policy.js";
+import type { AuditConfig } from "./audit-log.js";
+import type { RedactionConfig } from "./redaction.js";
+import { DEFAULT_CACHE_RULES, mergeCacheRules, type CacheRule } from "./response-cache.js";
+import { DEFAULT_RATE_LIMITS, type RateLimitConfig } from "./rate-limiter.js";
+import type { NetworkConfig } from "./network.js";
+
+// ── Runtime configuration ────────────────────────────────────────────
+//
+// Everything the server can be tuned with comes from two places: CLI flags
+// (for one-off runs and process managers) and environment variables (for
+// MCP client configs and .env files). Flags win over env vars. Parsing is
+// kept free of side effects so it can be unit-tested.
+
+export type TransportMode = "stdio" | "http";
+
+export interface HttpConfig {
+  host: string;
+  port: number;
+  /** URL path the Streamable HTTP endpoint is mounted on. */
+  path: string;
+  /**
+   * Multi-tenant mode: every session must present its own Propstack API key
+   * and the server-wide PROPSTACK_API_KEY is never used for HTTP sessions.
+   */
+  requireSessionKey: boolean;
+  /** Close sessions without open requests or streams after this long; 0 = never. */
+  sessionIdleTimeoutMs: number;
+  /**
+   * `Host` header values (`name:port`) the endpoint answers to, against DNS
+   * rebinding. Empty = the bound address (and localhost names on loopback).
+   */
+  allowedHosts: string[];
+  /** `Origin` header values browsers may send. Empty = the allowed hosts over http and https. */
+  allowedOrigins: string[];
+}
+
+export interface ServerConfig {
+  transport: TransportMode;
+  http: HttpConfig;
+  /** Which tools are registered (read-only mode, toolsets, allow/deny lists). */
+  tools: ToolPolicy;
+  /**
+   * Require a confirmation step (preview + token, or elicitation) before
+   * delete_contact, delete_search_profile and delete_webhook run.
+   */
+  confirmDestructive: boolean;
+  /** Local JSONL audit trail of tool calls and Propstack writes. */
+  audit: AuditConfig;
+  /** TTLs for caching reference-data GET responses, per path prefix. */
+  cache: CacheRule[];
+  /** Client-side request rate and concurrency limits, per API key. */
+  limits: RateLimitConfig;
+  /** File that persists idempotency keys across restarts; null = memory only. */
+  idempotencyStore: string | null;
+  /** Directory that export_contact_data writes to; null = tool not offered. */
+  exportDir: string | null;
+  /** Pseudonymize contact PII in everything the model sees. */
+  redaction: RedactionConfig;
+  /** Record mode: directory that real API responses are saved to as test fixtures. */
+  recordFixtures: string | null;
+  /** Base URL, proxy and extra CA for requests to Propstack. */
+  network: NetworkConfig;
+  /** `--check`: validate the API key and connection, print the account, then exit. */
+  check: boolean;
+}
+
+const DEFAULT_HTTP_HOST = "127.0.0.1";
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_PATH = "/mcp";
+/** Seconds an HTTP session may sit without requests before it is closed. */
+const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60;
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Read the value of a `--name value` or `--name=value` flag. Returns
+ * undefined when the flag is absent, and throws if it is present without
+ * a value so typos surface on boot instead of silently falling back.
+ */
+function flagValue(argv: readonly string[], name: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg.startsWith(`--${name}=`)) return arg.slice(name.length + 3);
+    if (arg === `--${name}`) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith("--")) {
+        throw new Error(`Missing value for --${name}`);
+      }
+      return next;
+    }
+  }
+  return undefined;
+}
+
+function hasFlag(argv: readonly string[], name: string): boolean {
+  return argv.includes(`--${name}`);
+}
+
+function parseBoolean(raw: string | undefined): boolean {
+  return raw !== undefined && ["1", "true", "yes", "on"].includes(raw.toLowerCase());
+}
+
+/** Split a comma-separated list, dropping empty entries. */
+function parseList(raw: string | undefined): string[] {
+  if (!raw) return [];
+  return raw.split(",").map((item) => item.trim()).filter(Boolean);
+}
+
+function parsePort(raw: string, source: string): number {
+  const port = Number(raw);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid port "${raw}" in ${source}. Expected an integer between 1 and 65535.`);
+  }
+  return port;
+}
+
+/** Read a non-negative number from a flag or env var, falling back to `fallback`. */
+function numberOption(argv: readonly string[], env: Env, flag: string, envName: string, fallback: number): number {
+  const fromFlag = flagValue(argv, flag);
+  const raw = fromFlag ?? env[envName];
+  if (raw === undefined || raw === "") return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    const source = fromFlag !== undefined ? `--${flag}` : envName;
+    throw new Error(`Invalid value "${raw}" in ${source}. Expected a non-negative number.`);
+  }
+  return value;
+}
+
+/**
+ * Parse cache TTL overrides: "off" disables caching, otherwise a list of
+ * `prefix=seconds` entries merged into the defaults (0 disables a prefix).
+ */
+function parseCacheRules(raw: string | undefined, source: string): CacheRule[] {
+  if (raw?.trim().toLowerCase() === "off") return [];
+  const overrides = parseList(raw).map((entry): CacheRule => {
+    const [prefix, seconds] = entry.split("=").map((part) => part.trim());
+    const ttl = Number(seconds);
+    if (!prefix || seconds === undefined || seconds === "" || !Number.isFinite(ttl) || ttl < 0) {
+      throw new Error(`Invalid cache rule "${entry}" in ${source}. Expected prefix=seconds, e.g. /brokers=600.`);
+    }
+    return { prefix: prefix.startsWith("/") ? prefix : `/${prefix}`, ttlMs: ttl * 1000 };
+  });
+  return mergeCacheRules(DEFAULT_CACHE_RULES, overrides);
+}
+
+/** Validate an http(s) URL option and drop any trailing slash. */
+function parseUrl(raw: string, source: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`Invalid URL "${raw}" in ${source}.`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Invalid URL "${raw}" in ${source}. Expected an http:// or https:// URL.`);
+  }
+  return raw.replace(/\/+$/, "");
+}
+
+/** Read a URL option from a flag or env var; null when neither is set. */
+function urlOption(argv: readonly string[], env: Env, flag: string, envNames: readonly string[]): string | null {
+  const fromFlag = flagValue(argv, flag);
+  if (fromFlag !== undefined) return parseUrl(fromFlag, `--${flag}`);
+  const envName = envNames.find((name) => env[name]);
+  return envName ? parseUrl(env[envName]!, envName) : null;
+}
+
+/**
+ * Build the server configuration from CLI arguments and environment.
+ *
+ * Transport: `--http` or `PROPSTACK_MCP_TRANSPORT=http` selects the
+ * Streamable HTTP transport; stdio is the default.
+ * HTTP options: `--port` / `PROPSTACK_MCP_PORT`, `--host` / `PROPSTACK_MCP_HOST`,
+ * `--multi-tenant` / `PROPSTACK_MCP_MULTI_TENANT`, `--session-timeout` /
+ * `PROPSTACK_MCP_SESSION_TIMEOUT` (idle seconds, 0 = never), `--allowed-hosts` /
+ * `PROPSTACK_MCP_ALLOWED_HOSTS`, `--allowed-origins` / `PROPSTACK_MCP_ALLOWED_ORIGINS`
+ * (comma-separated).
+ * Tool selection: `--read-only` / `PROPSTACK_READ_ONLY`, `--toolsets` /
+ * `PROPSTACK_TOOLSETS`, `--allow-tools` / `PROPSTACK_ALLOW_TOOLS`,
+ * `--deny-tools` / `PROPSTACK_DENY_TOOLS` (all lists comma-separated).
+ * Safety: `--confirm-destructive` / `PROPSTACK_CONFIRM_DESTRUCTIVE`.
+ * Audit: `--audit-log <file>` / `PROPSTACK_AUDIT_LOG`, `--audit-hash-pii` /
+ * `PROPSTACK_AUDIT_HASH_PII`.
+ * Caching: `--cache-ttl` / `PROPSTACK_CACHE_TTL` ("off" or `prefix=seconds,...`).
+ * Rate limits: `--rate-limit` / `PROPSTACK_RATE_LIMIT` (requests per second),
+ * `--rate-burst` / `PROPSTACK_RATE_BURST`, `--max-concurrency` /
+ * `PROPSTACK_MAX_CONCURRENCY` (0 disables either limit).
+ * Idempotency: `--idempotency-store <file>` / `PROPSTACK_IDEMPOTENCY_STORE`.
+ * GDPR exports: `--export-dir <dir>` / `PROPSTACK_EXPORT_DIR`.
+ * PII redaction: `--redact-pii` / `PROPSTACK_REDACT_PII` pseudonymizes contact
+ * data before the model sees it; `--pseudonym-map <file>` /
+ * `PROPSTACK_PSEUDONYM_MAP` keeps the mapping across restarts.
+ * Testing: `--record-fixtures <dir>` / `PROPSTACK_RECORD_FIXTURES`.
+ * Network: `--base-url` / `PROPSTACK_BASE_URL`, `--proxy` / `PROPSTACK_PROXY`
+ * (falling back to `HTTPS_PROXY` / `HTTP_PROXY`, honouring `NO_PROXY`),
+ * `--ca-file` / `PROPSTACK_CA_FILE`.
+ * Startup check: `--check` validates the API key and exits.
+ */
+export function loadConfig(argv: readonly string[] = process.argv.slice(2), env: Env = process.env): ServerConfig {
+  const envTransport = env["PROPSTACK_MCP_TRANSPORT"]?.toLowerCase();
+  if (envTransport && envTransport !== "stdio" && envTransport !== "http") {
+    throw new Error(`Invalid PROPSTACK_MCP_TRANSPORT "${envTransport}". Expected "stdio" or "http".`);
+  }
+  const transport: TransportMode = hasFlag(argv, "http") ? "http" : (envTransport as TransportMode | undefined) ?? "stdio";
+
+  const portFlag = flagValue(argv, "port");
+  const portEnv = env["PROPSTACK_MCP_PORT"];
+  const port = portFlag !== undefined
+    ? parsePort(portFlag, "--port")
+    : portEnv
+      ? parsePort(portEnv, "PROPSTACK_MCP_PORT")
+      : DEFAULT_HTTP_PORT;
+
+  const host = flagValue(argv, "host") ?? env["PROPSTACK_MCP_HOST"] ?? DEFAULT_HTTP_HOST;
+
+  const requireSessionKey = hasFlag(argv, "multi-tenant") || parseBoolean(env["PROPSTACK_MCP_MULTI_TENANT"]);
+
+  const cacheFlag = flagValue(argv, "cache-ttl");
+
+  const tools: ToolPolicy = {
+    readOnly: hasFlag(argv, "read-only") || parseBoolean(env["PROPSTACK_READ_ONLY"]),
+    toolsets: resolveToolsets(parseList(flagValue(argv, "toolsets") ?? env["PROPSTACK_TOOLSETS"])),
+    allowTools: parseList(flagValue(argv, "allow-tools") ?? env["PROPSTACK_ALLOW_TOOLS"]),
+    denyTools: parseList(flagValue(argv, "deny-tools") ?? env["PROPSTACK_DENY_TOOLS"]),
+  };
+
+  return {
+    transport,
+    http: {
+      host,
+      port,
+      path: DEFAULT_HTTP_PATH,
+      requireSessionKey,
+      sessionIdleTimeoutMs:
+        numberOption(argv, env, "session-timeout", "PROPSTACK_MCP_SESSION_TIMEOUT", DEFAULT_SESSION_IDLE_TIMEOUT) * 1000,
+      allowedHosts: parseList(flagValue(argv, "allowed-hosts") ?? env["PROPSTACK_MCP_ALLOWED_HOSTS"]).map((h) => h.toLowerCase()),
+      allowedOrigins: parseList(flagValue(argv, "allowed-origins") ?? env["PROPSTACK_MCP_ALLOWED_ORIGINS"]).map((o) => o.toLowerCase()),
+    },
+    tools,
+    confirmDestructive: hasFlag(argv, "confirm-destructive") || parseBoolean(env["PROPSTACK_CONFIRM_DESTRUCTIVE"]),
+    audit: {
+      path: flagValue(argv, "audit-log") ?? (env["PROPSTACK_AUDIT_LOG"] || null),
+      hashPii: hasFlag(argv, "audit-hash-pii") || parseBoolean(env["PROPSTACK_AUDIT_HASH_PII"]),
+    },
+    cache: cacheFlag !== undefined
+      ? parseCacheRules(cacheFlag, "--cache-ttl")
+      : parseCacheRules(env["PROPSTACK_CACHE_TTL"], "PROPSTACK_CACHE_TTL"),
+    limits: {
+      requestsPerSecond: numberOption(argv, env, "rate-limit", "PROPSTACK_RATE_LIMIT", DEFAULT_RATE_LIMITS.requestsPerSecond),
+      burst: numberOption(argv, env, "rate-burst", "PROPSTACK_RATE_BURST", DEFAULT_RATE_LIMITS.burst),
+      maxConcurrent: Math.floor(numberOption(argv, env, "max-concurrency", "PROPSTACK_MAX_CONCURRENCY", DEFAULT_RATE_LIMITS.maxConcurrent)),
+    },
+    idempotencyStore: flagValue(argv, "idempotency-store") ?? (env["PROPSTACK_IDEMPOTENCY_STORE"] || null),
+    exportDir: flagValue(argv, "export-dir") ?? (env["PROPSTACK_EXPORT_DIR"] || null),
+    redaction: {
+      enabled: hasFlag(argv, "redact-pii") || parseBoolean(env["PROPSTACK_REDACT_PII"]),
+      mapPath: flagValue(argv, "pseudonym-map") ?? (env["PROPSTACK_PSEUDONYM_MAP"] || null),
+    },
+    recordFixtures: flagValue(argv, "record-fixtures") ?? (env["PROPSTACK_RECORD_FIXTURES"] || null),
+    network: {
+      baseUrl: urlOption(argv, env, "base-url", ["PROPSTACK_BASE_URL"]),
+      proxy: urlOption(argv, env, "proxy", ["PROPSTACK_PROXY", "HTTPS_PROXY", "https_proxy", "HTTP_PROXY", "http_proxy"]),
+      noProxy: parseList(env["NO_PROXY"] ?? env["no_proxy"]),
+      caFile: flagValue(argv, "ca-file") ?? (env["PROPSTACK_CA_FILE"] || null),
+    },
+    check: hasFlag(argv, "check"),
+  };
+}
@@ -0,0 +1,65 @@
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+
+/** Events kept per session before the oldest ones are dropped. */
+const DEFAULT_MAX_EVENTS = 1000;
+
+/**
+ * In-memory event store enabling SSE resumption for the Streamable HTTP
+ * transport. When a client reconnects with a `Last-Event-ID` header, the
+ * transport replays every message of that stream sent after the given event.
+ *
+ * Bounded: once `maxEvents` is reached the oldest events are evicted, so a
+ * long-lived session cannot grow memory without limit. A client reconnecting
+ * after its last seen event was evicted simply gets no replay.
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly events = new Map<EventId, { streamId: StreamId; message: JSONRPCMessage }>();
+  private readonly maxEvents: number;
+  private sequence = 0;
+
+  constructor(maxEvents: number = DEFAULT_MAX_EVENTS) {
+    this.maxEvents = maxEvents;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    // Stream IDs may contain underscores (the SDK uses "_GET_stream"), so the
+    // sequence number is appended and looked up via the map, never parsed.
+    const eventId = `${streamId}_${++this.sequence}`;
+    this.events.set(eventId, { streamId, message });
+
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest === undefined) break;
+      this.events.delete(oldest);
+    }
+
+    return eventId;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return this.events.get(eventId)?.streamId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) return "";
+
+    // Map iteration follows insertion order, which is the send order.
+    let found = false;
+    for (const [eventId, { streamId, message }] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+        continue;
+      }
+      if (found && streamId === last.streamId) {
+        await send(eventId, message);
+      }
+    }
+
+    return last.streamId;
+  }
+}
@@ -0,0 +1,116 @@
+import { mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+// ── Recorded API fixtures ────────────────────────────────────────────
+//
+// One format for both directions: the client's record mode writes real
+// Propstack responses as fixtures, and the mock Propstack server used by
+// the end-to-end tests replays them. Fixtures live in one JSON file per
+// top-level resource (contacts.json, units.json, ...), each an array.
+
+export type FixtureQuery = Record<string, string | string[]>;
+
+export interface Fixture {
+  method: string;
+  /** Request path without the API version prefix. Segments like ":id" match any value. */
+  path: string;
+  /** Query parameters the request must carry (extra parameters are allowed). */
+  query?: FixtureQuery;
+  status: number;
+  body?: unknown;
+}
+
+/** "/contacts/42/favorites" → "contacts.json" */
+export function fixtureFileFor(path: string): string {
+  return `${path.split("/")[1] || "root"}.json`;
+}
+
+/** Query parameters of a URL, with repeated `key[]` parameters collected into arrays. */
+export function queryOf(url: URL): FixtureQuery {
+  const query: FixtureQuery = {};
+  for (const [key, value] of url.searchParams) {
+    if (key.endsWith("[]")) {
+      const list = query[key];
+      query[key] = Array.isArray(list) ? [...list, value] : [value];
+    } else {
+      query[key] = value;
+    }
+  }
+  return query;
+}
+
+function sameValue(a: string | string[], b: string | string[] | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Specificity of a fixture for a request, or -1 if it does not match. */
+function score(fixture: Fixture, method: string, path: string, query: FixtureQuery): number {
+  if (fixture.method !== method) return -1;
+  const want = fixture.path.split("/");
+  const got = path.split("/");
+  if (want.length !== got.length) return -1;
+  let exact = 0;
+  for (let i = 0; i < want.length; i++) {
+    if (want[i]!.startsWith(":")) continue;
+    if (want[i] !== got[i]) return -1;
+    exact++;
+  }
+  const required = Object.entries(fixture.query ?? {});
+  if (!required.every(([key, value]) => sameValue(value, query[key]))) return -1;
+  // Literal path segments outweigh query matches; both make a fixture more specific.
+  return exact * 100 + required.length;
+}
+
+/** The most specific fixture for a request. */
+export function matchFixture(
+  fixtures: readonly Fixture[],
+  method: string,
+  path: string,
+  query: FixtureQuery,
+): Fixture | undefined {
+  let best: Fixture | undefined;
+  let bestScore = -1;
+  for (const fixture of fixtures) {
+    const s = score(fixture, method, path, query);
+    if (s > bestScore) {
+      best = fixture;
+      bestScore = s;
+    }
+  }
+  return best;
+}
+
+/** Read every fixture file in a directory. */
+export function loadFixtures(dir: string): Fixture[] {
+  return readdirSync(dir)
+    .filter((name) => name.endsWith(".json"))
+    .flatMap((name) => JSON.parse(readFileSync(join(dir, name), "utf8")) as Fixture[]);
+}
+
+/**
+ * Record mode: writes each request/response pair the client sees into
+ * `dir`. A later identical request (method, path and query) replaces the
+ * earlier recording. Recordings contain real CRM data — anonymize them
+ * before committing them anywhere.
+ */
+export class FixtureRecorder {
+  constructor(readonly dir: string) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  record(fixture: Fixture): void {
+    const file = join(this.dir, fixtureFileFor(fixture.path));
+    let fixtures: Fixture[] = [];
+    try {
+      fixtures = JSON.parse(readFileSync(file, "utf8")) as Fixture[];
+    } catch {
+      // First recording for this resource.
+    }
+    const isSame = (f: Fixture) =>
+      f.method === fixture.method && f.path === fixture.path && JSON.stringify(f.query ?? {}) === JSON.stringify(fixture.query ?? {});
+    fixtures = [...fixtures.filter((f) => !isSame(f)), fixture];
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(fixtures, null, 2) + "\n");
+    renameSync(tmp, file);
+  }
+}
@@ -0,0 +1,290 @@
+import { createServer as createNodeServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { HttpConfig } from "./config.js";
+import { InMemoryEventStore } from "./event-store.js";
+
+/** Reject request bodies larger than this (upload_document carries base64). */
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+/** Header a session can use to present its own Propstack API key. */
+const API_KEY_HEADER = "x-propstack-api-key";
+/** `_meta` key on the initialize request carrying the same API key. */
+const API_KEY_META = "propstack/apiKey";
+
+/** Bind addresses that accept connections on every interface. */
+const WILDCARD_HOSTS = new Set(["0.0.0.0", "::"]);
+/** Names a browser on this machine uses to reach a loopback-bound server. */
+const LOOPBACK_NAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+/** Per-session data handed to the server factory. */
+export interface SessionContext {
+  /** Propstack API key presented by this session, if any. */
+  apiKey: string | undefined;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  apiKey: string | undefined;
+  /** Requests and SSE streams still open; the idle timer runs only at zero. */
+  open: number;
+  idleTimer: NodeJS.Timeout | undefined;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buf = chunk as Buffer;
+    size += buf.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(buf);
+  }
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Extract the Propstack API key a client presents, from (in order) the
+ * X-Propstack-Api-Key header, an `Authorization: Bearer` header, or the
+ * `_meta["propstack/apiKey"]` field of the initialize request.
+ */
+function presentedApiKey(req: IncomingMessage, body?: unknown): string | undefined {
+  const header = headerValue(req, API_KEY_HEADER)?.trim();
+  if (header) return header;
+
+  const auth = headerValue(req, "authorization");
+  const bearer = auth && /^Bearer\s+(.+)$/i.exec(auth.trim())?.[1];
+  if (bearer) return bearer;
+
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    const meta = (body as { params?: { _meta?: Record<string, unknown> } }).params?._meta;
+    const key = meta?.[API_KEY_META];
+    if (typeof key === "string" && key.trim()) return key.trim();
+  }
+
+  return undefined;
+}
+
+/**
+ * `Host` values a server bound to `host:port` answers to when none are
+ * configured: the bound address, plus the loopback names when it listens on
+ * loopback or every interface. Other names must be configured explicitly.
+ */
+export function defaultAllowedHosts(host: string, port: number): string[] {
+  const bound = host.toLowerCase();
+  const name = bound.includes(":") ? `[${bound}]` : bound;
+  const names = WILDCARD_HOSTS.has(bound) ? LOOPBACK_NAMES
+    : LOOPBACK_NAMES.includes(name) ? [name, ...LOOPBACK_NAMES]
+    : [name];
+  return [...new Set(names)].map((n) => `${n}:${port}`);
+}
+
+/**
+ * Serve MCP over the Streamable HTTP transport.
+ *
+ * Each client session gets its own transport and McpServer (built by
+ * `createSessionServer`), keyed by the `Mcp-Session-Id` header the transport
+ * issues on initialize. SSE streams are resumable via an in-memory event
+ * store, so clients reconnecting with `Last-Event-ID` receive missed messages.
+ * A session with no open request or stream for `sessionIdleTimeoutMs` is
+ * closed, so clients that vanish without DELETE do not pile up.
+ *
+ * A session may present its own Propstack API key on initialize (see
+ * `presentedApiKey`); the key is bound to the session for its lifetime, and
+ * every later request must present the same key, so a leaked session ID
+ * alone does not give access to the account. With `requireSessionKey`,
+ * sessions without a key are refused. `onSessionClosed` is called once for
+ * every session created, when it ends.
+ *
+ * Against DNS rebinding, MCP requests must carry an allowed `Host` header
+ * and, if they carry an `Origin` header (browsers do), an allowed origin;
+ * anything else gets 403 before it reaches a session.
+ */
+export async function startHttpServer(
+  config: HttpConfig,
+  createSessionServer: (context: SessionContext) => McpServer,
+  onSessionClosed?: (context: SessionContext) => void,
+): Promise<Server> {
+  const sessions = new Map<string, Session>();
+  // Filled in once the server listens and the port is known.
+  let allowedHosts = new Set<string>();
+  let allowedOrigins = new Set<string>();
+
+  /** Count `res` as activity; the session may idle out once all its responses have ended. */
+  function trackActivity(session: Session, res: ServerResponse): void {
+    session.open++;
+    clearTimeout(session.idleTimer);
+    session.idleTimer = undefined;
+    res.once("close", () => {
+      session.open--;
+      const live = sessions.get(session.transport.sessionId ?? "") === session;
+      if (session.open > 0 || !live || config.sessionIdleTimeoutMs <= 0) return;
+      session.idleTimer = setTimeout(() => void session.transport.close(), config.sessionIdleTimeoutMs);
+      // An idle session must not keep the process alive.
+      session.idleTimer.unref();
+    });
+  }
+
+  /** Every request repeats the session's key (or, like the session, has none). */
+  function keyMatchesSession(req: IncomingMessage, session: Session, body?: unknown): boolean {
+    return presentedApiKey(req, body) === session.apiKey;
+  }
+
+  async function handleMcpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const host = headerValue(req, "host")?.toLowerCase();
+    if (!host || !allowedHosts.has(host)) {
+      sendJsonRpcError(res, 403, `Forbidden: host "${host ?? ""}" is not allowed`);
+      return;
+    }
+    const origin = headerValue(req, "origin")?.toLowerCase();
+    if (origin !== undefined && !allowedOrigins.has(origin)) {
+      sendJsonRpcError(res, 403, `Forbidden: origin "${origin}" is not allowed`);
+      return;
+    }
+
+    const sessionId = headerValue(req, "mcp-session-id");
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        sendJsonRpcError(res, 400, `Parse error: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+
+      if (existing) {
+        if (!keyMatchesSession(req, existing, body)) {
+          sendJsonRpcError(res, 403, "API key does not match this session");
+          return;
+        }
+        trackActivity(existing, res);
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+
+      if (!isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+        return;
+      }
+
+      const apiKey = presentedApiKey(req, body);
+      if (!apiKey && config.requireSessionKey) {
+        sendJsonRpcError(
+          res,
+          401,
+          `Unauthorized: this server is multi-tenant. Send your Propstack API key in the ${API_KEY_HEADER} header.`,
+        );
+        return;
+      }
+
+      const server = createSessionServer({ apiKey });
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        eventStore: new InMemoryEventStore(),
+        onsessioninitialized: (id) => {
+          const session: Session = { transport, server, apiKey, open: 0, idleTimer: undefined };
+          sessions.set(id, session);
+          trackActivity(session, res);
+        },
+      });
+      let closed = false;
+      transport.onclose = () => {
+        if (closed) return;
+        closed = true;
+        if (transport.sessionId) {
+          clearTimeout(sessions.get(transport.sessionId)?.idleTimer);
+          sessions.delete(transport.sessionId);
+        }
+        onSessionClosed?.({ apiKey });
+      };
+
+      // The transport's optional callback getters trip exactOptionalPropertyTypes.
+      await server.connect(transport as Transport);
+      await transport.handleRequest(req, res, body);
+      // A rejected initialize never becomes a session; release it now.
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) await transport.close();
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!existing) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Bad Request: missing Mcp-Session-Id header");
+        return;
+      }
+      if (!keyMatchesSession(req, existing)) {
+        sendJsonRpcError(res, 403, "API key does not match this session");
+        return;
+      }
+      trackActivity(existing, res);
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: "GET, POST, DELETE" }).end();
+  }
+
+  const httpServer = createNodeServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: "ok", sessions: sessions.size }));
+      return;
+    }
+
+    if (url.pathname !== config.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((err) => {
+      console.error("HTTP request failed:", err);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(config.port, config.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  allowedHosts = new Set(config.allowedHosts.length > 0 ? config.allowedHosts : defaultAllowedHosts(config.host, port));
+  allowedOrigins = new Set(config.allowedOrigins.length > 0
+    ? config.allowedOrigins
+    : [...allowedHosts].flatMap((h) => [`http://${h}`, `https://${h}`]));
+
+  return httpServer;
+}
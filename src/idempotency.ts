@@ -0,0 +1,182 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { readFileSync, renameSync, writeFileSync } from "node:fs";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestEvent } from "./propstack-client.js";
+import { recordIds } from "./audit-log.js";
+import { createsRecords } from "./tool-policy.js";
+
+// ── Idempotency keys for create tools ────────────────────────────────
+//
+// A caller that retries a create after a timeout cannot know whether the
+// first attempt went through. Create tools therefore accept an optional
+// `idempotency_key`: the first call with a key runs normally and its result
+// is remembered together with the IDs of the records it wrote; later calls
+// with the same key get that result back instead of creating duplicates.
+
+/** How long a key is remembered. */
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+type ToolResult = { content: { type: string; text?: string }[]; isError?: boolean };
+
+interface StoredResult {
+  /** Digest of the call arguments, to catch a key reused for a different request. */
+  argsHash: string;
+  createdAt: number;
+  recordIds: number[];
+  result: ToolResult;
+}
+
+/** Writes performed by the current create call, collected via the client hook. */
+const writesInCall = new AsyncLocalStorage<number[][]>();
+
+function digest(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+/** Short, non-reversible fingerprint of an API key, used to scope stored keys per account. */
+export function keyFingerprint(apiKey: string): string {
+  return digest(apiKey).slice(0, 12);
+}
+
+export class IdempotencyStore {
+  private readonly entries = new Map<string, StoredResult>();
+  private readonly pending = new Map<string, Promise<ToolResult>>();
+
+  /**
+   * @param path JSON file that persists keys across restarts; null keeps
+   *   them in memory only.
+   */
+  constructor(
+    readonly path: string | null = null,
+    private readonly ttlMs: number = DEFAULT_TTL_MS,
+  ) {
+    if (path) this.load(path);
+  }
+
+  /** Client request hook: remembers which records the current create call wrote. */
+  recordRequest(event: RequestEvent): void {
+    if (event.method === "GET" || event.status === null || event.status >= 400) return;
+    writesInCall.getStore()?.push(recordIds(event.path, event.response));
+  }
+
+  /**
+   * Run `execute` at most once per key. A repeated key returns the stored
+   * result, and a key still in progress waits for the original call.
+   * Calls that wrote nothing (validation errors, API failures) are not
+   * remembered, so retrying them really retries. Calls that wrote something
+   * are remembered even if they then failed: a retry must not create the
+   * same records again.
+   */
+  async run(key: string, args: unknown, execute: () => Promise<ToolResult>, now: number = Date.now()): Promise<ToolResult> {
+    this.prune(now);
+    const argsHash = digest(args);
+
+    const stored = this.entries.get(key);
+    if (stored) {
+      if (stored.argsHash !== argsHash) return mismatch();
+      return replay(stored);
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const writes: number[][] = [];
+    const call = writesInCall.run(writes, execute).then((result) => {
+      if (writes.length > 0) {
+        this.entries.set(key, { argsHash, createdAt: now, recordIds: [...new Set(writes.flat())], result });
+        this.save();
+      }
+      return result;
+    });
+    this.pending.set(key, call);
+    try {
+      return await call;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.createdAt + this.ttlMs <= now) this.entries.delete(key);
+    }
+  }
+
+  private load(path: string): void {
+    try {
+      const raw = JSON.parse(readFileSync(path, "utf8")) as Record<string, StoredResult>;
+      for (const [key, entry] of Object.entries(raw)) this.entries.set(key, entry);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Warning: ignoring unreadable idempotency store ${path}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  private save(): void {
+    if (!this.path) return;
+    try {
+      // Write-then-rename so a crash mid-write never leaves a torn file.
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, JSON.stringify(Object.fromEntries(this.entries)), { mode: 0o600 });
+      renameSync(tmp, this.path);
+    } catch (err) {
+      console.error(`Warning: could not write idempotency store ${this.path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+function replay(stored: StoredResult): ToolResult {
+  const ids = stored.recordIds.length > 0 ? ` Records: ${stored.recordIds.join(", ")}.` : "";
+  const note = {
+    type: "text",
+    text: `Already processed at ${new Date(stored.createdAt).toISOString()} with this idempotency_key — ` +
+      `returning the original result, nothing new was created.${ids}` +
+      (stored.result.isError ? " The original call failed after these writes; finish the remaining steps without this key." : ""),
+  };
+  return { ...stored.result, content: [note, ...stored.result.content] };
+}
+
+function mismatch(): ToolResult {
+  return {
+    content: [{
+      type: "text",
+      text: "Error: this idempotency_key was already used for a different request. Use a new key for a new record.",
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Wrap an McpServer so that every create tool gets an optional
+ * `idempotency_key` parameter. The key is removed from the arguments before
+ * the tool's own handler sees them. `scope` separates accounts sharing a store.
+ */
+export function applyIdempotency(server: McpServer, store: IdempotencyStore, scope: string): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "tool") {
+        return (name: string, ...rest: unknown[]) => {
+          if (createsRecords(name) && rest.length === 3) {
+            const [description, shape, handler] = rest as [string, z.ZodRawShape, (...a: unknown[]) => Promise<ToolResult>];
+            const withKey = {
+              ...shape,
+              idempotency_key: z.string().min(1).optional()
+                .describe("Unique key for this request (e.g. a call or message ID). Retrying with the same key returns the original result instead of creating duplicates."),
+            };
+            const guarded = (args: Record<string, unknown>, extra: unknown) => {
+              const { idempotency_key: key, ...toolArgs } = args;
+              if (typeof key !== "string") return handler(toolArgs, extra);
+              return store.run(`${scope}:${name}:${key}`, toolArgs, () => handler(toolArgs, extra));
+            };
+            rest = [description, withKey, guarded];
+          }
+          return (target.tool as (...args: unknown[]) => unknown).call(target, name, ...rest);
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
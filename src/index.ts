@@ -1,27 +1,18 @@
 #!/usr/bin/env node
 
 import "dotenv/config";
-import { createRequire } from "node:module";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { PropstackClient } from "./propstack-client.js";
-
-// Single source of truth for the version advertised to MCP clients.
-const require = createRequire(import.meta.url);
-const { version } = require("../package.json") as { version: string };
-import { registerContactTools } from "./tools/contacts.js";
-import { registerPropertyTools } from "./tools/properties.js";
-import { registerTaskTools } from "./tools/tasks.js";
-import { registerDealTools } from "./tools/deals.js";
-import { registerSearchProfileTools } from "./tools/search-profiles.js";
-import { registerProjectTools } from "./tools/projects.js";
-import { registerActivityTools } from "./tools/activities.js";
-import { registerEmailTools } from "./tools/emails.js";
-import { registerDocumentTools } from "./tools/documents.js";
-import { registerRelationshipTools } from "./tools/relationships.js";
-import { registerLookupTools } from "./tools/lookups.js";
-import { registerCompositeTools } from "./tools/composites.js";
-import { registerAdminTools } from "./tools/admin.js";
+import { PropstackClient, V1_BASE } from "./propstack-client.js";
+import { PropstackV2Client, v2BaseUrlFor } from "./propstack-v2-client.js";
+import { loadConfig } from "./config.js";
+import { createServer } from "./server.js";
+import { startHttpServer } from "./http-server.js";
+import { AuditLog } from "./audit-log.js";
+import { Pseudonymizer } from "./redaction.js";
+import { IdempotencyStore, keyFingerprint } from "./idempotency.js";
+import { FixtureRecorder } from "./fixtures.js";
+import { bypassesProxy, createDispatcher } from "./network.js";
+import { checkConnection } from "./check.js";
 
 // The key is optional at startup so the server can boot and advertise its
 // tools even when no key is configured. This is required by MCP registry
@@ -30,43 +21,158 @@ import { registerAdminTools } from "./tools/admin.js";
 // surfaces as a clear "Invalid API key" tool error instead of crashing the
 // whole process on boot.
 const PROPSTACK_API_KEY = process.env["PROPSTACK_API_KEY"] ?? "";
+// Propstack issues separate V1 and V2 keys; a V1 key is tried if no V2 key is set.
+const PROPSTACK_API_KEY_V2 = process.env["PROPSTACK_API_KEY_V2"] || PROPSTACK_API_KEY;
 
-if (!PROPSTACK_API_KEY) {
-  console.error(
-    "Warning: PROPSTACK_API_KEY is not set. The server will start and expose " +
-      "its tools, but every tool call will fail until you configure the key.",
-  );
-}
+async function main() {
+  const config = loadConfig();
+  const policy = config.tools;
+  const auditLog = config.audit.path ? new AuditLog(config.audit.path, config.audit.hashPii) : null;
+  const idempotencyStore = new IdempotencyStore(config.idempotencyStore);
+  const recorder = config.recordFixtures ? new FixtureRecorder(config.recordFixtures) : null;
+  // One mapping per account, shared by its V1 and V2 clients, so a contact
+  // keeps its pseudonym across sessions but pseudonyms never cross accounts.
+  const pseudonymizers = new Map<string, Pseudonymizer>();
+  const pseudonymizerFor = (apiKey: string): Pseudonymizer | null => {
+    if (!config.redaction.enabled) return null;
+    const account = keyFingerprint(apiKey);
+    let pseudonymizer = pseudonymizers.get(account);
+    if (!pseudonymizer) {
+      pseudonymizer = new Pseudonymizer(config.redaction.mapPath, account);
+      pseudonymizers.set(account, pseudonymizer);
+    }
+    return pseudonymizer;
+  };
+  const baseUrl = config.network.baseUrl ?? V1_BASE;
+  const v2BaseUrl = v2BaseUrlFor(baseUrl);
+  const dispatcher = createDispatcher(config.network, baseUrl);
+  const createClient = (apiKey: string): PropstackClient => {
+    const pseudonymizer = pseudonymizerFor(apiKey);
+    return new PropstackClient(apiKey, {
+      baseUrl,
+      readOnly: policy.readOnly,
+      cache: config.cache,
+      limits: config.limits,
+      ...(recorder && { recorder }),
+      ...(dispatcher && { dispatcher }),
+      ...(pseudonymizer && { pseudonymizer }),
+      onRequest: (event) => {
+        auditLog?.recordRequest(event);
+        idempotencyStore.recordRequest(event);
+      },
+    });
+  };
 
-const client = new PropstackClient(PROPSTACK_API_KEY);
-
-const server = new McpServer(
-  {
-    name: "propstack-mcp-server",
-    version,
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  },
-);
-
-registerContactTools(server, client);
-registerPropertyTools(server, client);
-registerTaskTools(server, client);
-registerDealTools(server, client);
-registerSearchProfileTools(server, client);
-registerProjectTools(server, client);
-registerActivityTools(server, client);
-registerEmailTools(server, client);
-registerDocumentTools(server, client);
-registerRelationshipTools(server, client);
-registerLookupTools(server, client);
-registerCompositeTools(server, client);
-registerAdminTools(server, client);
+  // Session keys are used for both API versions; the server-wide key may
+  // have a separate V2 key.
+  const createV2Client = (apiKey: string): PropstackV2Client | null => {
+    const v2Key = apiKey === PROPSTACK_API_KEY ? PROPSTACK_API_KEY_V2 : apiKey;
+    if (!v2Key || !v2BaseUrl) return null;
+    const pseudonymizer = pseudonymizerFor(apiKey);
+    return new PropstackV2Client(v2Key, {
+      baseUrl: v2BaseUrl,
+      limits: config.limits,
+      ...(dispatcher && { dispatcher }),
+      ...(pseudonymizer && { pseudonymizer }),
+    });
+  };
 
-async function main() {
+  if (config.check) {
+    const result = await checkConnection(createClient(PROPSTACK_API_KEY), baseUrl, PROPSTACK_API_KEY);
+    for (const line of result.lines) (result.ok ? console.log : console.error)(line);
+    process.exit(result.ok ? 0 : 1);
+  }
+
+  // One pair of clients per distinct API key. HTTP sessions presenting the
+  // same key share them (and so their retry/backoff behaviour and rate
+  // limits) instead of each session hammering the same Propstack account
+  // independently. A key's clients are dropped when its last session closes,
+  // so keys of past sessions are not kept for the life of the process.
+  const accounts = new Map<string, { client: PropstackClient; v2: PropstackV2Client | null; sessions: number }>();
+  const openAccount = (apiKey: string) => {
+    let account = accounts.get(apiKey);
+    if (!account) {
+      account = { client: createClient(apiKey), v2: createV2Client(apiKey), sessions: 0 };
+      accounts.set(apiKey, account);
+    }
+    account.sessions++;
+    return account;
+  };
+  const closeAccount = (apiKey: string) => {
+    const account = accounts.get(apiKey);
+    if (account && --account.sessions === 0) accounts.delete(apiKey);
+  };
+
+  const createSessionServer = (apiKey: string) => {
+    const { client, v2 } = openAccount(apiKey);
+    return createServer(client, policy, {
+      confirmDestructive: config.confirmDestructive,
+      auditLog,
+      account: keyFingerprint(apiKey),
+      idempotency: { store: idempotencyStore, scope: keyFingerprint(apiKey) },
+      v2,
+      exportDir: config.exportDir,
+    });
+  };
+
+  const multiTenant = config.transport === "http" && config.http.requireSessionKey;
+
+  if (!PROPSTACK_API_KEY && !multiTenant) {
+    console.error(
+      "Warning: PROPSTACK_API_KEY is not set. The server will start and expose " +
+        "its tools, but every tool call will fail until you configure the key.",
+    );
+  }
+
+  if (policy.readOnly) {
+    console.error("Read-only mode: tools that write to Propstack are disabled.");
+  }
+
+  if (auditLog) {
+    console.error(`Audit log: ${auditLog.path}${config.audit.hashPii ? " (personal data hashed)" : ""}`);
+  }
+
+  if (config.redaction.enabled) {
+    const where = config.redaction.mapPath ? `mapping in ${config.redaction.mapPath}` : "mapping in memory only";
+    console.error(`PII redaction: contact names, emails, phones and addresses are pseudonymized (${where}).`);
+  }
+
+  if (config.exportDir) {
+    console.error(`Contact exports (export_contact_data): ${config.exportDir}. They contain personal data.`);
+  }
+
+  if (config.network.baseUrl || config.network.proxy || config.network.caFile) {
+    const proxied = config.network.proxy && !bypassesProxy(new URL(baseUrl).hostname, config.network.noProxy);
+    const via = proxied ? ` via proxy ${new URL(config.network.proxy!).host}` : "";
+    const ca = config.network.caFile ? ` (extra CA: ${config.network.caFile})` : "";
+    console.error(`Propstack API: ${baseUrl}${via}${ca}`);
+  }
+
+  if (recorder) {
+    console.error(`Record mode: saving API responses as fixtures in ${recorder.dir}. They contain real CRM data.`);
+  }
+
+  if (config.confirmDestructive) {
+    console.error("Confirmation mode: delete tools preview first and need a confirmation step.");
+  }
+
+  if (config.transport === "http") {
+    // Sessions presenting their own key get a client for that account; the
+    // rest fall back to the server-wide key (refused up front in multi-tenant
+    // mode, so the fallback never applies there).
+    await startHttpServer(
+      config.http,
+      ({ apiKey }) => createSessionServer(apiKey ?? PROPSTACK_API_KEY),
+      ({ apiKey }) => closeAccount(apiKey ?? PROPSTACK_API_KEY),
+    );
+    console.error(
+      `Propstack MCP server running on http://${config.http.host}:${config.http.port}${config.http.path}` +
+        (multiTenant ? " (multi-tenant: per-session API keys)" : ""),
+    );
+    return;
+  }
+
+  const server = createSessionServer(PROPSTACK_API_KEY);
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error("Propstack MCP server running on stdio");
@@ -0,0 +1,56 @@
+import { readFileSync } from "node:fs";
+import { rootCertificates } from "node:tls";
+import { Agent, ProxyAgent } from "undici";
+
+// ── Outbound network settings ────────────────────────────────────────
+//
+// Corporate networks often route traffic through an HTTP(S) proxy and/or
+// inspect TLS with their own CA. Node's fetch honours neither the usual
+// proxy variables nor extra CAs on its own, so the client gets an explicit
+// undici dispatcher when either is configured.
+
+export interface NetworkConfig {
+  /** Propstack API base URL; null = the public v1 API. */
+  baseUrl: string | null;
+  /** Proxy URL for requests to Propstack; null = connect directly. */
+  proxy: string | null;
+  /** Hosts that bypass the proxy (NO_PROXY syntax). */
+  noProxy: string[];
+  /** PEM file with additional trusted CA certificates. */
+  caFile: string | null;
+}
+
+/** True if `host` is covered by a NO_PROXY list ("*", exact hosts, or domain suffixes). */
+export function bypassesProxy(host: string, noProxy: readonly string[]): boolean {
+  const h = host.toLowerCase();
+  return noProxy.some((entry) => {
+    const e = entry.toLowerCase().replace(/^\*?\./, "");
+    return entry === "*" || h === e || h.endsWith(`.${e}`);
+  });
+}
+
+/** The dispatcher type global fetch accepts in its init. */
+export type FetchDispatcher = NonNullable<RequestInit["dispatcher"]>;
+
+/**
+ * Build the dispatcher for requests to `targetUrl`, or undefined when the
+ * defaults suffice. Extra CAs are added to Node's bundled roots, not
+ * substituted for them.
+ */
+export function createDispatcher(config: NetworkConfig, targetUrl: string): FetchDispatcher | undefined {
+  const ca = config.caFile ? [...rootCertificates, readFileSync(config.caFile, "utf8")] : undefined;
+  const useProxy = config.proxy !== null && !bypassesProxy(new URL(targetUrl).hostname, config.noProxy);
+
+  // The undici package and the fetch bundled with Node ship separate type
+  // declarations of the same dispatcher interface, hence the casts.
+  if (useProxy) {
+    return new ProxyAgent({
+      uri: config.proxy!,
+      ...(ca && { requestTls: { ca }, proxyTls: { ca } }),
+    }) as unknown as FetchDispatcher;
+  }
+  if (ca) {
+    return new Agent({ connect: { ca } }) as unknown as FetchDispatcher;
+  }
+  return undefined;
+}
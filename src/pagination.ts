@@ -0,0 +1,106 @@
+import type { PropstackRequestOptions } from "./propstack-client.js";
+
+// ── V1 list pagination ───────────────────────────────────────────────
+//
+// V1 list endpoints wrap their records differently: `{ data, meta }` for
+// most resources, `{ documents }`, `{ events }` and `{ hooks }` for a few,
+// and bare arrays for others. Pagination hides that and walks the pages
+// until the listing is exhausted or a hard cap is reached.
+
+type Params = NonNullable<PropstackRequestOptions["params"]>;
+
+/** Envelope keys that hold the records, checked in order. */
+const ITEM_KEYS = ["data", "documents", "events", "hooks"] as const;
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const DEFAULT_MAX_ITEMS = 2000;
+
+export interface PaginateOptions {
+  /** Filters sent with every page request. */
+  params?: Params;
+  /** Records per page (default 100). */
+  pageSize?: number;
+  /** Name of the page size parameter; most endpoints take `per_page`, some `per`. */
+  pageSizeParam?: "per_page" | "per";
+  /** Stop after this many records (default 2000). */
+  maxItems?: number;
+  /** Stops paging: the current request is aborted and no further page is fetched. */
+  signal?: AbortSignal;
+  /** Called after each page with the running count, e.g. to report progress. */
+  onPage?: (progress: PageProgress) => void;
+}
+
+export interface PageProgress {
+  /** Records fetched so far. */
+  items: number;
+  /** Records expected in total, when known. */
+  total: number | undefined;
+}
+
+export interface Page<T> {
+  items: T[];
+  /** Total across all pages, when the endpoint reports it. */
+  total: number | undefined;
+}
+
+/** Records and total count of one list response, whatever its envelope. */
+export function readPage<T>(raw: unknown): Page<T> {
+  if (Array.isArray(raw)) return { items: raw as T[], total: undefined };
+  if (raw && typeof raw === "object") {
+    const body = raw as Record<string, unknown>;
+    const key = ITEM_KEYS.find((k) => Array.isArray(body[k]));
+    const meta = body["meta"] as { total_count?: unknown } | undefined;
+    const total = typeof meta?.total_count === "number" ? meta.total_count : undefined;
+    return { items: key ? (body[key] as T[]) : [], total };
+  }
+  return { items: [], total: undefined };
+}
+
+/**
+ * Async iterable over every record of a V1 list endpoint. Pages are fetched
+ * lazily, so breaking out of the loop stops further requests. After the
+ * loop, `capped` tells whether `maxItems` cut the listing short and
+ * `total` holds the reported total (if any), for the tool's warning.
+ */
+export class Pagination<T> implements AsyncIterable<T> {
+  readonly maxItems: number;
+  total: number | undefined;
+  capped = false;
+
+  constructor(
+    private readonly fetchPage: (params: Params) => Promise<unknown>,
+    private readonly options: PaginateOptions = {},
+  ) {
+    this.maxItems = options.maxItems ?? DEFAULT_MAX_ITEMS;
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T, void, undefined> {
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    const sizeParam = this.options.pageSizeParam ?? "per_page";
+    let seen = 0;
+
+    for (let page = 1; seen < this.maxItems; page++) {
+      this.options.signal?.throwIfAborted();
+      const per = Math.min(pageSize, this.maxItems - seen);
+      const { items, total } = readPage<T>(await this.fetchPage({ ...this.options.params, page, [sizeParam]: per }));
+      this.total = total ?? this.total;
+      this.options.onPage?.({
+        items: seen + Math.min(items.length, this.maxItems - seen),
+        total: this.total !== undefined ? Math.min(this.total, this.maxItems) : undefined,
+      });
+
+      for (const item of items.slice(0, this.maxItems - seen)) {
+        seen++;
+        yield item;
+      }
+
+      // Without a total, a short page is the last one; bare arrays are
+      // often unpaginated, and asking for page 2 would repeat page 1.
+      const exhausted = items.length === 0 || (this.total !== undefined ? seen >= this.total : items.length < per);
+      if (exhausted) return;
+    }
+
+    // Only reached when maxItems stopped the loop with records left.
+    this.capped = this.total === undefined || this.total > seen;
+  }
+}
@@ -0,0 +1,180 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Completers } from "./completions.js";
+import { STALE_DEAL_DAYS } from "./tools/composites.js";
+
+// ── MCP prompts for broker workflows ─────────────────────────────────
+//
+// Ready-made instructions for recurring broker tasks, so every broker gets
+// the same call preparation, pipeline review and outreach instead of
+// writing their own prompts. Each prompt expands into steps that name the
+// tools to call. A prompt is offered only when the tools it relies on are
+// exposed; optional steps (sending email, creating reminders, updating
+// deals) are left out when their tools are not, e.g. in read-only mode.
+// ID arguments complete from live Propstack data (see completions.ts).
+
+/** Prompt arguments arrive as strings; IDs must still be numeric. */
+const id = (what: string) => z.string().regex(/^\d+$/, `${what} must be a numeric ID`);
+
+function userPrompt(text: string): GetPromptResult {
+  return { messages: [{ role: "user", content: { type: "text", text } }] };
+}
+
+/** Number the steps that apply, skipping nulls. */
+function steps(lines: readonly (string | null)[]): string {
+  return lines
+    .filter((line): line is string => line !== null)
+    .map((line, i) => `${i + 1}. ${line}`)
+    .join("\n");
+}
+
+const CONFIRM_WRITES =
+  "Never send emails, create tasks or change deals without first showing the broker exactly what you will do and getting their OK.";
+
+export function registerPrompts(server: McpServer, exposed: ReadonlySet<string>, completers: Completers): void {
+  const has = (...tools: string[]) => tools.every((t) => exposed.has(t));
+
+  // ── prepare_call ─────────────────────────────────────────────────
+
+  if (has("full_contact_360")) {
+    server.registerPrompt(
+      "prepare_call",
+      {
+        title: "Prepare for a call with a contact",
+        description: "Briefing before calling a contact: who they are, what they are looking for, open deals and recent activity.",
+        argsSchema: {
+          contact_id: completable(id("contact_id").describe("Propstack contact ID"), completers.contact),
+        },
+      },
+      ({ contact_id }) => userPrompt([
+        `I am about to call contact #${contact_id}. Prepare me for the call.`,
+        "",
+        steps([
+          `Call full_contact_360 with contact_id ${contact_id}.`,
+          "Summarize who the contact is: name, status, rating, assigned broker, GDPR consent and any warning notice.",
+          "List the active search profiles in one line each (marketing type, area, budget, size).",
+          "List the open deals with property, stage and feeling.",
+          "Summarize the last interactions and any open to-dos, with dates.",
+          "Suggest three talking points and the next best action for this call.",
+        ]),
+        "",
+        "Keep the briefing short enough to read in one minute. If the contact has withdrawn GDPR consent or carries a warning notice, say so first.",
+      ].join("\n")),
+    );
+  }
+
+  // ── weekly_pipeline_review ───────────────────────────────────────
+
+  if (has("pipeline_summary")) {
+    server.registerPrompt(
+      "weekly_pipeline_review",
+      {
+        title: "Weekly pipeline review",
+        description: "Review deals per stage, flag stale deals and propose follow-ups.",
+        argsSchema: {
+          broker_id: completable(id("broker_id").optional().describe("Limit the review to one broker's deals"), completers.broker),
+          pipeline_id: completable(id("pipeline_id").optional().describe("Limit the review to one pipeline"), completers.pipeline),
+        },
+      },
+      ({ broker_id, pipeline_id }) => {
+        const filters = [
+          pipeline_id ? `pipeline_id ${pipeline_id}` : null,
+          broker_id ? `broker_id ${broker_id}` : null,
+        ].filter(Boolean).join(" and ");
+        return userPrompt([
+          `Run our weekly pipeline review${broker_id ? ` for broker #${broker_id}` : ""}.`,
+          "",
+          steps([
+            `Call pipeline_summary${filters ? ` with ${filters}` : ""}.`,
+            "Show deals and value per stage as a table and point out where deals pile up.",
+            `List the stale deals (no movement in ${STALE_DEAL_DAYS}+ days) with contact, property and stage.`,
+            has("search_activities")
+              ? "For each stale deal, call search_activities with the deal's client_id to see the last interaction."
+              : null,
+            "Propose one concrete next step per stale deal (call, viewing, price discussion, or close as lost).",
+            has("create_task")
+              ? "Offer to create reminders for the agreed next steps with create_task (is_reminder: true, due_date, client_ids, property_ids)."
+              : null,
+          ]),
+          ...(has("create_task") ? ["", CONFIRM_WRITES] : []),
+        ].join("\n"));
+      },
+    );
+  }
+
+  // ── new_listing_outreach ─────────────────────────────────────────
+
+  if (has("get_property", "match_contacts_to_property")) {
+    server.registerPrompt(
+      "new_listing_outreach",
+      {
+        title: "New listing outreach",
+        description: "Find contacts whose search profiles match a new listing and prepare personal outreach.",
+        argsSchema: {
+          property_id: completable(id("property_id").describe("Propstack property ID of the new listing"), completers.property),
+          broker_id: completable(id("broker_id").optional().describe("Broker who sends the outreach"), completers.broker),
+          snippet_id: completable(id("snippet_id").optional().describe("Email template for the outreach"), completers.snippet),
+        },
+      },
+      ({ property_id, broker_id, snippet_id }) => userPrompt([
+        `We have a new listing, property #${property_id}. Prepare the outreach to matching contacts.`,
+        "",
+        steps([
+          `Call get_property with id ${property_id} and summarize the listing in three lines.`,
+          `Call match_contacts_to_property with property_id ${property_id}.`,
+          "Show the best matches with score, what matched and what did not. Treat the score as a suggestion; the broker decides who is contacted.",
+          "Draft a short, personal message for each contact the broker picks, mentioning why the listing fits their search.",
+          has("send_email")
+            ? `Once the broker approves, send the emails with send_email${broker_id ? ` (broker_id ${broker_id})` : ""}, using ${snippet_id ? `snippet_id ${snippet_id}` : "the email template (snippet_id) the broker names"}, linked via client_ids and property_ids ${property_id}.`
+            : "The broker sends the messages; do not try to send them yourself.",
+        ]),
+        "",
+        "Skip contacts that withdrew GDPR consent or do not accept contact.",
+        ...(has("send_email") ? ["", CONFIRM_WRITES] : []),
+      ].join("\n")),
+    );
+  }
+
+  // ── post_viewing_followup ────────────────────────────────────────
+
+  if (has("full_contact_360", "get_property")) {
+    server.registerPrompt(
+      "post_viewing_followup",
+      {
+        title: "Post-viewing follow-up",
+        description: "After a viewing: record feedback, move the deal and plan the follow-up with the contact.",
+        argsSchema: {
+          contact_id: completable(id("contact_id").describe("Contact who attended the viewing"), completers.contact),
+          property_id: completable(id("property_id").describe("Property that was viewed"), completers.property),
+          feedback: z.string().optional().describe("What the contact said at the viewing"),
+          deal_stage_id: completable(id("deal_stage_id").optional().describe("Stage to move the deal to"), completers.dealStage),
+          snippet_id: completable(id("snippet_id").optional().describe("Email template for the follow-up"), completers.snippet),
+        },
+      },
+      ({ contact_id, property_id, feedback, deal_stage_id, snippet_id }) => userPrompt([
+        `Contact #${contact_id} has just viewed property #${property_id}. Help me follow up.`,
+        ...(feedback ? ["", `Feedback from the viewing: ${feedback}`] : []),
+        "",
+        steps([
+          `Call full_contact_360 with contact_id ${contact_id} and get_property with id ${property_id}.`,
+          feedback ? null : "Ask me how the viewing went before proposing anything.",
+          has("search_deals")
+            ? `Call search_deals with client_id ${contact_id} and property_id ${property_id} to find the deal.`
+            : null,
+          has("update_deal")
+            ? `${deal_stage_id ? `Move the deal to stage ${deal_stage_id} and propose` : "Propose the new deal stage and"} the feeling (cold/warm/hot); apply it with update_deal once I agree.`
+            : "Propose the new deal stage and feeling (cold/warm/hot).",
+          has("create_task")
+            ? `Log the feedback as a note with create_task (client_ids ${contact_id}, property_ids ${property_id}) and propose a reminder for the next step.`
+            : null,
+          has("send_email")
+            ? `Draft a follow-up email; send it with send_email and ${snippet_id ? `snippet_id ${snippet_id}` : "the template I name"} only after I approve it.`
+            : "Draft a follow-up message for me to send.",
+        ]),
+        ...(exposed.has("update_deal") || exposed.has("create_task") || exposed.has("send_email") ? ["", CONFIRM_WRITES] : []),
+      ].join("\n")),
+    );
+  }
+}
@@ -1,15 +1,64 @@
+import { ResponseCache, type CacheRule } from "./response-cache.js";
+import { RateLimiter, sleep, type RateLimitConfig } from "./rate-limiter.js";
+import { queryOf, type FixtureRecorder } from "./fixtures.js";
+import { Pagination, type PaginateOptions } from "./pagination.js";
+import type { Pseudonymizer } from "./redaction.js";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  canRetryError,
+  canRetryStatus,
+  parseRetryAfter,
+  type CircuitBreakerOptions,
+  type RetryPolicy,
+} from "./retry-policy.js";
+
 export type { PropstackPaginatedResponse } from "./types/propstack.js";
 
-const V1_BASE = "https://api.propstack.de/v1";
+export const V1_BASE = "https://api.propstack.de/v1";
 
-const MAX_RETRIES = 3;
-const RETRY_BASE_MS = 1000;
 /** Abort a single request attempt if the server does not respond in time. */
 const REQUEST_TIMEOUT_MS = 30_000;
 
 export interface PropstackRequestOptions {
   params?: Record<string, string | number | boolean | string[] | number[] | undefined>;
   body?: unknown;
+  /** Abort the request; it is neither sent nor retried once aborted. */
+  signal?: AbortSignal;
+}
+
+/** Outcome of one request, as reported to the `onRequest` hook. */
+export interface RequestEvent {
+  method: string;
+  path: string;
+  /** HTTP status of the final attempt, or null if no response was received. */
+  status: number | null;
+  /** Parsed response body on success, undefined otherwise. */
+  response: unknown;
+}
+
+export interface PropstackClientOptions {
+  baseUrl?: string;
+  /** Refuse every non-GET request before it leaves the process. */
+  readOnly?: boolean;
+  /** Called once per request after it completes or fails (not per retry). */
+  onRequest?: (event: RequestEvent) => void;
+  /** Cache GET responses under these path prefixes (none by default). */
+  cache?: readonly CacheRule[];
+  /** Throttle outgoing requests (unlimited by default). */
+  limits?: RateLimitConfig;
+  /** When and how failed requests are retried. */
+  retry?: RetryPolicy;
+  /** Fail fast while Propstack is down. */
+  circuitBreaker?: CircuitBreakerOptions;
+  /** Record mode: save every response as a test fixture. */
+  recorder?: FixtureRecorder;
+  /** undici dispatcher for proxies or extra CAs (see createDispatcher). */
+  dispatcher?: RequestInit["dispatcher"];
+  /** Redaction mode: pseudonymize contact PII in responses, restore it in requests. */
+  pseudonymizer?: Pseudonymizer;
 }
 
 export class PropstackError extends Error {
@@ -24,13 +73,47 @@ export class PropstackError extends Error {
   }
 }
 
+/**
+ * Thrown when a write is attempted while the server runs in read-only mode.
+ * Mutating tools are not registered in that mode at all; this is the second
+ * line of defense for any code path that still tries to write.
+ */
+export class ReadOnlyModeError extends Error {
+  constructor(
+    public readonly method: string,
+    public readonly path: string,
+  ) {
+    super(`Refused ${method} ${path}: the server is running in read-only mode and cannot change Propstack data.`);
+    this.name = "ReadOnlyModeError";
+  }
+}
+
 export class PropstackClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
+  private readonly onRequest: ((event: RequestEvent) => void) | undefined;
+  private readonly cache: ResponseCache | undefined;
+  private readonly limiter: RateLimiter | undefined;
+  private readonly retry: RetryPolicy;
+  private readonly breaker: CircuitBreaker;
+  private readonly recorder: FixtureRecorder | undefined;
+  private readonly dispatcher: RequestInit["dispatcher"];
+  /** The account's pseudonym mapping in redaction mode. */
+  readonly pseudonymizer: Pseudonymizer | undefined;
+  readonly readOnly: boolean;
 
-  constructor(apiKey: string, baseUrl: string = V1_BASE) {
+  constructor(apiKey: string, options: PropstackClientOptions = {}) {
     this.apiKey = apiKey;
-    this.baseUrl = baseUrl;
+    this.baseUrl = options.baseUrl ?? V1_BASE;
+    this.readOnly = options.readOnly ?? false;
+    this.onRequest = options.onRequest;
+    this.cache = options.cache?.length ? new ResponseCache(options.cache) : undefined;
+    this.limiter = options.limits ? new RateLimiter(options.limits) : undefined;
+    this.retry = options.retry ?? DEFAULT_RETRY_POLICY;
+    this.breaker = new CircuitBreaker(options.circuitBreaker);
+    this.recorder = options.recorder;
+    this.dispatcher = options.dispatcher;
+    this.pseudonymizer = options.pseudonymizer;
   }
 
   async get<T>(path: string, opts?: PropstackRequestOptions): Promise<T> {
@@ -49,6 +132,23 @@ export class PropstackClient {
     return this.request<T>("DELETE", path, opts);
   }
 
+  /**
+   * Run `fn` with real, unredacted responses. Only for output that never
+   * reaches the model, such as files written to disk.
+   */
+  unredacted<T>(fn: () => Promise<T>): Promise<T> {
+    return this.pseudonymizer ? this.pseudonymizer.bypass(fn) : fn();
+  }
+
+  /**
+   * Iterate every record of a V1 list endpoint across pages, up to
+   * `options.maxItems`. Check `capped` on the result after the loop.
+   */
+  paginate<T>(path: string, options: PaginateOptions = {}): Pagination<T> {
+    const { signal } = options;
+    return new Pagination<T>((params) => this.get(path, { params, ...(signal && { signal }) }), options);
+  }
+
   private buildUrl(path: string, params?: PropstackRequestOptions["params"]): string {
     const url = new URL(`${this.baseUrl}${path}`);
     if (params) {
@@ -66,11 +166,32 @@ export class PropstackClient {
     return url.toString();
   }
 
+  /** Pseudonymize a response in redaction mode; the cache and hooks keep the real data. */
+  private redact(path: string, data: unknown): unknown {
+    return this.pseudonymizer ? this.pseudonymizer.redact(path, data) : data;
+  }
+
+  /** Record an error response, keeping JSON error bodies structured. */
+  private recordError(method: string, path: string, url: string, status: number, text: string): void {
+    if (!this.recorder) return;
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Plain-text error body; keep as is.
+    }
+    this.recorder.record({ method, path, query: queryOf(new URL(url)), status, body });
+  }
+
   private async request<T>(
     method: string,
     path: string,
     opts?: PropstackRequestOptions,
   ): Promise<T> {
+    if (this.readOnly && method !== "GET") {
+      throw new ReadOnlyModeError(method, path);
+    }
+
     if (!this.apiKey) {
       // Deferred until the first real request: the server is allowed to start
       // without a key (so tools can be listed), but any actual API call needs
@@ -83,58 +204,112 @@ export class PropstackClient {
       );
     }
 
-    const url = this.buildUrl(path, opts?.params);
+    // Pseudonyms the model passes back stand for real values.
+    const params = this.pseudonymizer ? this.pseudonymizer.restore(opts?.params) : opts?.params;
+    const url = this.buildUrl(path, params);
+
+    if (method === "GET") {
+      const cached = this.cache?.get(url);
+      if (cached !== undefined) return this.redact(path, cached) as T;
+    } else {
+      // Drop before sending, so a failed or partial write never leaves
+      // stale reference data behind.
+      this.cache?.invalidate(path);
+    }
 
     const headers: Record<string, string> = {
       "X-API-KEY": this.apiKey,
       "Accept": "application/json",
     };
 
-    const init: RequestInit = { method, headers };
+    const init: RequestInit = { method, headers, ...(this.dispatcher && { dispatcher: this.dispatcher }) };
 
     if (opts?.body !== undefined && (method === "POST" || method === "PUT" || method === "PATCH")) {
       headers["Content-Type"] = "application/json";
-      init.body = JSON.stringify(opts.body);
+      init.body = JSON.stringify(this.pseudonymizer ? this.pseudonymizer.restore(opts.body) : opts.body);
     }
 
-    let lastError: Error | undefined;
+    const cancel = opts?.signal;
+    // Backoff before the next attempt, waited out inside the try so a cancel ends it.
+    let wait = 0;
 
-    for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
-      if (attempt > 0) {
-        const delay = RETRY_BASE_MS * 2 ** (attempt - 1);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = attempt < this.retry.maxRetries;
 
       let res: Response;
+      let probe = false;
       try {
-        // Fresh timeout signal per attempt — a timeout aborts only this try,
-        // leaving retries (network errors and timeouts both fall through here).
-        res = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+        if (wait > 0) await sleep(wait, cancel);
+        cancel?.throwIfAborted();
+        probe = this.breaker.check();
+        // Fresh timeout signal per attempt — a timeout aborts only this try.
+        // The timeout starts once the limiter lets the attempt through, so
+        // time spent queued does not count against it.
+        const send = () => {
+          cancel?.throwIfAborted();
+          const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+          return fetch(url, { ...init, signal: cancel ? AbortSignal.any([timeout, cancel]) : timeout });
+        };
+        res = await (this.limiter ? this.limiter.run(send, cancel) : send());
       } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-        continue;
+        if (err instanceof CircuitOpenError) {
+          if (attempt > 0) this.onRequest?.({ method, path, status: null, response: undefined });
+          throw err;
+        }
+        // Cancelled by the caller: not Propstack's fault, and not retried.
+        if (cancel?.aborted) {
+          // A cancelled probe says nothing about Propstack; let the next caller probe.
+          if (probe) this.breaker.releaseProbe();
+          this.onRequest?.({ method, path, status: null, response: undefined });
+          throw cancel.reason;
+        }
+        // Network error or timeout: the request may or may not have been
+        // applied, so only repeat it if doing so cannot create duplicates.
+        this.breaker.recordFailure();
+        if (canRetry && canRetryError(method, err)) {
+          wait = backoffDelay(this.retry, attempt + 1);
+          continue;
+        }
+        this.onRequest?.({ method, path, status: null, response: undefined });
+        if (!canRetryError(method, err)) {
+          throw new Error(
+            `${method} ${path} got no response from Propstack and was not retried, because it may already ` +
+            `have been applied. Check in Propstack before trying again.`,
+            { cause: err },
+          );
+        }
+        throw err;
       }
 
-      if (res.status === 429 && attempt < MAX_RETRIES) {
-        const retryAfter = res.headers.get("Retry-After");
-        if (retryAfter) {
-          await new Promise((resolve) => setTimeout(resolve, Number(retryAfter) * 1000));
-        }
+      if (res.status >= 500) this.breaker.recordFailure();
+      else this.breaker.recordSuccess();
+
+      if (canRetry && canRetryStatus(method, res.status)) {
+        const retryAfter = parseRetryAfter(res.headers.get("Retry-After"));
+        wait = retryAfter !== null
+          ? Math.min(retryAfter, this.retry.maxRetryAfterMs)
+          : backoffDelay(this.retry, attempt + 1);
+        await res.body?.cancel();
         continue;
       }
 
       if (!res.ok) {
         const body = await res.text();
+        this.recordError(method, path, url, res.status, body);
+        this.onRequest?.({ method, path, status: res.status, response: undefined });
         throw new PropstackError(res.status, res.statusText, body, path);
       }
 
-      if (res.status === 204) {
-        return undefined as T;
+      const data = res.status === 204 ? undefined : await res.json();
+      if (method === "GET") {
+        this.cache?.set(path, url, data);
+      } else {
+        // Again after the write: a GET that raced it may have re-cached old data.
+        this.cache?.invalidate(path);
       }
-
-      return (await res.json()) as T;
+      this.recorder?.record({ method, path, query: queryOf(new URL(url)), status: res.status, body: data });
+      this.onRequest?.({ method, path, status: res.status, response: data });
+      return this.redact(path, data) as T;
     }
-
-    throw lastError ?? new Error(`Request to ${path} failed after ${MAX_RETRIES} retries`);
   }
 }
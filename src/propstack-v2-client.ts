@@ -0,0 +1,110 @@
+import { PropstackClient, PropstackError, V1_BASE, type PropstackClientOptions } from "./propstack-client.js";
+import type { PaginateOptions } from "./pagination.js";
+
+// ── Propstack API V2 (beta) ──────────────────────────────────────────
+//
+// V2 is only used for its scroll endpoints, which walk an entire account
+// without the page caps of V1 lists. Requests go through a regular
+// PropstackClient pointed at /v2, so timeouts, retries, the rate limiter and
+// the circuit breaker behave exactly as for V1. See docs/v2-integration-plan.md.
+
+export const V2_BASE = "https://api.propstack.de/v2";
+
+/** V2 names: clients = contacts, properties = units, client_properties = deals. */
+export type V2ScrollEndpoint =
+  | "/clients/scroll"
+  | "/properties/scroll"
+  | "/client_properties/scroll"
+  | "/activities/scroll";
+
+export interface V2ScrollPage<T> {
+  data: T[];
+  total?: number;
+  scroll_id?: string | null;
+}
+
+/** Largest page size the scroll endpoints accept. */
+const MAX_SCROLL_PAGE = 1000;
+
+/**
+ * The V2 base URL next to a V1 base URL ("…/v1" → "…/v2"), or null when the
+ * V1 URL does not end in a version segment and there is nothing to derive.
+ */
+export function v2BaseUrlFor(v1BaseUrl: string): string | null {
+  if (v1BaseUrl === V1_BASE) return V2_BASE;
+  return /\/v1$/.test(v1BaseUrl) ? v1BaseUrl.replace(/\/v1$/, "/v2") : null;
+}
+
+export class PropstackV2Client {
+  private readonly client: PropstackClient;
+  /** Settled probe result; transient failures are not remembered. */
+  private status: { available: boolean; reason?: string } | undefined;
+  private probe: Promise<boolean> | undefined;
+
+  constructor(apiKey: string, options: PropstackClientOptions = {}) {
+    // Only GET scroll endpoints are used, so the client never needs to write.
+    this.client = new PropstackClient(apiKey, { ...options, baseUrl: options.baseUrl ?? V2_BASE, readOnly: true });
+  }
+
+  /** Why V2 was disabled, once a probe has failed for good. */
+  get unavailableReason(): string | undefined {
+    return this.status?.available === false ? this.status.reason : undefined;
+  }
+
+  /**
+   * Whether V2 answers for this key. Probes once with a one-record scroll.
+   * A rejected key or missing endpoint disables V2 for the client's lifetime;
+   * network errors and 5xx count as unavailable for now and are probed again
+   * on the next call.
+   */
+  async available(): Promise<boolean> {
+    if (this.status) return this.status.available;
+    this.probe ??= this.client
+      .get<V2ScrollPage<unknown>>("/properties/scroll", { params: { per: 1 } })
+      .then(
+        () => {
+          this.status = { available: true };
+          return true;
+        },
+        (err: unknown) => {
+          if (err instanceof PropstackError && err.status >= 400 && err.status < 500) {
+            this.status = { available: false, reason: `${err.status} ${err.statusText}` };
+            console.error(`Propstack API V2 unavailable (${this.status.reason}); full-account scans fall back to V1.`);
+          }
+          return false;
+        },
+      )
+      .finally(() => {
+        this.probe = undefined;
+      });
+    return this.probe;
+  }
+
+  /**
+   * Yield every record of a scroll endpoint, one page request at a time.
+   * Stops when a page comes back empty or without a scroll_id. Break out of
+   * the loop or abort `signal` to stop early; nothing beyond the current
+   * page is buffered. `onPage` reports the running count after each page.
+   */
+  async *scrollAll<T>(
+    endpoint: V2ScrollEndpoint,
+    params: Record<string, string | number | boolean | undefined> = {},
+    { signal, onPage }: Pick<PaginateOptions, "signal" | "onPage"> = {},
+  ): AsyncGenerator<T, void, undefined> {
+    let scrollId: string | undefined;
+    let fetched = 0;
+    for (;;) {
+      const page = await this.client.get<V2ScrollPage<T>>(endpoint, {
+        params: { per: MAX_SCROLL_PAGE, ...params, ...(scrollId && { scroll_id: scrollId }) },
+        ...(signal && { signal }),
+      });
+      const records = page.data ?? [];
+      if (records.length === 0) return;
+      fetched += records.length;
+      onPage?.({ items: fetched, total: page.total });
+      yield* records;
+      if (!page.scroll_id) return;
+      scrollId = page.scroll_id;
+    }
+  }
+}
@@ -0,0 +1,130 @@
+// ── Client-side rate limiting ────────────────────────────────────────
+//
+// Propstack rate-limits per API key. Instead of only reacting to 429s, every
+// request leaving a PropstackClient first takes a token from a token bucket
+// (sustained rate + burst) and a slot in a max-in-flight pool. One limiter
+// per client, and one client per key, so all tools and sessions using the
+// same account share the budget.
+
+export interface RateLimitConfig {
+  /** Sustained requests per second. 0 disables the token bucket. */
+  requestsPerSecond: number;
+  /** Requests that may go out back-to-back before the sustained rate applies. */
+  burst: number;
+  /** Maximum requests in flight at once. 0 disables the pool. */
+  maxConcurrent: number;
+}
+
+export const DEFAULT_RATE_LIMITS: RateLimitConfig = {
+  requestsPerSecond: 5,
+  burst: 10,
+  maxConcurrent: 4,
+};
+
+/** Wait `ms`, or reject with the signal's reason as soon as it aborts. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Settle like `promise`, but reject as soon as the signal aborts. */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  /** Token acquisitions are chained so waiters are served in arrival order. */
+  private tokenQueue: Promise<void> = Promise.resolve();
+  private inFlight = 0;
+  private readonly slotWaiters: (() => void)[] = [];
+
+  constructor(private readonly config: RateLimitConfig) {
+    this.tokens = Math.max(1, config.burst);
+  }
+
+  /**
+   * Run `fn` once a concurrency slot and a rate token are available. If
+   * `signal` aborts while waiting, reject with its reason without running
+   * `fn` or using up a token.
+   */
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquireSlot(signal);
+    try {
+      await this.acquireToken(signal);
+      return await fn();
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private acquireToken(signal: AbortSignal | undefined): Promise<void> {
+    if (this.config.requestsPerSecond <= 0) return Promise.resolve();
+    const turn = this.tokenQueue.then(() => this.takeToken(signal));
+    // A cancelled turn must not hold up the ones queued behind it.
+    this.tokenQueue = turn.catch(() => {});
+    return abortable(turn, signal);
+  }
+
+  private async takeToken(signal: AbortSignal | undefined): Promise<void> {
+    const { requestsPerSecond } = this.config;
+    const capacity = Math.max(1, this.config.burst);
+    for (;;) {
+      signal?.throwIfAborted();
+      const now = Date.now();
+      this.tokens = Math.min(capacity, this.tokens + ((now - this.lastRefill) / 1000) * requestsPerSecond);
+      this.lastRefill = now;
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - this.tokens) / requestsPerSecond) * 1000), signal);
+    }
+  }
+
+  private async acquireSlot(signal: AbortSignal | undefined): Promise<void> {
+    if (this.config.maxConcurrent <= 0) return;
+    signal?.throwIfAborted();
+    if (this.inFlight < this.config.maxConcurrent) {
+      this.inFlight++;
+      return;
+    }
+    // The releasing request hands its slot straight to us (inFlight unchanged).
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.slotWaiters.splice(this.slotWaiters.indexOf(waiter), 1);
+        reject(signal!.reason);
+      };
+      const waiter = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      this.slotWaiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private releaseSlot(): void {
+    if (this.config.maxConcurrent <= 0) return;
+    const next = this.slotWaiters.shift();
+    if (next) next();
+    else this.inFlight--;
+  }
+}
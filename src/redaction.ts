@@ -0,0 +1,433 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHmac, randomBytes } from "node:crypto";
+import { appendFileSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+
+// ── PII pseudonymization ─────────────────────────────────────────────
+//
+// Opt-in mode for analysts who should not see who the contacts are. The
+// PropstackClient passes every response through `redact` before any tool
+// formats it, so text, structured output and resources all show the same
+// pseudonyms: `Contact#A7F3` for names, `***#1C0E@example.com` for emails,
+// `+49***#5D21` for phone numbers, `Address#09BB` for streets. Cities, ZIP
+// codes, countries and birth dates of contacts are withheld, as is free text
+// about them (notes, message bodies, descriptions).
+// Pseudonyms are keyed HMACs, so they are stable and cannot be guessed from
+// a name. Each one maps to exactly one value, and `restore` swaps them back
+// in outgoing requests, so the model can still search for or write to a
+// pseudonymized contact. Brokers are staff and keep their names.
+//
+// Each account (API key) has its own mapping and secret, so a pseudonym
+// issued to one agency cannot be restored or recognized by another. All
+// accounts share one map file, with every line tagged with its account.
+
+export interface RedactionConfig {
+  /** Replace contact PII in everything the model sees. */
+  enabled: boolean;
+  /** JSONL file keeping each account's secret and pseudonym → value mapping; null = memory only. */
+  mapPath: string | null;
+}
+
+/** Placeholder for withheld free text. */
+export const REDACTED_TEXT = "[redacted]";
+
+/** Keys whose values are free text about a person or an interaction. */
+const FREE_TEXT_KEYS = new Set(["description", "warning_notice", "note", "body"]);
+const PHONE_KEYS = new Set(["phone", "home_cell", "home_phone", "office_phone", "fax", "cell", "mobile"]);
+const DATE_OF_BIRTH_KEYS = new Set(["dob", "birth_date", "date_of_birth", "birthday"]);
+const ADDRESSES = [["home_street", "home_house_number"], ["office_street", "office_house_number"]] as const;
+/** Address parts withheld outright; a pseudonym for a city would only hide the obvious. */
+const WITHHELD_ADDRESS_KEYS = new Set([
+  "home_zip_code", "home_city", "home_country", "office_zip_code", "office_city", "office_country",
+]);
+/** A contact's name, company or phone flattened onto another record, e.g. a deal's `client_name`. */
+const FLATTENED_CONTACT_KEYS = {
+  name: new Set(["client_name", "contact_name"]),
+  company: new Set(["client_company"]),
+  phone: new Set(["client_phone"]),
+};
+/** Keys holding expanded contacts, e.g. a deal's `client`. */
+const CONTACT_KEYS = new Set(["client", "clients", "children"]);
+/** Keys holding staff, whose names are not redacted. */
+const STAFF_KEYS = new Set(["broker", "brokers"]);
+/** Any of these keys marks an object as a person. */
+const PERSON_MARKERS = ["first_name", "last_name", "salutation", "home_cell", "home_street"];
+/** Endpoints whose top-level records are contacts, whatever fields they carry. */
+const CONTACT_PATHS = /^\/(contacts|clients)(\/\d+|\/scroll)?$/;
+/** Staff and reference data, which hold no contact data. */
+const UNREDACTED_PATHS =
+  /^\/(brokers|teams|deal_pipelines|contact_sources|contact_statuses|property_statuses|reservation_reasons|activity_types|custom_field_groups|snippets)(\/|$)/;
+/** Shorter values are not replaced inside other text; they would match too much. */
+const MIN_SCRUB_LENGTH = 3;
+
+const EMAIL_PATTERN = /[^\s@<>"'(),;:[\]]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+/g;
+const TOKEN_PATTERN = /(?:Contact|Company|Address)#[0-9A-F]{4,}|(?:\+\d{1,3})?\*\*\*#[0-9A-F]{4,}(?:@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)?/g;
+
+type Json = Record<string, unknown>;
+
+/** One line of the map file: an account's key, or one of its pseudonyms. */
+interface MapLine {
+  account?: string;
+  key?: string;
+  token?: string;
+  value?: string;
+}
+
+/** Calls that need real data, e.g. Art. 15 exports written to disk. */
+const bypassed = new AsyncLocalStorage<true>();
+
+function isObject(value: unknown): value is Json {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+}
+
+/** The records of a response: the items of a list (bare or `{ data }`), or the single record. */
+function topLevelRecords(data: unknown): Json[] {
+  if (Array.isArray(data)) return data.filter(isObject);
+  if (!isObject(data)) return [];
+  return Array.isArray(data["data"]) ? data["data"].filter(isObject) : [data];
+}
+
+/** Contacts known from the endpoint, nested under a contact key, or recognized by their fields. */
+function isPerson(obj: Json, parentKey: string | null, contacts: ReadonlySet<Json>): boolean {
+  if (contacts.has(obj)) return true;
+  if (parentKey !== null && CONTACT_KEYS.has(parentKey)) return true;
+  return PERSON_MARKERS.some((key) => key in obj);
+}
+
+function fullName(obj: Json): string {
+  return text(obj["name"]) || [text(obj["first_name"]), text(obj["last_name"])].filter(Boolean).join(" ");
+}
+
+export class Pseudonymizer {
+  private readonly key: Buffer;
+  private readonly byValue = new Map<string, string>();
+  private readonly byToken = new Map<string, string>();
+  /** Names, companies, streets and phone numbers to replace inside any text. */
+  private readonly scrubbed = new Map<string, string>();
+  /** `scrubbed` values by their first characters, longest first, so scrubbing needs no regex rebuild. */
+  private readonly scrubIndex = new Map<string, string[]>();
+  private warned = false;
+
+  /**
+   * @param path JSONL file that keeps the mapping across restarts; null
+   *   keeps it in memory, so pseudonyms change with every restart.
+   * @param account API key fingerprint whose lines in `path` this mapping
+   *   uses; other accounts' lines are ignored.
+   */
+  constructor(readonly path: string | null = null, readonly account: string | null = null) {
+    const key = path ? this.load(path) : null;
+    this.key = key ?? randomBytes(32);
+    if (path && !key) this.append({ key: this.key.toString("hex") });
+  }
+
+  /** Copy of a response body with contact PII replaced by pseudonyms. */
+  redact<T>(path: string, data: T): T {
+    if (data === undefined || bypassed.getStore() || UNREDACTED_PATHS.test(path)) return data;
+    const contacts = new Set(CONTACT_PATHS.test(path) ? topLevelRecords(data) : []);
+    this.collect(data, null, contacts);
+    return this.rewrite(data, null, contacts) as T;
+  }
+
+  /** Copy of request params or a body with pseudonyms replaced by their real values. */
+  restore<T>(value: T): T {
+    if (typeof value === "string") {
+      return value.replace(TOKEN_PATTERN, (token) => this.byToken.get(token) ?? token) as T;
+    }
+    if (Array.isArray(value)) return value.map((v) => this.restore(v)) as T;
+    if (isObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.restore(v)])) as T;
+    }
+    return value;
+  }
+
+  /** The real value behind a pseudonym, if this mapping issued it. */
+  reveal(token: string): string | undefined {
+    return this.byToken.get(token);
+  }
+
+  /** Run `fn` with responses left unredacted, for output that never reaches the model. */
+  bypass<T>(fn: () => Promise<T>): Promise<T> {
+    return bypassed.run(true, fn);
+  }
+
+  /**
+   * Drop every pseudonym that appears in `redacted` (e.g. an erased contact
+   * as the model saw it) from the mapping and the map file, so the real
+   * values are not kept after an erasure. Returns how many were dropped.
+   */
+  forget(redacted: unknown): number {
+    const tokens = new Set<string>();
+    const find = (node: unknown): void => {
+      if (typeof node === "string") {
+        for (const token of node.match(TOKEN_PATTERN) ?? []) if (this.byToken.has(token)) tokens.add(token);
+      } else if (Array.isArray(node)) {
+        node.forEach(find);
+      } else if (isObject(node)) {
+        Object.values(node).forEach(find);
+      }
+    };
+    find(redacted);
+    if (tokens.size === 0) return 0;
+
+    for (const token of tokens) this.byToken.delete(token);
+    for (const [value, token] of this.byValue) if (tokens.has(token)) this.byValue.delete(value);
+    for (const [value, token] of this.scrubbed) if (tokens.has(token)) this.unremember(value);
+    if (this.path) this.removeFromFile(tokens);
+    return tokens.size;
+  }
+
+  // ── Pseudonyms ──
+
+  private pseudonym(kind: string, value: string, format: (tag: string) => string): string {
+    const id = `${kind}:${value}`;
+    const existing = this.byValue.get(id);
+    if (existing) return existing;
+    const digest = createHmac("sha256", this.key).update(id).digest("hex").toUpperCase();
+    // Four hex digits read well; lengthen only on a collision so every
+    // pseudonym stays reversible.
+    let token = format(digest.slice(0, 4));
+    for (let len = 6; this.byToken.has(token); len += 2) token = format(digest.slice(0, len));
+    this.byValue.set(id, token);
+    this.byToken.set(token, value);
+    if (this.path) this.append({ token, value });
+    return token;
+  }
+
+  private contactToken(name: string): string {
+    return this.pseudonym("contact", name, (tag) => `Contact#${tag}`);
+  }
+
+  private companyToken(company: string): string {
+    return this.pseudonym("company", company, (tag) => `Company#${tag}`);
+  }
+
+  private addressToken(street: string): string {
+    return this.pseudonym("address", street, (tag) => `Address#${tag}`);
+  }
+
+  private emailToken(email: string): string {
+    const value = email.toLowerCase();
+    const domain = value.slice(value.lastIndexOf("@") + 1);
+    return this.pseudonym("email", value, (tag) => `***#${tag}@${domain}`);
+  }
+
+  private phoneToken(phone: string): string {
+    const country = /^(\+\d{1,3})[\s/-]/.exec(phone)?.[1] ?? "";
+    return this.pseudonym("phone", phone, (tag) => `${country}***#${tag}`);
+  }
+
+  // ── Walking responses ──
+
+  /** First pass: pseudonyms for every person's PII, so other strings can be scrubbed of it. */
+  private collect(node: unknown, parentKey: string | null, contacts: ReadonlySet<Json>): void {
+    if (Array.isArray(node)) {
+      for (const item of node) this.collect(item, parentKey, contacts);
+      return;
+    }
+    if (!isObject(node)) return;
+    for (const key of FLATTENED_CONTACT_KEYS.name) {
+      const name = text(node[key]);
+      if (name) this.remember(name, this.contactToken(name));
+    }
+    for (const key of FLATTENED_CONTACT_KEYS.company) {
+      const company = text(node[key]);
+      if (company) this.remember(company, this.companyToken(company));
+    }
+    for (const key of FLATTENED_CONTACT_KEYS.phone) {
+      const phone = text(node[key]);
+      if (phone) this.remember(phone, this.phoneToken(phone));
+    }
+    if (isPerson(node, parentKey, contacts)) {
+      const name = fullName(node);
+      if (name) {
+        const token = this.contactToken(name);
+        this.remember(name, token);
+        const first = text(node["first_name"]);
+        const last = text(node["last_name"]);
+        if (first && last) {
+          this.remember(`${first} ${last}`, token);
+          this.remember(`${last}, ${first}`, token);
+        }
+      }
+      const company = text(node["company"]);
+      if (company) this.remember(company, this.companyToken(company));
+      for (const [streetKey, numberKey] of ADDRESSES) {
+        const street = [text(node[streetKey]), text(node[numberKey])].filter(Boolean).join(" ");
+        if (text(node[streetKey])) this.remember(street, this.addressToken(street));
+      }
+      for (const key of PHONE_KEYS) {
+        const phone = text(node[key]);
+        if (phone) this.remember(phone, this.phoneToken(phone));
+      }
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (!STAFF_KEYS.has(key)) this.collect(value, key, contacts);
+    }
+  }
+
+  /** Second pass: the redacted copy. */
+  private rewrite(node: unknown, parentKey: string | null, contacts: ReadonlySet<Json>): unknown {
+    if (typeof node === "string") return this.scrub(node);
+    if (Array.isArray(node)) return node.map((item) => this.rewrite(item, parentKey, contacts));
+    if (!isObject(node)) return node;
+
+    const out: Json = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (STAFF_KEYS.has(key)) {
+        out[key] = value;
+      } else if (FREE_TEXT_KEYS.has(key) && typeof value === "string" && value.trim()) {
+        out[key] = REDACTED_TEXT;
+      } else {
+        out[key] = this.rewrite(value, key, contacts);
+      }
+    }
+    for (const key of FLATTENED_CONTACT_KEYS.name) {
+      const name = text(node[key]);
+      if (name) out[key] = this.contactToken(name);
+    }
+    for (const key of FLATTENED_CONTACT_KEYS.company) {
+      const company = text(node[key]);
+      if (company) out[key] = this.companyToken(company);
+    }
+    for (const key of FLATTENED_CONTACT_KEYS.phone) {
+      const phone = text(node[key]);
+      if (phone) out[key] = this.phoneToken(phone);
+    }
+    if (!isPerson(node, parentKey, contacts)) return out;
+
+    const name = fullName(node);
+    if (name) {
+      const token = this.contactToken(name);
+      if ("name" in node) out["name"] = token;
+      if ("first_name" in node) out["first_name"] = null;
+      if ("last_name" in node) out["last_name"] = token;
+    }
+    const company = text(node["company"]);
+    if (company) out["company"] = this.companyToken(company);
+    for (const [streetKey, numberKey] of ADDRESSES) {
+      const street = [text(node[streetKey]), text(node[numberKey])].filter(Boolean).join(" ");
+      if (text(node[streetKey])) out[streetKey] = this.addressToken(street);
+      if (numberKey in node) out[numberKey] = null;
+    }
+    for (const key of PHONE_KEYS) {
+      const phone = text(node[key]);
+      if (phone) out[key] = this.phoneToken(phone);
+    }
+    for (const key of [...WITHHELD_ADDRESS_KEYS, ...DATE_OF_BIRTH_KEYS]) {
+      if (key in node) out[key] = null;
+    }
+    // Custom fields can hold anything; keep numbers and flags for analysis.
+    const custom = node["custom_fields"];
+    if (isObject(custom)) {
+      out["custom_fields"] = Object.fromEntries(
+        Object.entries(custom).map(([k, v]) => [k, typeof v === "string" && v.trim() ? REDACTED_TEXT : v]),
+      );
+    }
+    return out;
+  }
+
+  /** Note a value to replace wherever it appears, e.g. a name in an activity title. */
+  private remember(value: string, token: string): void {
+    if (value.length < MIN_SCRUB_LENGTH || this.scrubbed.has(value)) return;
+    this.scrubbed.set(value, token);
+    const prefix = value.slice(0, MIN_SCRUB_LENGTH);
+    const candidates = this.scrubIndex.get(prefix) ?? [];
+    // Longest first, so "Max Mustermann" wins over a shorter overlap.
+    const at = candidates.findIndex((c) => c.length < value.length);
+    candidates.splice(at === -1 ? candidates.length : at, 0, value);
+    this.scrubIndex.set(prefix, candidates);
+  }
+
+  private unremember(value: string): void {
+    this.scrubbed.delete(value);
+    const prefix = value.slice(0, MIN_SCRUB_LENGTH);
+    const candidates = this.scrubIndex.get(prefix)?.filter((c) => c !== value) ?? [];
+    if (candidates.length > 0) this.scrubIndex.set(prefix, candidates);
+    else this.scrubIndex.delete(prefix);
+  }
+
+  /** Replace every PII value seen so far, and any email address, inside a string. */
+  private scrub(value: string): string {
+    if (this.scrubbed.size > 0) {
+      let out = "";
+      let copied = 0;
+      for (let i = 0; i + MIN_SCRUB_LENGTH <= value.length;) {
+        const hit = this.scrubIndex.get(value.slice(i, i + MIN_SCRUB_LENGTH))?.find((c) => value.startsWith(c, i));
+        if (hit) {
+          out += value.slice(copied, i) + this.scrubbed.get(hit)!;
+          i += hit.length;
+          copied = i;
+        } else {
+          i++;
+        }
+      }
+      value = out + value.slice(copied);
+    }
+    return value.replace(EMAIL_PATTERN, (email) => (this.byToken.has(email) ? email : this.emailToken(email)));
+  }
+
+  // ── Persistence ──
+
+  /** Read the mapping file; returns its key, or null if there is none yet. */
+  private load(path: string): Buffer | null {
+    let raw: string;
+    try {
+      raw = readFileSync(path, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw new Error(`Cannot read pseudonym map ${path}: ${err instanceof Error ? err.message : err}`);
+    }
+    let key: Buffer | null = null;
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as MapLine;
+      if ((entry.account ?? null) !== this.account) continue;
+      if (entry.key) key = Buffer.from(entry.key, "hex");
+      if (entry.token && entry.value !== undefined) {
+        const kind = entry.token.startsWith("Contact#") ? "contact"
+          : entry.token.startsWith("Company#") ? "company"
+          : entry.token.startsWith("Address#") ? "address"
+          : entry.token.includes("@") ? "email"
+          : "phone";
+        this.byToken.set(entry.token, entry.value);
+        this.byValue.set(`${kind}:${entry.value}`, entry.token);
+        if (kind !== "email") this.remember(entry.value, entry.token);
+      }
+    }
+    if (!key && this.byToken.size > 0) {
+      throw new Error(`Pseudonym map ${path} has no key line${this.account ? ` for account ${this.account}` : ""}. Move it away to start a new mapping.`);
+    }
+    return key;
+  }
+
+  /** Rewrite the map file without this account's lines for `tokens`. */
+  private removeFromFile(tokens: ReadonlySet<string>): void {
+    try {
+      const kept = readFileSync(this.path!, "utf8").split("\n").filter((line) => {
+        if (!line.trim()) return false;
+        const entry = JSON.parse(line) as MapLine;
+        return (entry.account ?? null) !== this.account || !entry.token || !tokens.has(entry.token);
+      });
+      // Write-then-rename so a crash mid-write never leaves a torn file.
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, kept.map((line) => line + "\n").join(""), { mode: 0o600 });
+      renameSync(tmp, this.path!);
+    } catch (err) {
+      console.error(`Warning: could not remove pseudonyms from ${this.path}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  private append(entry: MapLine): void {
+    try {
+      appendFileSync(this.path!, JSON.stringify(this.account ? { account: this.account, ...entry } : entry) + "\n", { mode: 0o600 });
+    } catch (err) {
+      if (!this.warned) {
+        this.warned = true;
+        console.error(`Warning: could not write pseudonym map ${this.path}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,240 @@
+import { McpError, ErrorCode, type ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { ResourceTemplate, type McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PropstackClient } from "./propstack-client.js";
+import type { PropstackBroker, PropstackContact, PropstackPaginatedResponse, PropstackProperty } from "./types/propstack.js";
+import { isToolAllowed, type ToolPolicy } from "./tool-policy.js";
+import type { Completers } from "./completions.js";
+import { fetchPipelines } from "./tools/deals.js";
+import { fetchCustomFieldGroups } from "./tools/lookups.js";
+import { formatError } from "./tools/helpers.js";
+import { toBroker, toContact, toContactDetails, toCustomFieldGroup, toPipeline, toProperty, toPropertyDetails } from "./tools/output-schemas.js";
+
+// ── MCP resources ────────────────────────────────────────────────────
+//
+// Reference data and single records under `propstack://`, so a client can
+// attach a contact or listing to a conversation, or browse pipelines and
+// brokers, without spending a tool call. Contents are JSON in the shape of
+// the matching tool's structured output. A resource is only offered when
+// the policy allows the tool that reads the same data, so hiding a tool
+// also hides its data. Record IDs complete from a name search; lead
+// sources, property statuses and tags complete from the lookup data.
+
+/** Entity names in `propstack://custom-fields/{entity}` → Propstack's entity parameter. */
+export const CUSTOM_FIELD_ENTITIES = {
+  contacts: "for_clients",
+  properties: "for_properties",
+  projects: "for_projects",
+  brokers: "for_brokers",
+  tasks: "for_tasks",
+  deals: "for_deals",
+} as const;
+
+/** How many records a filtered list resource returns, newest first. */
+const LIST_LIMIT = 25;
+
+function jsonContents(uri: URL, data: unknown): ReadResourceResult {
+  return { contents: [{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) }] };
+}
+
+/** Load and serialize a resource; Propstack errors come back as readable messages. */
+async function readJson(uri: URL, load: () => Promise<unknown>): Promise<ReadResourceResult> {
+  let data: unknown;
+  try {
+    data = await load();
+  } catch (err) {
+    throw new McpError(ErrorCode.InternalError, `Could not read ${uri.href}: ${formatError(err)}`);
+  }
+  return jsonContents(uri, data);
+}
+
+function variable(value: string | string[] | undefined): string {
+  return (Array.isArray(value) ? value[0] : value) ?? "";
+}
+
+function recordId(value: string | string[] | undefined, uri: URL): number {
+  const raw = variable(value);
+  if (!/^\d+$/.test(raw)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid record ID "${raw}" in ${uri.href}.`);
+  }
+  return Number(raw);
+}
+
+/** Records and total of a list response, whether a bare array or { data, meta }. */
+function listOf<T>(raw: PropstackPaginatedResponse<T> | T[]): { items: T[]; total: number } {
+  if (Array.isArray(raw)) return { items: raw, total: raw.length };
+  const items = raw.data ?? [];
+  return { items, total: raw.meta?.total_count ?? items.length };
+}
+
+/**
+ * Register the `propstack://` resources allowed by `policy`: pipelines,
+ * brokers and custom field definitions, single contacts and properties, and
+ * the newest contacts or properties per lead source, status or tag.
+ */
+export function registerResources(
+  server: McpServer,
+  client: PropstackClient,
+  policy: ToolPolicy,
+  completers: Completers,
+): void {
+  if (isToolAllowed("list_pipelines", "lookups", policy)) {
+    server.registerResource(
+      "pipelines",
+      "propstack://pipelines",
+      {
+        title: "Deal pipelines",
+        description: "All deal pipelines with their stages (IDs, names, positions, chances).",
+        mimeType: "application/json",
+      },
+      (uri) => readJson(uri, async () => ({ pipelines: (await fetchPipelines(client)).map(toPipeline) })),
+    );
+  }
+
+  if (isToolAllowed("list_users", "lookups", policy)) {
+    server.registerResource(
+      "brokers",
+      "propstack://brokers",
+      {
+        title: "Brokers",
+        description: "All brokers/users of the account with IDs, contact details and teams.",
+        mimeType: "application/json",
+      },
+      (uri) => readJson(uri, async () => ({ brokers: (await client.get<PropstackBroker[]>("/brokers")).map(toBroker) })),
+    );
+  }
+
+  if (isToolAllowed("list_custom_fields", "lookups", policy)) {
+    server.registerResource(
+      "custom-fields",
+      new ResourceTemplate("propstack://custom-fields/{entity}", {
+        list: async () => ({
+          resources: Object.keys(CUSTOM_FIELD_ENTITIES).map((entity) => ({
+            uri: `propstack://custom-fields/${entity}`,
+            name: `custom-fields-${entity}`,
+            title: `Custom fields for ${entity}`,
+            mimeType: "application/json",
+          })),
+        }),
+        complete: {
+          entity: (value) => Object.keys(CUSTOM_FIELD_ENTITIES).filter((e) => e.startsWith(value)),
+        },
+      }),
+      {
+        title: "Custom field definitions",
+        description: `Custom field groups and fields for one entity: ${Object.keys(CUSTOM_FIELD_ENTITIES).join(", ")}.`,
+        mimeType: "application/json",
+      },
+      (uri, variables) => {
+        const entity = variable(variables["entity"]);
+        const apiEntity = CUSTOM_FIELD_ENTITIES[entity as keyof typeof CUSTOM_FIELD_ENTITIES];
+        if (!apiEntity) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Unknown entity "${entity}". Valid entities are: ${Object.keys(CUSTOM_FIELD_ENTITIES).join(", ")}.`,
+          );
+        }
+        return readJson(uri, async () => ({
+          entity,
+          groups: (await fetchCustomFieldGroups(client, apiEntity)).map(toCustomFieldGroup),
+        }));
+      },
+    );
+  }
+
+  if (isToolAllowed("get_contact", "contacts", policy)) {
+    server.registerResource(
+      "contact",
+      new ResourceTemplate("propstack://contact/{id}", { list: undefined, complete: { id: completers.contact } }),
+      {
+        title: "Contact",
+        description: "One contact with sub-contacts, owned properties and custom fields.",
+        mimeType: "application/json",
+      },
+      (uri, variables) => {
+        const id = recordId(variables["id"], uri);
+        return readJson(uri, async () => {
+          const contact = await client.get<PropstackContact>(`/contacts/${id}`, {
+            params: { include: "children,owned_properties" },
+          });
+          return { contact: toContactDetails(contact) };
+        });
+      },
+    );
+  }
+
+  if (isToolAllowed("get_property", "properties", policy)) {
+    server.registerResource(
+      "property",
+      new ResourceTemplate("propstack://property/{id}", { list: undefined, complete: { id: completers.property } }),
+      {
+        title: "Property",
+        description: "One property (Objekt) with descriptions, links and custom fields.",
+        mimeType: "application/json",
+      },
+      (uri, variables) => {
+        const id = recordId(variables["id"], uri);
+        return readJson(uri, async () => {
+          const property = await client.get<PropstackProperty>(`/units/${id}`, { params: { new: 1, expand: 1 } });
+          return { property: toPropertyDetails(property) };
+        });
+      },
+    );
+  }
+
+  if (isToolAllowed("search_contacts", "contacts", policy)) {
+    for (const [filter, title, param, complete] of [
+      ["source", "Contacts from a lead source", "sources", completers.contactSource],
+      ["tag", "Contacts with a tag", "group", completers.contactTag],
+    ] as const) {
+      server.registerResource(
+        `contacts-by-${filter}`,
+        new ResourceTemplate(`propstack://contacts/${filter}/{id}`, { list: undefined, complete: { id: complete } }),
+        {
+          title,
+          description: `The ${LIST_LIMIT} newest contacts with this ${filter === "tag" ? "tag (Merkmal)" : "lead source"}, and their total.`,
+          mimeType: "application/json",
+        },
+        (uri, variables) => {
+          const id = recordId(variables["id"], uri);
+          return readJson(uri, async () => {
+            const { items, total } = listOf(await client.get<PropstackPaginatedResponse<PropstackContact> | PropstackContact[]>(
+              "/contacts",
+              { params: { [param]: [id], sort_by: "created_at", order: "desc", per_page: LIST_LIMIT } },
+            ));
+            return { contacts: items.map(toContact), total };
+          });
+        },
+      );
+    }
+  }
+
+  if (isToolAllowed("search_properties", "properties", policy)) {
+    for (const [filter, title, complete] of [
+      ["status", "Properties in a status", completers.propertyStatus],
+      ["tag", "Properties with a tag", completers.propertyTag],
+    ] as const) {
+      server.registerResource(
+        `properties-by-${filter}`,
+        new ResourceTemplate(`propstack://properties/${filter}/{id}`, { list: undefined, complete: { id: complete } }),
+        {
+          title,
+          description: `The ${LIST_LIMIT} newest properties with this ${filter === "tag" ? "tag (Merkmal)" : "property status"}, and their total.`,
+          mimeType: "application/json",
+        },
+        (uri, variables) => {
+          const id = recordId(variables["id"], uri);
+          return readJson(uri, async () => {
+            const { items, total } = listOf(await client.get<PropstackPaginatedResponse<PropstackProperty>>("/units", {
+              params: {
+                ...(filter === "status" ? { status: String(id) } : { group: id }),
+                with_meta: 1, sort_by: "created_at", order: "desc", per_page: LIST_LIMIT,
+              },
+            }));
+            return { properties: items.map(toProperty), total };
+          });
+        },
+      );
+    }
+  }
+
+}
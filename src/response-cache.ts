@@ -0,0 +1,94 @@
+// ── Response cache for reference data ────────────────────────────────
+//
+// Pipelines, brokers, statuses, sources and custom field definitions are
+// read on nearly every agent turn but change a few times a year. The
+// PropstackClient keeps GET responses for these path prefixes for a while,
+// and drops them as soon as this server writes to the same resource.
+
+export interface CacheRule {
+  /** Path prefix, e.g. "/deal_pipelines". Matches the path and anything below it. */
+  prefix: string;
+  /** How long a response stays fresh. 0 disables caching for the prefix. */
+  ttlMs: number;
+}
+
+const MINUTE = 60_000;
+
+export const DEFAULT_CACHE_RULES: readonly CacheRule[] = [
+  { prefix: "/deal_pipelines", ttlMs: 10 * MINUTE },
+  { prefix: "/brokers", ttlMs: 10 * MINUTE },
+  { prefix: "/teams", ttlMs: 10 * MINUTE },
+  { prefix: "/contact_sources", ttlMs: 60 * MINUTE },
+  { prefix: "/contact_statuses", ttlMs: 60 * MINUTE },
+  { prefix: "/property_statuses", ttlMs: 60 * MINUTE },
+  { prefix: "/reservation_reasons", ttlMs: 60 * MINUTE },
+  { prefix: "/activity_types", ttlMs: 60 * MINUTE },
+  { prefix: "/custom_field_groups", ttlMs: 60 * MINUTE },
+  { prefix: "/snippets", ttlMs: 60 * MINUTE },
+];
+
+/**
+ * Merge per-prefix overrides into the defaults. An override replaces the
+ * rule for the same prefix; new prefixes are added.
+ */
+export function mergeCacheRules(base: readonly CacheRule[], overrides: readonly CacheRule[]): CacheRule[] {
+  const byPrefix = new Map(base.map((r) => [r.prefix, r]));
+  for (const rule of overrides) byPrefix.set(rule.prefix, rule);
+  return [...byPrefix.values()];
+}
+
+/** "/deal_pipelines/12/stages" → "/deal_pipelines" */
+function resourceOf(path: string): string {
+  return "/" + (path.split("/")[1] ?? "");
+}
+
+function matches(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(prefix.endsWith("/") ? prefix : prefix + "/");
+}
+
+export class ResponseCache {
+  private readonly rules: CacheRule[];
+  private readonly entries = new Map<string, { path: string; value: unknown; expiresAt: number }>();
+
+  constructor(rules: readonly CacheRule[]) {
+    // Longest prefix first, so "/deal_pipelines/1" can override "/deal_pipelines".
+    this.rules = [...rules].sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  private ttlFor(path: string): number {
+    return this.rules.find((r) => matches(path, r.prefix))?.ttlMs ?? 0;
+  }
+
+  /**
+   * Fresh cached response for a request key (the full URL), or undefined.
+   * Returns a copy: callers are free to enrich or mutate what they get.
+   */
+  get(key: string, now: number = Date.now()): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return structuredClone(entry.value);
+  }
+
+  /** Store a GET response if its path is covered by a rule. */
+  set(path: string, key: string, value: unknown, now: number = Date.now()): void {
+    const ttl = this.ttlFor(path);
+    if (ttl <= 0 || value === undefined) return;
+    this.entries.set(key, { path, value: structuredClone(value), expiresAt: now + ttl });
+  }
+
+  /** Drop everything cached for the resource a write went to. */
+  invalidate(path: string): void {
+    const resource = resourceOf(path);
+    for (const [key, entry] of this.entries) {
+      if (matches(entry.path, resource)) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,151 @@
+// ── Retry policy and circuit breaker ─────────────────────────────────
+//
+// Decides when a failed Propstack request may be sent again, how long to
+// wait first, and when to stop trying altogether because the API is down.
+// Kept free of I/O so the decisions can be unit-tested; the loop that acts
+// on them lives in PropstackClient.request.
+
+export interface RetryPolicy {
+  /** Retries after the first attempt. */
+  maxRetries: number;
+  /** Backoff ceiling for the first retry; doubles per retry. */
+  baseDelayMs: number;
+  /** Upper bound for any single backoff delay. */
+  maxDelayMs: number;
+  /** Upper bound for a server-requested Retry-After wait. */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 60_000,
+};
+
+/** Server errors worth retrying: the gateway or server was briefly unavailable. */
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+/** Connection errors that guarantee the request never reached Propstack. */
+const NOT_SENT_CODES = new Set(["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]);
+
+/**
+ * True for methods that can be repeated without changing the outcome.
+ * POST creates records and sends emails, so it is never blindly repeated.
+ */
+export function isIdempotent(method: string): boolean {
+  return method !== "POST" && method !== "PATCH";
+}
+
+/** True if a fetch error means the request never left for the server. */
+export function wasNotSent(err: unknown): boolean {
+  const code = (err as { cause?: { code?: unknown } } | null)?.cause?.code;
+  return typeof code === "string" && NOT_SENT_CODES.has(code);
+}
+
+/** May a request that failed without a response be retried? */
+export function canRetryError(method: string, err: unknown): boolean {
+  return isIdempotent(method) || wasNotSent(err);
+}
+
+/**
+ * May a request that got this HTTP status be retried? 429 means Propstack
+ * rejected the request unprocessed, so it is safe for every method.
+ */
+export function canRetryStatus(method: string, status: number): boolean {
+  return status === 429 || (RETRYABLE_STATUSES.has(status) && isIdempotent(method));
+}
+
+/**
+ * Parse a Retry-After header into milliseconds. Accepts both forms from
+ * RFC 9110: delay-seconds ("120") and an HTTP-date. Returns null when the
+ * header is missing or unparseable.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (value === null) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000;
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/** Full-jitter exponential backoff before retry number `retry` (1-based). */
+export function backoffDelay(policy: RetryPolicy, retry: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(random() * ceiling);
+}
+
+// ── Circuit breaker ──────────────────────────────────────────────────
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures (network errors, timeouts, 5xx) that open the circuit. */
+  failureThreshold: number;
+  /** How long to fail fast before letting a single probe request through. */
+  cooldownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldownMs: 30_000,
+};
+
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly failures: number,
+    public readonly retryInMs: number,
+  ) {
+    super(
+      `The Propstack API appears to be unavailable (${failures} consecutive failed requests). ` +
+      `Requests are paused for ${Math.ceil(retryInMs / 1000)}s; try again after that.`,
+    );
+    this.name = "CircuitOpenError";
+  }
+}
+
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(private readonly options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER) {}
+
+  /**
+   * Throw CircuitOpenError while the circuit is open. After the cooldown,
+   * exactly one caller is let through as a probe; the rest keep failing
+   * fast until the probe's outcome is recorded. Returns whether the caller
+   * is that probe.
+   */
+  check(now: number = Date.now()): boolean {
+    if (this.openedAt === null) return false;
+    const remaining = this.openedAt + this.options.cooldownMs - now;
+    if (remaining > 0 || this.probing) {
+      throw new CircuitOpenError(this.failures, Math.max(remaining, 1000));
+    }
+    this.probing = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  /**
+   * The probe ended without an outcome (the caller cancelled it). The
+   * circuit stays open, and the next caller becomes the probe. Only the
+   * caller whose `check()` returned true may release it.
+   */
+  releaseProbe(): void {
+    this.probing = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures++;
+    if (this.probing || this.failures >= this.options.failureThreshold) {
+      this.openedAt = now;
+      this.probing = false;
+    }
+  }
+}
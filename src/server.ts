@@ -0,0 +1,124 @@
+import { createRequire } from "node:module";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PropstackClient } from "./propstack-client.js";
+import type { PropstackV2Client } from "./propstack-v2-client.js";
+import { applyToolPolicy, unknownPolicyToolNames, type ToolPolicy, type Toolset } from "./tool-policy.js";
+import { registerContactTools } from "./tools/contacts.js";
+import { registerPropertyTools } from "./tools/properties.js";
+import { registerTaskTools } from "./tools/tasks.js";
+import { registerDealTools } from "./tools/deals.js";
+import { registerSearchProfileTools } from "./tools/search-profiles.js";
+import { registerProjectTools } from "./tools/projects.js";
+import { registerActivityTools } from "./tools/activities.js";
+import { registerEmailTools } from "./tools/emails.js";
+import { registerDocumentTools } from "./tools/documents.js";
+import { registerRelationshipTools } from "./tools/relationships.js";
+import { registerLookupTools } from "./tools/lookups.js";
+import { registerCompositeTools } from "./tools/composites.js";
+import { registerGdprTools } from "./tools/gdpr.js";
+import { registerAdminTools } from "./tools/admin.js";
+import { registerAuditTools } from "./tools/audit.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { createCompleters } from "./completions.js";
+import { ConfirmationStore } from "./tools/confirmation.js";
+import { applyOutputSchemas } from "./tools/output-schemas.js";
+import { applyAuditLog, type AuditLog } from "./audit-log.js";
+import { applyIdempotency, type IdempotencyStore } from "./idempotency.js";
+
+// Single source of truth for the version advertised to MCP clients.
+const require = createRequire(import.meta.url);
+const { version } = require("../package.json") as { version: string };
+
+export interface ServerOptions {
+  /** Gate destructive tools behind a preview + confirmation step. */
+  confirmDestructive?: boolean;
+  /** Record every tool call; also enables the query_audit_log tool. */
+  auditLog?: AuditLog | null;
+  /** API key fingerprint; audit entries are tagged with it and queries limited to it. */
+  account?: string | null;
+  /** Remember create results by idempotency_key; `scope` identifies the account. */
+  idempotency?: { store: IdempotencyStore; scope: string };
+  /** API V2 client for full-account scans; V1 paging is used without it. */
+  v2?: PropstackV2Client | null;
+  /** Directory for Art. 15 contact exports; also enables export_contact_data. */
+  exportDir?: string | null;
+}
+
+// Allow/deny list typos are reported once per process, not once per session.
+let warnedUnknownTools = false;
+
+/**
+ * Build a fully registered MCP server bound to one Propstack client.
+ *
+ * The stdio transport creates exactly one of these; the HTTP transport
+ * creates one per session, because an McpServer can only be connected to a
+ * single transport at a time. Tools rejected by `policy` are never registered.
+ */
+export function createServer(client: PropstackClient, policy: ToolPolicy, options: ServerOptions = {}): McpServer {
+  const mcp = new McpServer(
+    {
+      name: "propstack-mcp-server",
+      version,
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
+    },
+  );
+
+  // Tokens are per server instance, i.e. per session: a preview shown in one
+  // session cannot be confirmed from another.
+  const confirmations = options.confirmDestructive ? new ConfirmationStore() : null;
+
+  const offered = new Set<string>();
+  const exposed = new Set<string>();
+  // Wrappers apply outside-in at call time: audit sees every call, including
+  // idempotent replays, which never reach the tool's own handler. Output
+  // schemas sit innermost, on the tool the SDK actually registers.
+  const withSchemas = applyOutputSchemas(mcp);
+  let registrar = options.auditLog ? applyAuditLog(withSchemas, options.auditLog, options.account ?? null) : withSchemas;
+  if (options.idempotency) {
+    registrar = applyIdempotency(registrar, options.idempotency.store, options.idempotency.scope);
+  }
+  const toolset = (name: Toolset) => applyToolPolicy(registrar, policy, name, (tool, allowed) => {
+    offered.add(tool);
+    if (allowed) exposed.add(tool);
+  });
+
+  registerContactTools(toolset("contacts"), client, confirmations);
+  registerPropertyTools(toolset("properties"), client);
+  registerTaskTools(toolset("tasks"), client);
+  registerDealTools(toolset("deals"), client);
+  registerSearchProfileTools(toolset("search_profiles"), client, confirmations);
+  registerProjectTools(toolset("projects"), client);
+  registerActivityTools(toolset("activities"), client);
+  registerEmailTools(toolset("emails"), client);
+  registerDocumentTools(toolset("documents"), client);
+  registerRelationshipTools(toolset("relationships"), client);
+  registerLookupTools(toolset("lookups"), client);
+  registerCompositeTools(toolset("composites"), client, options.v2 ?? null);
+  registerGdprTools(toolset("gdpr"), client, {
+    v2: options.v2 ?? null,
+    exportDir: options.exportDir ?? null,
+    auditLog: options.auditLog ?? null,
+    confirmations,
+    idempotency: options.idempotency?.store ?? null,
+  });
+  registerAdminTools(toolset("admin"), client, confirmations);
+  if (options.auditLog) registerAuditTools(toolset("audit"), options.auditLog, options.account ?? null);
+  // Registering resources and prompts also declares their capabilities,
+  // including `completions` for their arguments.
+  const completers = createCompleters(client);
+  registerResources(mcp, client, policy, completers);
+  registerPrompts(mcp, exposed, completers);
+
+  const unknown = unknownPolicyToolNames(policy, offered);
+  if (unknown.length > 0 && !warnedUnknownTools) {
+    warnedUnknownTools = true;
+    console.error(`Warning: tool allow/deny lists name unknown tools: ${unknown.join(", ")}`);
+  }
+
+  return mcp;
+}
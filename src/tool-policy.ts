@@ -0,0 +1,148 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// ── Tool registration policy ─────────────────────────────────────────
+//
+// The register*Tools functions register every tool unconditionally. Which
+// tools a deployment actually exposes is decided here, in one place, by
+// handing those functions a gated view of the McpServer whose `tool()`
+// silently skips tools the policy rejects.
+
+/**
+ * Named groups of tools. Each corresponds to one register*Tools module, so a
+ * tool belongs to the toolset of the module that registers it.
+ */
+export const TOOLSETS = [
+  "contacts",
+  "properties",
+  "tasks",
+  "deals",
+  "search_profiles",
+  "projects",
+  "activities",
+  "emails",
+  "documents",
+  "relationships",
+  "lookups",
+  "composites",
+  "gdpr",
+  "admin",
+  "audit",
+] as const;
+
+export type Toolset = (typeof TOOLSETS)[number];
+
+/** Convenience names that expand to several toolsets. */
+const TOOLSET_ALIASES: Record<string, readonly Toolset[]> = {
+  calendar: ["tasks", "activities"],
+};
+
+/**
+ * Expand toolset names (and aliases) into a deduplicated toolset list.
+ * Throws on unknown names so a typo in the config fails on boot rather than
+ * silently hiding tools.
+ */
+export function resolveToolsets(names: readonly string[]): Toolset[] {
+  const known = new Set<string>(TOOLSETS);
+  const out = new Set<Toolset>();
+  for (const raw of names) {
+    const name = raw.trim().toLowerCase();
+    if (!name) continue;
+    const alias = TOOLSET_ALIASES[name];
+    if (alias) {
+      for (const t of alias) out.add(t);
+    } else if (known.has(name)) {
+      out.add(name as Toolset);
+    } else {
+      const valid = [...TOOLSETS, ...Object.keys(TOOLSET_ALIASES)].join(", ");
+      throw new Error(`Unknown toolset "${raw}". Valid toolsets are: ${valid}.`);
+    }
+  }
+  return [...out];
+}
+
+/** Prefixes that mark a tool as writing to Propstack. */
+const MUTATING_PREFIXES = ["create_", "update_", "delete_"] as const;
+
+/** Mutating tools whose names do not follow the create_/update_/delete_ pattern. */
+const MUTATING_TOOLS = new Set<string>([
+  "send_email",
+  "upload_document",
+  "smart_lead_intake",
+  "erase_contact",
+]);
+
+/** Tools from MUTATING_TOOLS that only change or remove existing records. */
+const NON_CREATING_TOOLS = new Set<string>(["erase_contact"]);
+
+/** True if the tool can create, change or delete data in Propstack. */
+export function isMutatingTool(name: string): boolean {
+  return MUTATING_PREFIXES.some((p) => name.startsWith(p)) || MUTATING_TOOLS.has(name);
+}
+
+/** True if the tool creates new records (or sends something) rather than changing existing ones. */
+export function createsRecords(name: string): boolean {
+  return name.startsWith("create_") || (MUTATING_TOOLS.has(name) && !NON_CREATING_TOOLS.has(name));
+}
+
+export interface ToolPolicy {
+  /** Never register tools that write to Propstack. */
+  readOnly: boolean;
+  /** Expose only tools from these toolsets (empty = no toolset restriction). */
+  toolsets: readonly Toolset[];
+  /** Tool names exposed in addition to the selected toolsets. */
+  allowTools: readonly string[];
+  /** Tool names that are never exposed, whatever else is configured. */
+  denyTools: readonly string[];
+}
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  readOnly: false,
+  toolsets: [],
+  allowTools: [],
+  denyTools: [],
+};
+
+/**
+ * Decide whether a tool is exposed under the given policy.
+ *
+ * The deny list and read-only mode always win. If neither toolsets nor an
+ * allow list is configured, everything else is exposed; otherwise a tool
+ * must be in a selected toolset or on the allow list.
+ */
+export function isToolAllowed(name: string, toolset: Toolset, policy: ToolPolicy): boolean {
+  if (policy.denyTools.includes(name)) return false;
+  if (policy.readOnly && isMutatingTool(name)) return false;
+  if (policy.toolsets.length === 0 && policy.allowTools.length === 0) return true;
+  return policy.toolsets.includes(toolset) || policy.allowTools.includes(name);
+}
+
+/**
+ * Wrap an McpServer so that `tool()` registrations rejected by the policy
+ * are dropped. Everything else passes straight through to the real server.
+ * `onOffer` sees every tool name offered, and whether the policy allowed it.
+ */
+export function applyToolPolicy(
+  server: McpServer,
+  policy: ToolPolicy,
+  toolset: Toolset,
+  onOffer?: (name: string, allowed: boolean) => void,
+): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "tool") {
+        return (name: string, ...rest: unknown[]) => {
+          const allowed = isToolAllowed(name, toolset, policy);
+          onOffer?.(name, allowed);
+          if (!allowed) return undefined;
+          return (target.tool as (...args: unknown[]) => unknown).call(target, name, ...rest);
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
+
+/** Names on the allow/deny lists that match no registered tool. */
+export function unknownPolicyToolNames(policy: ToolPolicy, offered: ReadonlySet<string>): string[] {
+  return [...policy.allowTools, ...policy.denyTools].filter((name) => !offered.has(name));
+}
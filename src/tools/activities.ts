@@ -2,7 +2,8 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackActivity, PropstackEvent, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt } from "./helpers.js";
+import { textResult, errorResult, fmt, renderList, formatParam } from "./helpers.js";
+import { toActivity, toEvent } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -102,7 +103,10 @@ Activity types:
 - sms: SMS messages
 - letter: Letters (Briefe)
 
-Use list_activity_types to see all valid types for this account.`,
+Use list_activity_types to see all valid types for this account.
+
+Use format="compact" (one line per activity), "json" or "csv" to save
+tokens on long timelines.`,
     {
       type: z.enum(["message", "note", "reminder", "event", "policy", "cancelation", "decision", "sms", "letter"]).optional()
         .describe("Filter by activity type"),
@@ -122,24 +126,31 @@ Use list_activity_types to see all valid types for this account.`,
         .describe("Page number (default: 1)"),
       per: z.number().optional()
         .describe("Results per page (default: 20)"),
+      format: formatParam,
     },
     async (args) => {
       try {
+        const { format, ...params } = args;
         const res = await client.get<PropstackPaginatedResponse<PropstackActivity>>(
           "/activities",
-          { params: args as Record<string, string | number | boolean | undefined> },
+          { params: params as Record<string, string | number | boolean | undefined> },
         );
 
         if (!res.data || res.data.length === 0) {
-          return textResult("No activities found matching your criteria.");
+          return textResult("No activities found matching your criteria.", { activities: [], total: res.meta?.total_count ?? 0 });
         }
 
         const header = res.meta?.total_count !== undefined
           ? `Found ${res.meta.total_count} activities (showing ${res.data.length}):\n\n`
           : `Found ${res.data.length} activities:\n\n`;
 
-        const formatted = res.data.map(formatActivity).join("\n\n---\n\n");
-        return textResult(header + formatted);
+        const activities = res.data.map(toActivity);
+        const text = renderList(format, activities, {
+          markdown: () => res.data.map(formatActivity).join("\n\n---\n\n"),
+          title: "title",
+          compact: ["type", "client_id", "property_id", "broker_id", "created_at"],
+        });
+        return textResult(header + text, { activities, total: res.meta?.total_count ?? null });
       } catch (err) {
         return errorResult("Activity", err);
       }
@@ -166,7 +177,10 @@ Use this tool to:
 Event states:
 - neutral: Scheduled, not yet happened
 - took_place: Completed
-- cancelled: Was cancelled`,
+- cancelled: Was cancelled
+
+Use format="compact" (one line per event), "json" or "csv" to save tokens
+on busy calendars.`,
     {
       recurring: z.boolean().optional()
         .describe("Filter for recurring events only"),
@@ -196,25 +210,32 @@ Event states:
         .describe("Page number (default: 1)"),
       per_page: z.number().optional()
         .describe("Results per page (default: 25)"),
+      format: formatParam,
     },
     async (args) => {
       try {
+        const { format, ...params } = args;
         const raw = await client.get<{ events: PropstackEvent[]; meta?: { total_count: number } }>(
           "/events",
-          { params: args as Record<string, string | number | boolean | undefined> },
+          { params: params as Record<string, string | number | boolean | undefined> },
         );
         const events = raw.events ?? [];
 
         if (events.length === 0) {
-          return textResult("No events found matching your criteria.");
+          return textResult("No events found matching your criteria.", { events: [], total: raw.meta?.total_count ?? 0 });
         }
 
         const header = raw.meta?.total_count !== undefined
           ? `Found ${raw.meta.total_count} events (showing ${events.length}):\n\n`
           : `Found ${events.length} events:\n\n`;
 
-        const formatted = events.map(formatEvent).join("\n\n---\n\n");
-        return textResult(header + formatted);
+        const rows = events.map(toEvent);
+        const text = renderList(format, rows, {
+          markdown: () => events.map(formatEvent).join("\n\n---\n\n"),
+          title: "title",
+          compact: ["starts_at", "ends_at", "state", "location", "client_id", "property_id"],
+        });
+        return textResult(header + text, { events: rows, total: raw.meta?.total_count ?? null });
       } catch (err) {
         return errorResult("Event", err);
       }
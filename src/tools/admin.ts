@@ -3,10 +3,16 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackWebhook, PropstackProperty } from "../types/propstack.js";
 import { textResult, errorResult, fmt, fmtPrice } from "./helpers.js";
+import { toProperty, toWebhook } from "./output-schemas.js";
+import { requireConfirmation, type ConfirmationStore } from "./confirmation.js";
 
 // ── Tool registration ────────────────────────────────────────────────
 
-export function registerAdminTools(server: McpServer, client: PropstackClient): void {
+export function registerAdminTools(
+  server: McpServer,
+  client: PropstackClient,
+  confirmations: ConfirmationStore | null = null,
+): void {
   // ── list_webhooks ───────────────────────────────────────────────
 
   server.tool(
@@ -22,7 +28,7 @@ and HMAC secret. Use to review existing automation triggers.`,
         const hooks = Array.isArray(raw) ? raw : raw?.hooks ?? [];
 
         if (hooks.length === 0) {
-          return textResult("No webhooks configured.");
+          return textResult("No webhooks configured.", { webhooks: [] });
         }
 
         const lines = hooks.map((h) => {
@@ -36,7 +42,7 @@ and HMAC secret. Use to review existing automation triggers.`,
           return parts.filter(Boolean).join("\n");
         });
 
-        return textResult(`Webhooks:\n\n${lines.join("\n\n")}`);
+        return textResult(`Webhooks:\n\n${lines.join("\n\n")}`, { webhooks: hooks.map(toWebhook) });
       } catch (err) {
         return errorResult("Webhook", err);
       }
@@ -81,7 +87,7 @@ Use this to set up automation triggers, e.g.:
           hook.secret ? `HMAC Secret: ${hook.secret}` : null,
         ];
 
-        return textResult(lines.filter(Boolean).join("\n"));
+        return textResult(lines.filter(Boolean).join("\n"), { webhook: toWebhook(hook) });
       } catch (err) {
         return errorResult("Webhook", err);
       }
@@ -94,15 +100,42 @@ Use this to set up automation triggers, e.g.:
     "delete_webhook",
     `Delete a webhook subscription from Propstack.
 
-Removes the webhook so Propstack will stop sending events to its URL.`,
+Removes the webhook so Propstack will stop sending events to its URL.
+
+If the server requires confirmation for deletions, the first call returns a
+preview and a confirmation_token instead of deleting. Call again with the
+token only once the user agrees.`,
     {
       id: z.number()
         .describe("Webhook ID to delete"),
+      confirmation_token: z.string().optional()
+        .describe("Token from a previous preview of this exact deletion. Only pass after the user confirmed."),
     },
     async (args) => {
       try {
+        const pending = await requireConfirmation(server, confirmations, {
+          tool: "delete_webhook",
+          action: `delete_webhook:${args.id}`,
+          token: args.confirmation_token,
+          preview: async () => {
+            // There is no single-webhook endpoint; find it in the list.
+            const raw = await client.get<{ hooks: PropstackWebhook[] } | PropstackWebhook[]>("/hooks");
+            const hooks = Array.isArray(raw) ? raw : raw?.hooks ?? [];
+            const hook = hooks.find((h) => h.id === args.id);
+            if (!hook) return `About to delete webhook #${args.id} (not found in the webhook list).`;
+            return [
+              "About to delete this webhook:",
+              "",
+              `**Webhook #${hook.id}**`,
+              `  URL: ${fmt(hook.target_url)}`,
+              `  Event: ${fmt(hook.event)}`,
+            ].join("\n");
+          },
+        });
+        if (pending) return pending;
+
         await client.delete(`/hooks/${args.id}`);
-        return textResult(`Webhook ${args.id} deleted.`);
+        return textResult(`Webhook ${args.id} deleted.`, { deleted: true, id: args.id });
       } catch (err) {
         return errorResult("Webhook", err);
       }
@@ -129,7 +162,7 @@ interested in.`,
         );
 
         if (!favorites || favorites.length === 0) {
-          return textResult(`Contact ${args.contact_id} has no favorited properties.`);
+          return textResult(`Contact ${args.contact_id} has no favorited properties.`, { properties: [] });
         }
 
         const lines = favorites.map((p) => {
@@ -144,7 +177,7 @@ interested in.`,
           return `- **${fmt(p.title, "Untitled")}** (ID: ${p.id}) — ${fullAddr || "no address"} — ${price}`;
         });
 
-        return textResult(`Favorited properties (${favorites.length}):\n\n${lines.join("\n")}`);
+        return textResult(`Favorited properties (${favorites.length}):\n\n${lines.join("\n")}`, { properties: favorites.map(toProperty) });
       } catch (err) {
         return errorResult("Contact favorites", err);
       }
@@ -0,0 +1,91 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { AuditEntry, AuditLog, AuditQuery } from "../audit-log.js";
+import { textResult, errorResult } from "./helpers.js";
+
+// ── Response formatting ──────────────────────────────────────────────
+
+function formatEntry(e: AuditEntry): string {
+  const when = e.ts.replace("T", " ").slice(0, 19);
+  if (e.kind === "request") {
+    const status = e.status ?? "no response";
+    const ids = e.record_ids.length > 0 ? ` · IDs ${e.record_ids.join(", ")}` : "";
+    return `${when} · ${e.method} ${e.path} → ${status}${ids} (via ${e.tool ?? "unknown"}, session ${e.session})`;
+  }
+  if (e.kind === "erasure") {
+    const failed = e.records.filter((r) => !r.ok).length;
+    return `${when} · erasure of contact ${e.contact_id} (${e.method}) by ${e.operator} · ` +
+      `${e.completed ? "completed" : "incomplete"} · ${e.records.length} records${failed ? `, ${failed} failed` : ""} (session ${e.session})`;
+  }
+  const outcome = e.ok ? "ok" : `failed${e.error ? `: ${e.error}` : ""}`;
+  return `${when} · tool ${e.tool} · ${outcome} · ${e.duration_ms} ms (session ${e.session})\n  args: ${JSON.stringify(e.args)}`;
+}
+
+/** Parse a YYYY-MM-DD or ISO timestamp; dates alone mean midnight UTC. */
+function parseTime(raw: string, field: string): Date {
+  const d = new Date(raw);
+  if (Number.isNaN(d.getTime())) throw new Error(`Invalid ${field} "${raw}". Use YYYY-MM-DD or an ISO 8601 timestamp.`);
+  return d;
+}
+
+// ── Tool registration ────────────────────────────────────────────────
+
+/**
+ * Register query_audit_log. With an `account`, the tool only ever returns
+ * that account's entries, so agencies sharing one HTTP server cannot read
+ * each other's tool arguments.
+ */
+export function registerAuditTools(server: McpServer, audit: AuditLog, account: string | null = null): void {
+  // ── query_audit_log ─────────────────────────────────────────────
+
+  server.tool(
+    "query_audit_log",
+    `Search the local audit log of this server — every tool call and every
+write (POST/PUT/DELETE) sent to Propstack, with timestamps and sessions.
+
+Use this tool to answer:
+- "What did the assistant change yesterday?" (since/until, writes_only)
+- "Who touched contact 4711?" (record_id)
+- "Which calls did delete_contact get today?" (tool)
+- "Prove that contact 4711 was erased" (record_id; erasure receipts from erase_contact)
+
+Entries are returned newest first.`,
+    {
+      since: z.string().optional()
+        .describe("Only entries at or after this time (YYYY-MM-DD or ISO 8601, UTC)"),
+      until: z.string().optional()
+        .describe("Only entries before this time (YYYY-MM-DD or ISO 8601, UTC)"),
+      tool: z.string().optional()
+        .describe("Only entries for this tool name"),
+      record_id: z.number().optional()
+        .describe("Only writes that touched this Propstack record ID"),
+      writes_only: z.boolean().optional()
+        .describe("Only Propstack writes, not tool calls (default: false)"),
+      session: z.string().optional()
+        .describe("Only entries from this MCP session"),
+      limit: z.number().optional()
+        .describe("Maximum entries to return (default: 50)"),
+    },
+    async (args) => {
+      try {
+        const query: AuditQuery = { limit: args.limit ?? 50 };
+        if (account) query.account = account;
+        if (args.since) query.since = parseTime(args.since, "since");
+        if (args.until) query.until = parseTime(args.until, "until");
+        if (args.tool) query.tool = args.tool;
+        if (args.session) query.session = args.session;
+        if (args.record_id !== undefined) query.recordId = args.record_id;
+        if (args.writes_only) query.kind = "request";
+
+        const entries = audit.query(query);
+        if (entries.length === 0) {
+          return textResult("No audit log entries match.", { entries: [] });
+        }
+
+        return textResult(`Audit log (${entries.length} entries, newest first):\n\n${entries.map(formatEntry).join("\n")}`, { entries });
+      } catch (err) {
+        return errorResult("Audit log", err);
+      }
+    },
+  );
+}
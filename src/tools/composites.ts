@@ -1,6 +1,7 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
+import type { PropstackV2Client } from "../propstack-v2-client.js";
 import type {
   PropstackContact,
   PropstackProperty,
@@ -10,9 +11,12 @@ import type {
   PropstackDealPipeline,
   PropstackTask,
   PropstackPaginatedResponse,
+  PropstackBroker,
+  PropstackPropertyStatus,
 } from "../types/propstack.js";
-import { textResult, errorResult, fmt, fmtPrice, fmtArea, formatError, stripUndefined, unwrapNumber, validateFields, renderFieldValue, CONTACT_FIELDS } from "./helpers.js";
+import { textResult, errorText, errorResult, fmt, fmtPrice, fmtArea, formatError, stripUndefined, unwrapNumber, validateFields, renderFieldValue, progressReporter, CONTACT_FIELDS } from "./helpers.js";
 import { enrichDealsWithStageNames, fetchPipelines } from "./deals.js";
+import { selectFields, toActivity, toContactDetails, toDeal, toProperty, toSearchProfile } from "./output-schemas.js";
 
 function daysBetween(from: string, to: Date): number {
   return Math.floor((to.getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
@@ -22,9 +26,31 @@ function contactName(c: PropstackContact): string {
   return fmt(c.name) !== "none" ? fmt(c.name) : ([fmt(c.first_name, ""), fmt(c.last_name, "")].filter(Boolean).join(" ") || "Unknown");
 }
 
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : Math.round((sorted[mid - 1]! + sorted[mid]!) / 2);
+}
+
+/** Listings, sale value and monthly rent for one group of a portfolio breakdown. */
+interface PortfolioGroup {
+  key: string;
+  count: number;
+  sale_value: number;
+  monthly_rent: number;
+}
+
+/** Property statuses that mark a listing as reserved, or as sold/let. Matched on the status name. */
+const RESERVED_STATUS = /reserv/i;
+const CLOSED_STATUS = /verkauft|vermietet|sold|rented/i;
+
+/** Days without an update after which pipeline_summary flags a deal as stale. */
+export const STALE_DEAL_DAYS = 14;
+
 // ── Tool registration ────────────────────────────────────────────────
 
-export function registerCompositeTools(server: McpServer, client: PropstackClient): void {
+export function registerCompositeTools(server: McpServer, client: PropstackClient, v2: PropstackV2Client | null = null): void {
   // ── full_contact_360 ────────────────────────────────────────────
 
   server.tool(
@@ -55,7 +81,7 @@ Unknown field names produce an error listing the valid options.`,
       try {
         if (args.fields && args.fields.length > 0) {
           const fieldError = validateFields(args.fields, CONTACT_FIELDS, "contact");
-          if (fieldError) return textResult(fieldError);
+          if (fieldError) return errorText(fieldError);
         }
 
         const [contactRes, searchProfilesRes, dealsRes, activitiesRes, pipelinesRes] = await Promise.allSettled([
@@ -233,7 +259,14 @@ Unknown field names produce an error listing the valid options.`,
           sections.push(`\n**Note:** Some sections failed to load (${warnings.join(", ")}). The rest of the data is shown above.`);
         }
 
-        return textResult(sections.join("\n\n---\n\n"));
+        const details = toContactDetails(contact);
+        return textResult(sections.join("\n\n---\n\n"), {
+          contact: args.fields && args.fields.length > 0 ? selectFields(details, contact, args.fields) : details,
+          search_profiles: searchProfilesRes.status === "fulfilled" ? (searchProfilesRes.value.data ?? []).map(toSearchProfile) : null,
+          deals: dealsRes.status === "fulfilled" ? (dealsRes.value.data ?? []).map(toDeal) : null,
+          activities: activitiesRes.status === "fulfilled" ? (activitiesRes.value.data ?? []).map(toActivity) : null,
+          failed: warnings,
+        });
       } catch (err) {
         return errorResult("Contact 360", err);
       }
@@ -287,6 +320,8 @@ Use when asked: "How is the Friedrichstr property doing?"`,
         const sections: string[] = [];
         const warnings: string[] = [];
         const now = new Date();
+        let inquiries: Record<string, unknown> | null = null;
+        let activity: Record<string, unknown> | null = null;
 
         // ── Property summary
         const title = fmt(property.title, "Untitled");
@@ -324,7 +359,7 @@ Use when asked: "How is the Friedrichstr property doing?"`,
             const stage = d.deal_stage?.name ?? (d.deal_stage_id ? `Stage #${d.deal_stage_id}` : "No stage");
             byStage[stage] = (byStage[stage] ?? 0) + 1;
 
-            if (d.sold_price) totalValue += d.sold_price;
+            totalValue += unwrapNumber(d.sold_price) ?? 0;
           }
 
           const dealLines: string[] = [
@@ -358,6 +393,7 @@ Use when asked: "How is the Friedrichstr property doing?"`,
           }
 
           sections.push(dealLines.join("\n"));
+          inquiries = { total: totalInquiries, by_stage: byStage, total_value: totalValue, deals: dealList.map(toDeal) };
         } else {
           warnings.push("Deals");
           sections.push(`## Pipeline Analysis\nFailed to load: ${formatError(dealsRes.reason)}`);
@@ -397,6 +433,7 @@ Use when asked: "How is the Friedrichstr property doing?"`,
           }
 
           sections.push(actLines.join("\n"));
+          activity = { total: totalActivities, by_type: byType, recent: activityList.map(toActivity) };
         } else {
           warnings.push("Activities");
           sections.push(`## Activity Summary\nFailed to load: ${formatError(activitiesRes.reason)}`);
@@ -406,7 +443,13 @@ Use when asked: "How is the Friedrichstr property doing?"`,
           sections.push(`\n**Note:** Some sections failed to load (${warnings.join(", ")}). The rest of the data is shown above.`);
         }
 
-        return textResult(sections.join("\n\n---\n\n"));
+        return textResult(sections.join("\n\n---\n\n"), {
+          property: toProperty(property),
+          days_on_market: dom,
+          inquiries,
+          activity,
+          failed: warnings,
+        });
       } catch (err) {
         return errorResult("Property report", err);
       }
@@ -423,17 +466,20 @@ needing attention.
 Fetches all deal pipelines and deals, then aggregates:
 - Deal count per stage
 - Total value per stage (from deal price or property price)
-- Stale deals: deals with no update in 14+ days
+- Stale deals: deals with no update in ${STALE_DEAL_DAYS}+ days
 
 Filter by pipeline_id and/or broker_id. Use when asked:
-"How's the pipeline looking?" or "Give me a sales overview."`,
+"How's the pipeline looking?" or "Give me a sales overview."
+
+Reports progress per page of deals and stops when the call is cancelled.`,
     {
       pipeline_id: z.number().optional()
         .describe("Filter by specific pipeline ID"),
       broker_id: z.number().optional()
         .describe("Filter by broker ID"),
     },
-    async (args) => {
+    async (args, extra) => {
+      const paging = { signal: extra.signal, onPage: progressReporter(extra, "deals") };
       try {
         const pipelinesRes = await fetchPipelines(client).then(
           (v) => ({ status: "fulfilled" as const, value: v }),
@@ -446,41 +492,42 @@ Filter by pipeline_id and/or broker_id. Use when asked:
 
         const pipelines = pipelinesRes.value;
 
-        const dealParams: Record<string, string | number | boolean | undefined> = {
-          include: "client,property",
-          per_page: 100,
-        };
-        if (args.pipeline_id) dealParams["deal_pipeline_id"] = args.pipeline_id;
-        if (args.broker_id) dealParams["broker_id"] = args.broker_id;
-
         const allDeals: PropstackDeal[] = [];
-        let page = 1;
         let totalCount: number | undefined;
-        const maxDeals = 2000;
-
-        do {
-          const res = await client.get<PropstackPaginatedResponse<PropstackDeal>>(
-            "/client_properties",
-            { params: { ...dealParams, page } },
-          );
-          if (res.data?.length) allDeals.push(...res.data);
-          totalCount = res.meta?.total_count;
-          page++;
-        } while (
-          allDeals.length < (totalCount ?? 0) &&
-          allDeals.length < maxDeals
-        );
-
+        let capped = false;
         const warnings: string[] = [];
-        if (totalCount !== undefined && allDeals.length >= maxDeals && totalCount > maxDeals) {
-          warnings.push(`Summary capped at ${maxDeals} deals (${totalCount} total).`);
+
+        if (v2 && (await v2.available())) {
+          // V2 scrolls the whole account; its scroll endpoint has no
+          // pipeline/broker filters, so those are applied here.
+          for await (const d of v2.scrollAll<PropstackDeal>("/client_properties/scroll", { include: "client,property" }, paging)) {
+            if (args.pipeline_id && d.deal_pipeline_id !== args.pipeline_id) continue;
+            if (args.broker_id && d.broker_id !== args.broker_id) continue;
+            allDeals.push(d);
+          }
+          totalCount = allDeals.length;
+        } else {
+          const dealParams: Record<string, string | number | boolean | undefined> = {
+            include: "client,property",
+          };
+          if (args.pipeline_id) dealParams["deal_pipeline_id"] = args.pipeline_id;
+          if (args.broker_id) dealParams["broker_id"] = args.broker_id;
+
+          const pages = client.paginate<PropstackDeal>("/client_properties", { params: dealParams, maxItems: 2000, ...paging });
+          for await (const d of pages) allDeals.push(d);
+          totalCount = pages.total;
+
+          capped = pages.capped;
+          if (capped) {
+            warnings.push(`Summary capped at ${pages.maxItems} deals (${totalCount ?? "more"} total). Configure API V2 access to summarize all deals.`);
+          }
         }
 
         const deals = { data: allDeals, meta: totalCount !== undefined ? { total_count: totalCount } : undefined };
 
         const dealList = deals.data ?? [];
         const now = new Date();
-        const staleThresholdMs = 14 * 24 * 60 * 60 * 1000;
+        const staleThresholdMs = STALE_DEAL_DAYS * 24 * 60 * 60 * 1000;
 
         // Build stage name lookup
         const stageNames: Record<number, string> = {};
@@ -545,7 +592,7 @@ Filter by pipeline_id and/or broker_id. Use when asked:
 
         // Stale deals
         if (staleDeals.length > 0) {
-          const staleLines: string[] = [`## Stale Deals (no update in 14+ days): ${staleDeals.length}`, ""];
+          const staleLines: string[] = [`## Stale Deals (no update in ${STALE_DEAL_DAYS}+ days): ${staleDeals.length}`, ""];
           for (const d of staleDeals.slice(0, 10)) {
             const cName = d.client ? contactName(d.client) : `Contact #${d.client_id}`;
             const propTitle = d.property ? fmt(d.property.title, "Untitled") : `Property #${d.property_id}`;
@@ -555,20 +602,177 @@ Filter by pipeline_id and/or broker_id. Use when asked:
           }
           sections.push(staleLines.join("\n"));
         } else {
-          sections.push("## Stale Deals\nNo stale deals — all deals were updated within the last 14 days.");
+          sections.push(`## Stale Deals\nNo stale deals — all deals were updated within the last ${STALE_DEAL_DAYS} days.`);
         }
 
         if (warnings.length > 0) {
           sections.push(`\n**Note:** ${warnings.join(". ")}`);
         }
 
-        return textResult(sections.join("\n\n---\n\n"));
+        enrichDealsWithStageNames(staleDeals, pipelines);
+        return textResult(sections.join("\n\n---\n\n"), {
+          pipeline_id: args.pipeline_id ?? null,
+          broker_id: args.broker_id ?? null,
+          total_deals: deals.meta?.total_count ?? totalDeals,
+          total_value: totalValue,
+          stages: Object.entries(stageStats).map(([stage, stats]) => ({ stage, deals: stats.count, value: stats.value })),
+          stale_deals: staleDeals.map(toDeal),
+          capped,
+        });
       } catch (err) {
         return errorResult("Pipeline summary", err);
       }
     },
   );
 
+  // ── portfolio_overview ──────────────────────────────────────────
+
+  server.tool(
+    "portfolio_overview",
+    `Portfolio overview — how many listings, worth how much, by status, type,
+marketing type and broker.
+
+Scans every property of the account on the server and returns only
+aggregates, never individual listings:
+- Count, total sale price and total monthly base rent per status,
+  rs_type, marketing_type and broker
+- Median days on market of listings not yet sold or let
+- Share of listings that are reserved and sold/let
+
+Archived properties are left out. Uses API V2 to scan all properties when
+available; otherwise reads up to 5000 via V1 and says so if capped.
+
+Use when asked: "How many listings do we have, and what are they worth?"
+
+Reports progress per page of properties and stops when the call is cancelled.`,
+    {},
+    async (_args, extra) => {
+      const paging = { signal: extra.signal, onPage: progressReporter(extra, "properties") };
+      try {
+        // Names for broker and status IDs; without them groups show the ID.
+        const [brokersRes, statusesRes] = await Promise.allSettled([
+          client.get<PropstackBroker[]>("/brokers"),
+          client.get<{ data?: PropstackPropertyStatus[] } | PropstackPropertyStatus[]>("/property_statuses"),
+        ]);
+        const brokerNames = new Map<number, string>();
+        if (brokersRes.status === "fulfilled") {
+          for (const b of brokersRes.value) brokerNames.set(b.id, fmt(b.name, `Broker #${b.id}`));
+        }
+        const statusNames = new Map<number, string>();
+        if (statusesRes.status === "fulfilled") {
+          const statuses = Array.isArray(statusesRes.value) ? statusesRes.value : (statusesRes.value?.data ?? []);
+          for (const s of statuses) statusNames.set(s.id, fmt(s.name, `Status #${s.id}`));
+        }
+
+        const dimensions = {
+          status: new Map<string, PortfolioGroup>(),
+          rs_type: new Map<string, PortfolioGroup>(),
+          marketing_type: new Map<string, PortfolioGroup>(),
+          broker: new Map<string, PortfolioGroup>(),
+        };
+        const totals = { count: 0, sale_value: 0, monthly_rent: 0 };
+        const daysOnMarket: number[] = [];
+        let reserved = 0;
+        let closed = 0;
+        const now = new Date();
+
+        const add = (p: PropstackProperty): void => {
+          if (p.archived) return;
+          const statusId = p.property_status?.id ?? p.status;
+          const status = p.property_status?.name
+            ?? (statusId ? (statusNames.get(statusId) ?? `Status #${statusId}`) : "No status");
+          const brokerId = p.broker?.id ?? p.broker_id;
+          const keys = {
+            status,
+            rs_type: p.rs_type ?? "Unknown",
+            marketing_type: p.marketing_type ?? "Unknown",
+            broker: brokerId ? (brokerNames.get(brokerId) ?? fmt(p.broker?.name, `Broker #${brokerId}`)) : "Unassigned",
+          };
+          const salePrice = unwrapNumber(p.price) ?? 0;
+          const rent = unwrapNumber(p.base_rent) ?? 0;
+
+          totals.count++;
+          totals.sale_value += salePrice;
+          totals.monthly_rent += rent;
+          for (const [dimension, key] of Object.entries(keys) as [keyof typeof dimensions, string][]) {
+            const groups = dimensions[dimension];
+            const group = groups.get(key) ?? { key, count: 0, sale_value: 0, monthly_rent: 0 };
+            group.count++;
+            group.sale_value += salePrice;
+            group.monthly_rent += rent;
+            groups.set(key, group);
+          }
+
+          if (CLOSED_STATUS.test(status)) {
+            closed++;
+          } else {
+            if (RESERVED_STATUS.test(status)) reserved++;
+            if (p.created_at) daysOnMarket.push(daysBetween(p.created_at, now));
+          }
+        };
+
+        let capped = false;
+        const warnings: string[] = [];
+        if (v2 && (await v2.available())) {
+          for await (const p of v2.scrollAll<PropstackProperty>("/properties/scroll", { with_total: true }, paging)) add(p);
+        } else {
+          const pages = client.paginate<PropstackProperty>("/units", { params: { with_meta: 1 }, maxItems: 5000, ...paging });
+          for await (const p of pages) add(p);
+          capped = pages.capped;
+          if (capped) {
+            warnings.push(`Overview capped at ${pages.maxItems} properties (${pages.total ?? "more"} total). Configure API V2 access to cover all properties.`);
+          }
+        }
+
+        const share = (n: number) => (totals.count ? Math.round((n / totals.count) * 1000) / 10 : 0);
+        const breakdown = (groups: Map<string, PortfolioGroup>) => [...groups.values()].sort((a, b) => b.count - a.count);
+        const medianDays = median(daysOnMarket);
+
+        const sections: string[] = [
+          "# Portfolio Overview\n\n" +
+          `Listings: ${totals.count}\n` +
+          `Total sale value: ${fmtPrice(totals.sale_value)}\n` +
+          `Total monthly rent: ${fmtPrice(totals.monthly_rent)}\n` +
+          `Median days on market: ${medianDays ?? "n/a"}\n` +
+          `Reserved: ${reserved} (${share(reserved)}%) | Sold/let: ${closed} (${share(closed)}%)`,
+        ];
+        const headings = { status: "Status", rs_type: "Property Type", marketing_type: "Marketing Type", broker: "Broker" };
+        for (const [dimension, heading] of Object.entries(headings) as [keyof typeof dimensions, string][]) {
+          const rows = breakdown(dimensions[dimension]);
+          if (rows.length === 0) continue;
+          sections.push([
+            `## By ${heading}`,
+            "",
+            `| ${heading} | Listings | Sale value | Monthly rent |`,
+            "|---|---|---|---|",
+            ...rows.map((g) => `| ${g.key} | ${g.count} | ${fmtPrice(g.sale_value)} | ${fmtPrice(g.monthly_rent)} |`),
+          ].join("\n"));
+        }
+        if (warnings.length > 0) {
+          sections.push(`\n**Note:** ${warnings.join(". ")}`);
+        }
+
+        return textResult(sections.join("\n\n---\n\n"), {
+          total_listings: totals.count,
+          total_sale_value: totals.sale_value,
+          total_monthly_rent: totals.monthly_rent,
+          median_days_on_market: medianDays,
+          reserved,
+          reserved_share: share(reserved),
+          sold_or_let: closed,
+          sold_or_let_share: share(closed),
+          by_status: breakdown(dimensions.status),
+          by_rs_type: breakdown(dimensions.rs_type),
+          by_marketing_type: breakdown(dimensions.marketing_type),
+          by_broker: breakdown(dimensions.broker),
+          capped,
+        });
+      } catch (err) {
+        return errorResult("Portfolio overview", err);
+      }
+    },
+  );
+
   // ── smart_lead_intake ───────────────────────────────────────────
 
   server.tool(
@@ -734,14 +938,18 @@ Returns what was done: created vs updated, IDs of all created records.`,
           `Action: Contact **${action}**`,
           `Contact: ${args.first_name} ${args.last_name} (ID: ${contactId})`,
         ];
+        const created = { note_id: null as number | null, deal_id: null as number | null, reminder_id: null as number | null };
+        const errors: string[] = [];
 
         if (noteIdx >= 0) {
           const noteRes = results[noteIdx]!;
           if (noteRes.status === "fulfilled") {
             const note = noteRes.value as PropstackTask;
             lines.push(`Note: logged (ID: ${note.id})`);
+            created.note_id = note.id;
           } else {
             lines.push(`Note: failed to create — ${formatError(noteRes.reason)}`);
+            errors.push(`Note: ${formatError(noteRes.reason)}`);
           }
         }
 
@@ -750,8 +958,10 @@ Returns what was done: created vs updated, IDs of all created records.`,
           if (dealRes.status === "fulfilled") {
             const deal = dealRes.value as PropstackDeal;
             lines.push(`Deal: created (ID: ${deal.id}) for property ${args.property_id}`);
+            created.deal_id = deal.id;
           } else {
             lines.push(`Deal: failed to create — ${formatError(dealRes.reason)}`);
+            errors.push(`Deal: ${formatError(dealRes.reason)}`);
           }
         }
 
@@ -759,11 +969,13 @@ Returns what was done: created vs updated, IDs of all created records.`,
         if (reminderRes.status === "fulfilled") {
           const reminder = reminderRes.value as PropstackTask;
           lines.push(`Follow-up: reminder set for ${tomorrow.toLocaleDateString("de-DE")} 09:00 (ID: ${reminder.id})`);
+          created.reminder_id = reminder.id;
         } else {
           lines.push(`Follow-up: failed to create reminder — ${formatError(reminderRes.reason)}`);
+          errors.push(`Follow-up: ${formatError(reminderRes.reason)}`);
         }
 
-        return textResult(lines.join("\n"));
+        return textResult(lines.join("\n"), { action, contact_id: contactId, ...created, errors });
       } catch (err) {
         return errorResult("Lead intake", err);
       }
@@ -785,14 +997,17 @@ Logic:
 2. Fetches active search profiles (paginates, capped by max_profiles)
 3. Scores each profile against the property on: marketing type, city,
    price range, room count, living space, property type, and features
-4. Returns top 20 matches sorted by score with match/mismatch details`,
+4. Returns top 20 matches sorted by score with match/mismatch details
+
+Reports progress per page of search profiles and stops when the call is
+cancelled.`,
     {
       property_id: z.number()
         .describe("Property ID to find matching contacts for"),
       max_profiles: z.number().optional()
         .describe("Max search profiles to fetch and score (default: 1000). Caps API calls and memory for large accounts."),
     },
-    async (args) => {
+    async (args, extra) => {
       try {
         // Step 1: Get property
         const property = await client.get<PropstackProperty>(
@@ -800,27 +1015,25 @@ Logic:
         );
 
         // Step 2: Get search profiles (paginate, capped by max_profiles)
-        const maxProfiles = args.max_profiles ?? 1000;
+        const profilePages = client.paginate<PropstackSearchProfile>("/saved_queries", {
+          maxItems: args.max_profiles ?? 1000,
+          signal: extra.signal,
+          onPage: progressReporter(extra, "search profiles"),
+        });
         const allProfiles: PropstackSearchProfile[] = [];
-        let page = 1;
-        let hasMore = true;
-        while (hasMore && allProfiles.length < maxProfiles) {
-          const res = await client.get<PropstackPaginatedResponse<PropstackSearchProfile>>(
-            "/saved_queries",
-            { params: { page, per_page: Math.min(100, maxProfiles - allProfiles.length) } },
-          );
-          if (res.data && res.data.length > 0) {
-            allProfiles.push(...res.data);
-            const total = res.meta?.total_count ?? 0;
-            hasMore = allProfiles.length < total && allProfiles.length < maxProfiles;
-            page++;
-          } else {
-            hasMore = false;
-          }
-        }
+        for await (const sp of profilePages) allProfiles.push(sp);
+        const capNote = profilePages.capped
+          ? `\n\n**Note:** Only the first ${profilePages.maxItems} of ${profilePages.total ?? "more"} search profiles were checked. Raise max_profiles to check more.`
+          : "";
 
         if (allProfiles.length === 0) {
-          return textResult("No search profiles found. Cannot match contacts.");
+          return textResult("No search profiles found. Cannot match contacts.", {
+            property_id: property.id,
+            profiles_checked: 0,
+            capped: false,
+            total_matches: 0,
+            matches: [],
+          });
         }
 
         // Step 3: Score each profile
@@ -955,13 +1168,28 @@ Logic:
         results.sort((a, b) => b.score - a.score || a.mismatches.length - b.mismatches.length);
 
         const top = results.slice(0, 20);
+        const structured = {
+          property_id: property.id,
+          profiles_checked: allProfiles.length,
+          capped: profilePages.capped,
+          total_matches: results.length,
+          matches: top.map((m) => ({
+            contact_id: m.clientId,
+            search_profile_id: m.profileId,
+            score: m.score,
+            max_score: m.maxScore,
+            matched: m.matches,
+            mismatched: m.mismatches,
+          })),
+        };
 
         if (top.length === 0) {
           return textResult(
             `No matching search profiles found for property "${fmt(property.title, "Untitled")}" ` +
             `(${fmt(property.marketing_type)} ${fmt(property.rs_type)}, ${fmtPrice(property.price)}, ` +
             `${fmt(property.number_of_rooms)} rooms, ${fmt(property.city, "?")}).\n\n` +
-            `Checked ${allProfiles.length} search profiles.`,
+            `Checked ${allProfiles.length} search profiles.` + capNote,
+            structured,
           );
         }
 
@@ -982,7 +1210,7 @@ Logic:
           ].filter(Boolean).join("\n");
         });
 
-        return textResult(header + matchLines.join("\n\n"));
+        return textResult(header + matchLines.join("\n\n") + capNote, structured);
       } catch (err) {
         return errorResult("Property matching", err);
       }
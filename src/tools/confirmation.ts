@@ -0,0 +1,115 @@
+import { randomBytes } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { textResult, errorText, type ToolResult } from "./helpers.js";
+
+// ── Two-phase confirmation for destructive tools ─────────────────────
+//
+// Opt-in safety mode. A destructive tool first shows what it would delete
+// and only proceeds once the deletion is confirmed — interactively through
+// MCP elicitation when the client supports it, otherwise by calling the
+// tool a second time with the short-lived token from the preview.
+
+/** How long a confirmation token stays valid. */
+const TOKEN_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Issued confirmation tokens, each bound to exactly one action (e.g.
+ * "delete_contact:42") and usable once. One store per McpServer, so a
+ * token cannot be redeemed from another session.
+ */
+export class ConfirmationStore {
+  private readonly tokens = new Map<string, { action: string; expiresAt: number }>();
+
+  issue(action: string, now: number = Date.now()): string {
+    this.prune(now);
+    const token = randomBytes(4).toString("hex");
+    this.tokens.set(token, { action, expiresAt: now + TOKEN_TTL_MS });
+    return token;
+  }
+
+  /** The action a live token is bound to, without redeeming it. */
+  actionFor(token: string, now: number = Date.now()): string | undefined {
+    const entry = this.tokens.get(token);
+    return entry && entry.expiresAt >= now ? entry.action : undefined;
+  }
+
+  /** Redeem a token for an action. Returns false if unknown, expired, or bound to another action. */
+  consume(token: string, action: string, now: number = Date.now()): boolean {
+    const entry = this.tokens.get(token);
+    if (!entry || entry.action !== action || entry.expiresAt < now) return false;
+    this.tokens.delete(token);
+    return true;
+  }
+
+  private prune(now: number): void {
+    for (const [token, entry] of this.tokens) {
+      if (entry.expiresAt < now) this.tokens.delete(token);
+    }
+  }
+}
+
+export interface ConfirmationRequest {
+  /** Tool name, used in the instructions for the second call. */
+  tool: string;
+  /** Unique description of the action, e.g. "delete_contact:42". */
+  action: string;
+  /** Token supplied by the caller on the confirming call, if any. */
+  token: string | undefined;
+  /** Builds the human-readable preview of what will be deleted. */
+  preview: () => Promise<string>;
+}
+
+/**
+ * Gate a destructive action behind confirmation.
+ *
+ * Returns null when the action is confirmed and may proceed. Otherwise
+ * returns the tool result to send back instead: the preview with a token,
+ * a cancellation notice, or an invalid-token error. When `store` is null
+ * the safety mode is off and every action proceeds immediately.
+ */
+export async function requireConfirmation(
+  server: McpServer,
+  store: ConfirmationStore | null,
+  req: ConfirmationRequest,
+): Promise<ToolResult | null> {
+  if (!store) return null;
+
+  if (req.token !== undefined) {
+    if (store.consume(req.token, req.action)) return null;
+    return errorText(
+      `Confirmation token "${req.token}" is invalid or expired for this action. ` +
+      `Call ${req.tool} again without confirmation_token to get a fresh preview.`,
+    );
+  }
+
+  const preview = await req.preview();
+
+  if (server.server.getClientCapabilities()?.elicitation) {
+    try {
+      const answer = await server.server.elicitInput({
+        message: `${preview}\n\nThis cannot be undone from the assistant. Proceed?`,
+        requestedSchema: {
+          type: "object",
+          properties: {
+            confirm: { type: "boolean", title: "Yes, delete", default: false },
+          },
+          required: ["confirm"],
+        },
+      });
+      if (answer.action === "accept" && answer.content?.["confirm"] === true) return null;
+      return textResult(`Cancelled — nothing was deleted.\n\n${preview}`, { deleted: false });
+    } catch {
+      // Client advertised elicitation but the request failed; fall back to
+      // the token flow so the user can still confirm.
+    }
+  }
+
+  const token = store.issue(req.action);
+  return textResult(
+    `${preview}\n\n` +
+    `Nothing has been deleted yet. Show this to the user and, only if they confirm, ` +
+    `call ${req.tool} again with the same arguments plus confirmation_token: "${token}" ` +
+    `(valid for ${TOKEN_TTL_MS / 60_000} minutes, single use).`,
+    { deleted: false, confirmation_token: token },
+  );
+}
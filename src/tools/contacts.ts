@@ -2,7 +2,9 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackContact, PropstackContactSource, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt, stripUndefined, validateFields, renderProjectedRecord, applyCustomFilters, CONTACT_FIELDS } from "./helpers.js";
+import { textResult, errorText, errorResult, fmt, stripUndefined, validateFields, renderProjectedRecord, applyCustomFilters, renderList, formatParam, CONTACT_FIELDS } from "./helpers.js";
+import { selectFields, toContact } from "./output-schemas.js";
+import { requireConfirmation, type ConfirmationStore } from "./confirmation.js";
 
 /**
  * Generate search variants for a phone number. Propstack normalizes spaces/dashes
@@ -39,7 +41,8 @@ function normalizeContactsResponse(
 
 // ── Response formatting ──────────────────────────────────────────────
 
-const GDPR_LABELS = ["Keine Angabe", "Ignoriert", "Zugestimmt", "Widerrufen"] as const;
+/** Propstack's gdpr_status values 0–3, by index. */
+export const GDPR_LABELS = ["Keine Angabe", "Ignoriert", "Zugestimmt", "Widerrufen"] as const;
 
 function stars(rating: number): string {
   const clamped = Math.max(0, Math.min(3, rating));
@@ -62,9 +65,42 @@ function formatContact(c: PropstackContact): string {
   return lines.filter(Boolean).join("\n");
 }
 
+/** Count from a paginated list response, or "unknown" if the request failed. */
+function countOf(res: PromiseSettledResult<PropstackPaginatedResponse<unknown>>): string {
+  if (res.status === "rejected") return "unknown";
+  return String(res.value.meta?.total_count ?? res.value.data?.length ?? 0);
+}
+
+/** What deleting a contact affects, shown before delete_contact proceeds. */
+async function previewContactDeletion(client: PropstackClient, id: number): Promise<string> {
+  const contact = await client.get<PropstackContact>(`/contacts/${id}`);
+  const [deals, searchProfiles, tasks, activities] = await Promise.allSettled([
+    client.get<PropstackPaginatedResponse<unknown>>("/client_properties", { params: { client_id: id, per_page: 1 } }),
+    client.get<PropstackPaginatedResponse<unknown>>("/saved_queries", { params: { client: id, per_page: 1 } }),
+    client.get<PropstackPaginatedResponse<unknown>>("/activities", { params: { client_id: id, type: "reminder", per: 1 } }),
+    client.get<PropstackPaginatedResponse<unknown>>("/activities", { params: { client_id: id, per: 1 } }),
+  ]);
+
+  return [
+    "About to delete this contact:",
+    "",
+    formatContact(contact),
+    "",
+    "Linked records:",
+    `- Deals: ${countOf(deals)}`,
+    `- Search profiles: ${countOf(searchProfiles)}`,
+    `- Tasks: ${countOf(tasks)}`,
+    `- Activities: ${countOf(activities)}`,
+  ].join("\n");
+}
+
 // ── Tool registration ────────────────────────────────────────────────
 
-export function registerContactTools(server: McpServer, client: PropstackClient): void {
+export function registerContactTools(
+  server: McpServer,
+  client: PropstackClient,
+  confirmations: ConfirmationStore | null = null,
+): void {
   // ── search_contacts ──────────────────────────────────────────────
 
   server.tool(
@@ -95,7 +131,10 @@ e.g. { marketing_channel: "Website" }.
 Data minimization (Art. 25 DSGVO): pass 'fields' with an array of contact
 field names to return only those fields per contact (e.g. ["first_name",
 "last_name", "email"]). Omit 'fields' to return the default set unchanged.
-Unknown field names produce an error listing the valid options.`,
+Unknown field names produce an error listing the valid options.
+
+Use format="compact" (one line per contact), "json" or "csv" to save
+tokens on large result sets.`,
     {
       q: z.string().optional()
         .describe("Fulltext search across name, email, address, phone"),
@@ -153,15 +192,16 @@ Unknown field names produce an error listing the valid options.`,
         .describe("Filter by custom field values. Keys are custom field names WITHOUT the cf_ prefix (use list_custom_fields to discover them); each becomes a cf_<name>=<value> query parameter. Example: { marketing_channel: \"Website\" }"),
       fields: z.array(z.string()).optional()
         .describe("Data minimization: return only these contact fields per result (e.g. [\"first_name\", \"last_name\", \"email\"]). Omit to return the default field set. Unknown field names produce an error."),
+      format: formatParam,
     },
     async (args) => {
       try {
         if (args.fields && args.fields.length > 0) {
           const fieldError = validateFields(args.fields, CONTACT_FIELDS, "contact");
-          if (fieldError) return textResult(fieldError);
+          if (fieldError) return errorText(fieldError);
         }
 
-        const { fields, custom_filters, ...apiArgs } = args;
+        const { fields, custom_filters, format, ...apiArgs } = args;
         const params = applyCustomFilters(
           apiArgs as Record<string, string | number | boolean | string[] | number[] | undefined>,
           custom_filters,
@@ -173,22 +213,33 @@ Unknown field names produce an error listing the valid options.`,
         const res = normalizeContactsResponse(raw);
 
         if (!res.data || res.data.length === 0) {
-          return textResult("No contacts found matching your criteria.");
+          return textResult("No contacts found matching your criteria.", { contacts: [], total: res.meta?.total_count ?? 0 });
         }
 
+        const total = res.meta?.total_count ?? null;
+
         const header = res.meta?.total_count !== undefined
           ? `Found ${res.meta.total_count} contacts (showing ${res.data.length}):\n\n`
           : `Found ${res.data.length} contacts:\n\n`;
 
         if (fields && fields.length > 0) {
-          const projected = res.data
-            .map((c) => renderProjectedRecord(c as unknown as Record<string, unknown>, fields, `**ID: ${c.id}**`))
-            .join("\n\n---\n\n");
-          return textResult(header + projected);
+          const contacts = res.data.map((c) => selectFields(toContact(c), c, fields));
+          const text = renderList(format, contacts, {
+            markdown: () => res.data
+              .map((c) => renderProjectedRecord(c as unknown as Record<string, unknown>, fields, `**ID: ${c.id}**`))
+              .join("\n\n---\n\n"),
+            compact: fields,
+          });
+          return textResult(header + text, { contacts, total });
         }
 
-        const formatted = res.data.map(formatContact).join("\n\n---\n\n");
-        return textResult(header + formatted);
+        const contacts = res.data.map(toContact);
+        const text = renderList(format, contacts, {
+          markdown: () => res.data.map(formatContact).join("\n\n---\n\n"),
+          title: "name",
+          compact: ["email", "phone", "status", "broker_name", "last_contact_at"],
+        });
+        return textResult(header + text, { contacts, total });
       } catch (err) {
         return errorResult("Contact", err);
       }
@@ -225,7 +276,7 @@ Use 'include' to load related data in one request.`,
           { params },
         );
 
-        return textResult(formatContact(contact));
+        return textResult(formatContact(contact), { contact: toContact(contact) });
       } catch (err) {
         return errorResult("Contact", err);
       }
@@ -302,7 +353,7 @@ Use get_contact_sources first to find valid source IDs.`,
           { body: { client: stripUndefined(args) } },
         );
 
-        return textResult(`Contact created successfully.\n\n${formatContact(contact)}`);
+        return textResult(`Contact created successfully.\n\n${formatContact(contact)}`, { contact: toContact(contact) });
       } catch (err) {
         return errorResult("Contact", err);
       }
@@ -376,7 +427,7 @@ Only provide the fields you want to change.`,
           { body: { client: stripUndefined(fields) } },
         );
 
-        return textResult(`Contact updated successfully.\n\n${formatContact(contact)}`);
+        return textResult(`Contact updated successfully.\n\n${formatContact(contact)}`, { contact: toContact(contact) });
       } catch (err) {
         return errorResult("Contact", err);
       }
@@ -394,15 +445,30 @@ The contact is moved to a 30-day recycle bin and can be restored.
 Use this tool for:
 - GDPR deletion requests (Art. 17 DSGVO)
 - Removing duplicate contacts
-- Cleaning up test data`,
+- Cleaning up test data
+
+If the server requires confirmation for deletions, the first call returns a
+preview (contact, linked deals/tasks counts) and a confirmation_token instead
+of deleting. Show the preview to the user and call again with the token only
+once they agree.`,
     {
       id: z.number()
         .describe("Contact ID to delete"),
+      confirmation_token: z.string().optional()
+        .describe("Token from a previous preview of this exact deletion. Only pass after the user confirmed."),
     },
     async (args) => {
       try {
+        const pending = await requireConfirmation(server, confirmations, {
+          tool: "delete_contact",
+          action: `delete_contact:${args.id}`,
+          token: args.confirmation_token,
+          preview: () => previewContactDeletion(client, args.id),
+        });
+        if (pending) return pending;
+
         await client.delete(`/contacts/${args.id}`);
-        return textResult(`Contact ${args.id} deleted (moved to recycle bin for 30 days).`);
+        return textResult(`Contact ${args.id} deleted (moved to recycle bin for 30 days).`, { deleted: true, id: args.id });
       } catch (err) {
         return errorResult("Contact", err);
       }
@@ -426,13 +492,15 @@ contacts with client_source_id.`,
         const sources = await client.get<PropstackContactSource[]>("/contact_sources");
 
         if (!sources || sources.length === 0) {
-          return textResult("No contact sources configured.");
+          return textResult("No contact sources configured.", { sources: [] });
         }
 
         const lines = sources.map(
           (s) => `- **${s.name}** (ID: ${s.id})`,
         );
-        return textResult(`Contact sources:\n\n${lines.join("\n")}`);
+        return textResult(`Contact sources:\n\n${lines.join("\n")}`, {
+          sources: sources.map((s) => ({ id: s.id, name: s.name })),
+        });
       } catch (err) {
         return errorResult("Contact", err);
       }
@@ -482,16 +550,16 @@ the caller is unknown and you should create a new contact.`,
         }
 
         if (contacts.length === 0) {
-          return textResult(`No contact found for phone number ${args.phone_number}. This is an unknown caller.`);
+          return textResult(`No contact found for phone number ${args.phone_number}. This is an unknown caller.`, { contacts: [] });
         }
 
         if (contacts.length === 1) {
-          return textResult(`Caller identified:\n\n${formatContact(contacts[0]!)}`);
+          return textResult(`Caller identified:\n\n${formatContact(contacts[0]!)}`, { contacts: contacts.map(toContact) });
         }
 
         const header = `Found ${contacts.length} contacts matching ${args.phone_number}:\n\n`;
         const formatted = contacts.map(formatContact).join("\n\n---\n\n");
-        return textResult(header + formatted);
+        return textResult(header + formatted, { contacts: contacts.map(toContact) });
       } catch (err) {
         return errorResult("Contact", err);
       }
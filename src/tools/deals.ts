@@ -2,7 +2,8 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackDeal, PropstackDealPipeline, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt, fmtPrice, stripUndefined, validateFields, renderProjectedRecord, DEAL_FIELDS } from "./helpers.js";
+import { textResult, errorText, errorResult, fmt, fmtPrice, stripUndefined, validateFields, renderProjectedRecord, renderList, formatParam, DEAL_FIELDS } from "./helpers.js";
+import { selectFields, toDeal } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -142,7 +143,10 @@ Common queries:
 Data minimization (Art. 25 DSGVO): pass 'fields' with an array of deal field
 names to return only those fields per deal (e.g. ["id", "deal_stage_id",
 "sold_price"]). Omit 'fields' to return the default set unchanged. Unknown
-field names produce an error listing the valid options.`,
+field names produce an error listing the valid options.
+
+Use format="compact" (one line per deal), "json" or "csv" to save tokens
+on large result sets.`,
     {
       client_id: z.number().optional()
         .describe("Filter by contact ID"),
@@ -196,15 +200,16 @@ field names produce an error listing the valid options.`,
         .describe("Results per page (default: 25)"),
       fields: z.array(z.string()).optional()
         .describe("Data minimization: return only these deal fields per result (e.g. [\"id\", \"deal_stage_id\", \"sold_price\"]). Omit to return the default field set. Unknown field names produce an error."),
+      format: formatParam,
     },
     async (args) => {
       try {
         if (args.fields && args.fields.length > 0) {
           const fieldError = validateFields(args.fields, DEAL_FIELDS, "deal");
-          if (fieldError) return textResult(fieldError);
+          if (fieldError) return errorText(fieldError);
         }
 
-        const { fields, ...apiArgs } = args;
+        const { fields, format, ...apiArgs } = args;
         const [res, pipelines] = await Promise.all([
           client.get<PropstackPaginatedResponse<PropstackDeal>>(
             "/client_properties",
@@ -214,30 +219,39 @@ field names produce an error listing the valid options.`,
         ]);
 
         if (!res.data || res.data.length === 0) {
-          return textResult("No deals found matching your criteria.");
+          return textResult("No deals found matching your criteria.", { deals: [], total: res.meta?.total_count ?? 0 });
         }
 
         // Enrich deals with stage/pipeline names from lookup
         enrichDealsWithStageNames(res.data, pipelines);
+        const total = res.meta?.total_count ?? null;
 
         const header = res.meta?.total_count !== undefined
           ? `Found ${res.meta.total_count} deals (showing ${res.data.length}):\n\n`
           : `Found ${res.data.length} deals:\n\n`;
 
         if (fields && fields.length > 0) {
-          const projected = res.data
-            .map((d) => renderProjectedRecord(d as unknown as Record<string, unknown>, fields, `**ID: ${d.id}**`))
-            .join("\n\n---\n\n");
-          return textResult(header + projected);
+          const deals = res.data.map((d) => selectFields(toDeal(d), d, fields));
+          const text = renderList(format, deals, {
+            markdown: () => res.data
+              .map((d) => renderProjectedRecord(d as unknown as Record<string, unknown>, fields, `**ID: ${d.id}**`))
+              .join("\n\n---\n\n"),
+            compact: fields,
+          });
+          return textResult(header + text, { deals, total });
         }
 
-        const table = [
-          "| ID | Contact | Property | Stage | Feeling | Created |",
-          "|---|---|---|---|---|---|",
-          ...res.data.map(formatDealRow),
-        ].join("\n");
-
-        return textResult(header + table);
+        const deals = res.data.map(toDeal);
+        const text = renderList(format, deals, {
+          markdown: () => [
+            "| ID | Contact | Property | Stage | Feeling | Created |",
+            "|---|---|---|---|---|---|",
+            ...res.data.map(formatDealRow),
+          ].join("\n"),
+          title: "client_name",
+          compact: ["property_title", "deal_stage", "feeling", "sold_price", "created_at"],
+        });
+        return textResult(header + text, { deals, total });
       } catch (err) {
         return errorResult("Deal", err);
       }
@@ -292,7 +306,7 @@ get_pipeline to find valid pipeline and stage IDs.`,
         ]);
 
         enrichDealsWithStageNames([deal], pipelines);
-        return textResult(`Deal created successfully.\n\n${formatDeal(deal)}`);
+        return textResult(`Deal created successfully.\n\n${formatDeal(deal)}`, { deal: toDeal(deal) });
       } catch (err) {
         return errorResult("Deal", err);
       }
@@ -352,7 +366,7 @@ Only provide the fields you want to change.`,
         ]);
 
         enrichDealsWithStageNames([deal], pipelines);
-        return textResult(`Deal updated successfully.\n\n${formatDeal(deal)}`);
+        return textResult(`Deal updated successfully.\n\n${formatDeal(deal)}`, { deal: toDeal(deal) });
       } catch (err) {
         return errorResult("Deal", err);
       }
@@ -2,7 +2,8 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackDocument, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt, stripUndefined } from "./helpers.js";
+import { textResult, errorResult, fmt, stripUndefined, renderList, formatParam } from "./helpers.js";
+import { toDocument } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -57,25 +58,32 @@ Filter by exactly one of property_id, project_id, or client_id.`,
         .describe("Page number (default: 1)"),
       per_page: z.number().optional()
         .describe("Results per page (default: 25)"),
+      format: formatParam,
     },
     async (args) => {
       try {
+        const { format, ...params } = args;
         const raw = await client.get<{ documents: PropstackDocument[]; meta?: { total_count: number } }>(
           "/documents",
-          { params: args as Record<string, string | number | boolean | undefined> },
+          { params: params as Record<string, string | number | boolean | undefined> },
         );
         const docs = raw.documents ?? [];
 
         if (docs.length === 0) {
-          return textResult("No documents found.");
+          return textResult("No documents found.", { documents: [], total: raw.meta?.total_count ?? 0 });
         }
 
         const header = raw.meta?.total_count !== undefined
           ? `Found ${raw.meta.total_count} documents (showing ${docs.length}):\n\n`
           : `Found ${docs.length} documents:\n\n`;
 
-        const formatted = docs.map(formatDocument).join("\n\n---\n\n");
-        return textResult(header + formatted);
+        const documents = docs.map(toDocument);
+        const text = renderList(format, documents, {
+          markdown: () => docs.map(formatDocument).join("\n\n---\n\n"),
+          title: "title",
+          compact: ["name", "is_floorplan", "is_exposee", "is_private", "created_at"],
+        });
+        return textResult(header + text, { documents, total: raw.meta?.total_count ?? null });
       } catch (err) {
         return errorResult("Document", err);
       }
@@ -126,7 +134,7 @@ Use the boolean flags to classify the document:
           { body: { document: stripUndefined(args) } },
         );
 
-        return textResult(`Document uploaded successfully.\n\n${formatDocument(document)}`);
+        return textResult(`Document uploaded successfully.\n\n${formatDocument(document)}`, { document: toDocument(document) });
       } catch (err) {
         return errorResult("Document", err);
       }
@@ -3,6 +3,7 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackEmail } from "../types/propstack.js";
 import { textResult, errorResult, fmt, stripUndefined } from "./helpers.js";
+import { toEmail } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -83,7 +84,7 @@ Important:
           { body: { message: stripUndefined(args) } },
         );
 
-        return textResult(`Email sent successfully.\n\n${formatEmail(email)}`);
+        return textResult(`Email sent successfully.\n\n${formatEmail(email)}`, { email: toEmail(email) });
       } catch (err) {
         return errorResult("Email", err);
       }
@@ -127,7 +128,7 @@ Only provide the fields you want to change.`,
           { body: { message: stripUndefined(fields) } },
         );
 
-        return textResult(`Email updated successfully.\n\n${formatEmail(email)}`);
+        return textResult(`Email updated successfully.\n\n${formatEmail(email)}`, { email: toEmail(email) });
       } catch (err) {
         return errorResult("Email", err);
       }
@@ -0,0 +1,913 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PropstackClient } from "../propstack-client.js";
+import type { PropstackV2Client } from "../propstack-v2-client.js";
+import type { Pagination } from "../pagination.js";
+import type { AuditLog, ErasedRecord } from "../audit-log.js";
+import type { IdempotencyStore } from "../idempotency.js";
+import type {
+  PropstackActivity,
+  PropstackBroker,
+  PropstackContact,
+  PropstackContactSource,
+  PropstackDeal,
+  PropstackDocument,
+  PropstackEvent,
+  PropstackProperty,
+  PropstackSearchProfile,
+  PropstackTask,
+} from "../types/propstack.js";
+import { textResult, errorText, errorResult, formatError, fmt, fmtPrice, progressReporter, renderFieldValue } from "./helpers.js";
+import { ConfirmationStore, requireConfirmation } from "./confirmation.js";
+import { GDPR_LABELS } from "./contacts.js";
+import { enrichDealsWithStageNames, fetchPipelines } from "./deals.js";
+
+// ── GDPR (DSGVO) tools ───────────────────────────────────────────────
+//
+// Tools for the data protection officer rather than the broker. Scans run
+// on the server and only counts and record IDs reach the model; names and
+// contact details never do. Exports go to files in the configured export
+// directory, not into the conversation.
+
+/** Contact fields a consent scan reads; V2 enforces this list server-side, V1 may ignore it. */
+const CONSENT_FIELDS = [
+  "id",
+  "gdpr_status",
+  "accept_contact",
+  "newsletter",
+  "keep_data_till",
+  "cp_delete_request_date",
+  "broker_id",
+  "client_source_id",
+] as const;
+
+/** Contacts scanned through V1 when API V2 is not available. */
+const V1_SCAN_LIMIT = 5000;
+
+/** Consent counts for one broker or contact source. */
+interface ConsentGroup {
+  key: string;
+  contacts: number;
+  consented: number;
+  withdrawn: number;
+  no_consent: number;
+  past_retention: number;
+}
+
+/** Records a DPO has to act on: a count and the first IDs. */
+interface ProblemSample {
+  count: number;
+  ids: number[];
+}
+
+function gdprLabel(status: number | null | undefined): string {
+  return GDPR_LABELS[status ?? 0] ?? `Status ${status}`;
+}
+
+/** Answer counts for a yes/no contact flag. */
+function flagCounts(): { yes: number; no: number; unset: number } {
+  return { yes: 0, no: 0, unset: 0 };
+}
+
+// ── Art. 15 export ───────────────────────────────────────────────────
+
+/** Everything linked to one contact, as written to the JSON bundle. */
+interface ContactExport {
+  exported_at: string;
+  contact: PropstackContact;
+  search_profiles: PropstackSearchProfile[] | null;
+  deals: PropstackDeal[] | null;
+  activities: PropstackActivity[] | null;
+  documents: PropstackDocument[] | null;
+  favorites: PropstackProperty[] | null;
+  /** Sections that could not be loaded and must be added by hand. */
+  failed: string[];
+  /** Sections cut short by the paging cap. */
+  incomplete: string[];
+}
+
+type ExportSection = "search_profiles" | "deals" | "activities" | "documents" | "favorites";
+
+const SECTION_TITLES: Record<ExportSection, string> = {
+  search_profiles: "Suchprofile",
+  deals: "Vorgänge (Objektanfragen)",
+  activities: "Aktivitäten und Notizen",
+  documents: "Dokumente",
+  favorites: "Gemerkte Objekte",
+};
+
+/** Read every page of a listing, remembering whether the cap cut it short. */
+async function collectAll<T>(pages: Pagination<T>, section: ExportSection, incomplete: string[]): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of pages) items.push(item);
+  if (pages.capped) incomplete.push(section);
+  return items;
+}
+
+/** Contact fields the summary shows as plain values (nested objects are named separately). */
+function contactFacts(c: PropstackContact): string[] {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(c)) {
+    if (value === null || value === undefined || value === "" || typeof value === "object") continue;
+    lines.push(`- ${key}: ${key === "gdpr_status" ? gdprLabel(c.gdpr_status) : renderFieldValue(value)}`);
+  }
+  if (c.broker?.name) lines.push(`- Zuständiger Makler: ${c.broker.name}`);
+  if (c.client_source?.name) lines.push(`- Quelle: ${c.client_source.name}`);
+  const status = c.status?.name ?? c.client_status?.name;
+  if (status) lines.push(`- Kontaktstatus: ${status}`);
+  if (c.groups?.length) lines.push(`- Merkmale: ${c.groups.map((g) => fmt(g.name, `#${g.id}`)).join(", ")}`);
+  for (const [key, value] of Object.entries(c.custom_fields ?? {})) {
+    const rendered = renderFieldValue(value);
+    if (rendered !== "none") lines.push(`- ${key}: ${rendered}`);
+  }
+  if (c.children?.length) lines.push(`- Unterkontakte: ${c.children.map((child) => `#${child.id}`).join(", ")}`);
+  if (c.owned_properties?.length) {
+    lines.push(`- Eigentümer von: ${c.owned_properties.map((p) => `${fmt(p.title, "Objekt")} (#${p.id})`).join(", ")}`);
+  }
+  return lines;
+}
+
+function sectionLines(bundle: ContactExport, section: ExportSection): string[] {
+  switch (section) {
+    case "search_profiles":
+      return (bundle.search_profiles ?? []).map((sp) => {
+        const parts = [
+          sp.marketing_type,
+          sp.cities?.length ? sp.cities.join(", ") : null,
+          sp.price !== null || sp.price_to !== null ? `Kaufpreis ${fmtPrice(sp.price)} – ${fmtPrice(sp.price_to)}` : null,
+          sp.base_rent !== null || sp.base_rent_to !== null ? `Miete ${fmtPrice(sp.base_rent)} – ${fmtPrice(sp.base_rent_to)}` : null,
+        ].filter(Boolean);
+        return `- Suchprofil #${sp.id}${sp.active ? "" : " (inaktiv)"}${parts.length ? `: ${parts.join(" · ")}` : ""}`;
+      });
+    case "deals":
+      return (bundle.deals ?? []).map((d) => {
+        const property = d.property ? fmt(d.property.title, `Objekt #${d.property_id}`) : `Objekt #${d.property_id}`;
+        const stage = d.deal_stage?.name ? ` · Phase: ${d.deal_stage.name}` : "";
+        return `- ${property}${stage} · seit ${fmt(d.created_at, "unbekannt")}`;
+      });
+    case "activities":
+      return (bundle.activities ?? []).map((a) =>
+        `- ${fmt(a.created_at, "")} · ${fmt(a.conversation_type ?? a.type, "Aktivität")} · ${fmt(a.title, "ohne Titel")}`);
+    case "documents":
+      return (bundle.documents ?? []).map((d) => `- ${fmt(d.title ?? d.name, `Dokument #${d.id}`)}`);
+    case "favorites":
+      return (bundle.favorites ?? []).map((p) => `- ${fmt(p.title, "Objekt")} (#${p.id})`);
+  }
+}
+
+/** Human-readable summary for the data subject, in German. */
+function renderExportSummary(bundle: ContactExport, jsonFile: string): string {
+  const c = bundle.contact;
+  const name = fmt(c.name) !== "none" ? fmt(c.name) : [fmt(c.first_name, ""), fmt(c.last_name, "")].filter(Boolean).join(" ");
+  const lines: string[] = [
+    "# Auskunft nach Art. 15 DSGVO",
+    "",
+    `Betroffene Person: ${name || "unbekannt"} (Kontakt-ID ${c.id})`,
+    `Stand: ${bundle.exported_at}`,
+    "",
+    "## Gespeicherte Stammdaten",
+    "",
+    ...contactFacts(c),
+  ];
+  for (const section of Object.keys(SECTION_TITLES) as ExportSection[]) {
+    lines.push("", `## ${SECTION_TITLES[section]}`, "");
+    if (bundle.failed.includes(section)) {
+      lines.push("Konnte nicht automatisch abgerufen werden; bitte manuell ergänzen.");
+      continue;
+    }
+    const entries = sectionLines(bundle, section);
+    lines.push(...(entries.length ? entries : ["Keine."]));
+    if (bundle.incomplete.includes(section)) lines.push("", "Gekürzt: nur die ersten Einträge wurden abgerufen; bitte manuell ergänzen.");
+  }
+  lines.push("", "---", "", `Alle Daten in maschinenlesbarer Form enthält die Datei ${jsonFile}.`);
+  return lines.join("\n") + "\n";
+}
+
+// ── Art. 17 erasure ──────────────────────────────────────────────────
+
+/**
+ * Linked records erase_contact can delete, in deletion order: records that
+ * hang off the contact first, the relationships and deals that tie it to
+ * properties last, then the contact itself.
+ */
+const DEPENDENTS = [
+  { type: "search_profile", label: "Search profiles", path: (id: number) => `/saved_queries/${id}` },
+  { type: "task", label: "Tasks and notes", path: (id: number) => `/tasks/${id}` },
+  { type: "event", label: "Events", path: (id: number) => `/tasks/${id}` },
+  { type: "document", label: "Documents", path: (id: number) => `/documents/${id}` },
+  { type: "ownership", label: "Ownerships", path: (id: number) => `/ownerships/${id}` },
+  { type: "partnership", label: "Partnerships", path: (id: number) => `/partnerships/${id}` },
+  { type: "deal", label: "Deals", path: (id: number) => `/client_properties/${id}` },
+] as const;
+
+type DependentType = (typeof DEPENDENTS)[number]["type"];
+
+/** Contact fields overwritten when a contact is anonymized instead of deleted. */
+const ANONYMIZED_CONTACT = {
+  salutation: null,
+  first_name: null,
+  last_name: "Anonymisiert",
+  email: null,
+  phone: null,
+  home_cell: null,
+  home_phone: null,
+  office_phone: null,
+  fax: null,
+  company: null,
+  position: null,
+  description: null,
+  warning_notice: null,
+  home_street: null,
+  home_house_number: null,
+  home_zip_code: null,
+  home_city: null,
+  home_country: null,
+  office_street: null,
+  office_house_number: null,
+  office_zip_code: null,
+  office_city: null,
+  office_country: null,
+  newsletter: false,
+  accept_contact: false,
+};
+
+/** A task or event that also belongs to other contacts, properties or projects. */
+interface SharedRecord {
+  type: "task" | "event";
+  id: number;
+  /** The record's contacts other than the one being erased. */
+  otherClients: number[];
+}
+
+/** A record a lookup for the contact returned that belongs to someone else. */
+interface ForeignRecord {
+  type: DependentType;
+  id: number;
+  /** The record's own contact; null if it names none. */
+  clientId: number | null;
+}
+
+/** Everything linked to a contact that an erasure has to account for. */
+interface LinkedRecords {
+  contact: PropstackContact;
+  /** Records only this contact uses; shared tasks and events are in `shared`. */
+  ids: Record<DependentType, number[]>;
+  /** Shared tasks and events: the contact is unlinked, the record kept. */
+  shared: SharedRecord[];
+  /**
+   * Records returned for the contact whose own client_id (or client_ids) is
+   * not the contact, e.g. because the API ignored a filter. Never touched.
+   */
+  foreign: ForeignRecord[];
+  /** Emails and other messages; the API cannot delete them. */
+  messages: number;
+  subContacts: number[];
+  /** Lookups that failed, so their records are unknown. */
+  failed: string[];
+}
+
+async function itemsOf<T>(pages: Pagination<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of pages) items.push(item);
+  return items;
+}
+
+async function findLinkedRecords(client: PropstackClient, id: number, signal: AbortSignal): Promise<LinkedRecords> {
+  const contact = await client.get<PropstackContact>(`/contacts/${id}`, {
+    params: { include: "children,relationships" },
+    signal,
+  });
+  const [searchProfiles, activities, events, documents, deals] = await Promise.allSettled([
+    itemsOf(client.paginate<PropstackSearchProfile>("/saved_queries", { params: { client: id }, signal })),
+    itemsOf(client.paginate<PropstackActivity>("/activities", { params: { client_id: id }, pageSizeParam: "per", signal })),
+    itemsOf(client.paginate<PropstackEvent>("/events", { params: { client: id }, signal })),
+    itemsOf(client.paginate<PropstackDocument>("/documents", { params: { client_id: id }, signal })),
+    itemsOf(client.paginate<PropstackDeal>("/client_properties", { params: { client_id: id }, signal })),
+  ]);
+
+  const failed: string[] = [];
+  const settled = <T>(label: string, res: PromiseSettledResult<T>, fallback: T): T => {
+    if (res.status === "fulfilled") return res.value;
+    failed.push(label);
+    return fallback;
+  };
+
+  // Only records that name this contact as their own are erased; anything
+  // else a lookup returned is reported and left alone.
+  const foreign: ForeignRecord[] = [];
+  const owned = <T extends { id: number; client_id?: number | null }>(type: DependentType, records: readonly T[]): number[] =>
+    records.filter((r) => {
+      if (r.client_id === id) return true;
+      foreign.push({ type, id: r.id, clientId: r.client_id ?? null });
+      return false;
+    }).map((r) => r.id);
+
+  const feed = settled("activities", activities, []);
+  const eventIds = new Set(settled("events", events, []).map((e) => e.id));
+  for (const a of feed) if (a.appointment_id) eventIds.add(a.appointment_id);
+  const relationships = contact.relationships ?? [];
+
+  // A task or event can also belong to other contacts, properties or
+  // projects. Deleting it would erase their history too, so those are only
+  // unlinked from this contact.
+  const taskIds = [...new Set(feed.flatMap((a) => [a.todo_id, a.note_id]).filter((v): v is number => typeof v === "number"))];
+  const candidates = [
+    ...taskIds.map((taskId) => ({ type: "task" as const, id: taskId })),
+    ...[...eventIds].map((eventId) => ({ type: "event" as const, id: eventId })),
+  ];
+  const details = await Promise.allSettled(candidates.map((c) => client.get<PropstackTask>(`/tasks/${c.id}`, { signal })));
+  const own: Record<"task" | "event", number[]> = { task: [], event: [] };
+  const shared: SharedRecord[] = [];
+  candidates.forEach((c, i) => {
+    const task = settled(`${c.type} ${c.id}`, details[i]!, null);
+    if (!task) return;
+    if (!task.client_ids?.includes(id)) {
+      foreign.push({ type: c.type, id: c.id, clientId: task.client_ids?.[0] ?? null });
+      return;
+    }
+    const otherClients = task.client_ids.filter((clientId) => clientId !== id);
+    if (otherClients.length > 0 || (task.property_ids?.length ?? 0) > 0 || (task.project_ids?.length ?? 0) > 0) {
+      shared.push({ type: c.type, id: c.id, otherClients });
+    } else {
+      own[c.type].push(c.id);
+    }
+  });
+
+  return {
+    contact,
+    ids: {
+      search_profile: owned("search_profile", settled("search profiles", searchProfiles, [])),
+      task: own.task,
+      event: own.event,
+      document: owned("document", settled("documents", documents, [])),
+      ownership: owned("ownership", relationships.filter((r) => r.internal_name === "owner")),
+      partnership: owned("partnership", relationships.filter((r) => r.internal_name !== "owner")),
+      deal: owned("deal", settled("deals", deals, [])),
+    },
+    shared,
+    foreign,
+    messages: feed.filter((a) => a.message_id).length,
+    subContacts: (contact.children ?? []).map((c) => c.id),
+    failed,
+  };
+}
+
+/**
+ * Digest of the records an erasure would touch. The confirmation token is
+ * bound to it, so a confirmed erasure acts on exactly the reported records.
+ */
+function linkedFingerprint(linked: LinkedRecords): string {
+  const sorted = (ids: readonly number[]) => [...ids].sort((a, b) => a - b);
+  const state = {
+    ids: DEPENDENTS.map((d) => sorted(linked.ids[d.type])),
+    shared: [...linked.shared].sort((a, b) => a.id - b.id).map((s) => [s.type, s.id, sorted(s.otherClients)]),
+    failed: [...linked.failed].sort(),
+  };
+  return createHash("sha256").update(JSON.stringify(state)).digest("hex").slice(0, 16);
+}
+
+function idList(ids: readonly number[]): string {
+  if (ids.length === 0) return "none";
+  return ids.length > 20 ? `${ids.length} (IDs ${ids.slice(0, 20).join(", ")}, …)` : `${ids.length} (IDs ${ids.join(", ")})`;
+}
+
+/** Lines describing the local copies an erasure leaves in place. */
+function localCopyLines(copies: readonly string[]): string[] {
+  return [
+    "",
+    "Local copies on this server, not erased here — review them under your retention rules:",
+    ...copies.map((c) => `- ${c}`),
+  ];
+}
+
+/** The pre-deletion impact report, including what the chosen options will do. */
+function renderImpactReport(
+  linked: LinkedRecords,
+  method: "delete" | "anonymize",
+  dependents: "keep" | "delete",
+  localCopies: readonly string[],
+): string {
+  const c = linked.contact;
+  const name = fmt(c.name) !== "none" ? fmt(c.name) : [fmt(c.first_name, ""), fmt(c.last_name, "")].filter(Boolean).join(" ");
+  const lines = [
+    `Erasure impact for contact #${c.id} (${name || "unnamed"}):`,
+    "",
+    ...DEPENDENTS.map((d) => `- ${d.label}: ${idList(linked.ids[d.type])}`),
+    `- Shared tasks and events (also linked to other contacts, properties or projects): ${idList(linked.shared.map((s) => s.id))}`,
+    `- Messages (emails, letters): ${linked.messages}`,
+    `- Sub-contacts: ${idList(linked.subContacts)}`,
+  ];
+  if (linked.foreign.length > 0) {
+    lines.push(
+      "",
+      `**Not this contact's:** Propstack also returned ${linked.foreign.map((f) => `${f.type} ${f.id} (contact ${f.clientId ?? "none"})`).join(", ")}. ` +
+        "These records belong to other contacts or to none and are never touched.",
+    );
+  }
+  if (linked.failed.length > 0) {
+    lines.push("", `**Could not check:** ${linked.failed.join(", ")}. Deleting linked records is refused until these load.`);
+  }
+  lines.push(
+    "",
+    "Plan:",
+    dependents === "delete"
+      ? `1. Delete the linked records above, in this order: ${DEPENDENTS.map((d) => d.label.toLowerCase()).join(", ")}. ` +
+        "Shared tasks and events are not deleted; the contact is only removed from them, and their text is kept."
+      : "1. Keep the linked records; they stay attached to the erased contact.",
+    method === "delete"
+      ? "2. Delete the contact (Propstack keeps it in the recycle bin for 30 days)."
+      : "2. Anonymize the contact: overwrite name, contact details, addresses and notes, and clear newsletter and contact consent. Custom fields are not changed.",
+    "3. Record an erasure receipt in the audit log.",
+    "",
+    "Messages and sub-contacts are never erased here. Remove messages in Propstack and erase sub-contacts separately.",
+    ...localCopyLines(localCopies),
+  );
+  return lines.join("\n");
+}
+
+// ── Tool registration ────────────────────────────────────────────────
+
+export interface GdprToolOptions {
+  /** API V2 client for full-account scans; V1 paging is used without it. */
+  v2?: PropstackV2Client | null;
+  /** Directory for export_contact_data; the tool is offered only when set. */
+  exportDir?: string | null;
+  /** Where erase_contact records its receipts; the tool is offered only when set. */
+  auditLog?: AuditLog | null;
+  /** The server's confirmation store, if confirmation mode is on. */
+  confirmations?: ConfirmationStore | null;
+  /** The idempotency store, which erase_contact reports as a local copy. */
+  idempotency?: IdempotencyStore | null;
+}
+
+export function registerGdprTools(server: McpServer, client: PropstackClient, options: GdprToolOptions = {}): void {
+  const { v2 = null, exportDir = null, auditLog = null, idempotency = null } = options;
+  // erase_contact always shows its impact report first, even when the
+  // server-wide confirmation mode is off.
+  const confirmations = options.confirmations ?? new ConfirmationStore();
+
+  /**
+   * Where this server keeps copies of a contact's data outside Propstack.
+   * Once the contact is `erased`, its pseudonyms are already gone.
+   */
+  const localCopies = (id: number, erased = false): string[] => {
+    const copies: string[] = [];
+    const pseudonymMap = client.pseudonymizer?.path;
+    if (pseudonymMap && !erased) {
+      copies.push(`Pseudonym map ${pseudonymMap}: the contact's real name and contact details; removed once the erasure completes`);
+    }
+    if (auditLog) copies.push(`Audit log ${auditLog.path}: arguments of earlier tool calls about the contact (append-only)`);
+    if (idempotency) copies.push(`Idempotency store ${idempotency.path ?? "(in memory)"}: results of create calls, until they expire`);
+    if (exportDir) {
+      let files: string[] = [];
+      try {
+        files = readdirSync(exportDir).filter((f) => f.startsWith(`contact-${id}-`));
+      } catch {
+        // No exports yet.
+      }
+      if (files.length > 0) copies.push(`Art. 15 exports in ${exportDir}: ${files.join(", ")}`);
+    }
+    return copies;
+  };
+
+  // ── gdpr_consent_report ─────────────────────────────────────────
+
+  server.tool(
+    "gdpr_consent_report",
+    `GDPR consent posture across all contacts, for the data protection officer.
+
+Scans every contact on the server, reading only consent fields (GDPR status,
+accept_contact, newsletter, retention date, deletion request, broker and
+source), and returns:
+- Contacts per GDPR status (Keine Angabe, Ignoriert, Zugestimmt, Widerrufen)
+- How many have accept_contact and newsletter set
+- How many are past their retention date (keep_data_till) or asked for deletion
+- Consent counts per broker and per contact source
+- A sample of contact IDs per problem (no names or contact details)
+
+Uses API V2 to scan all contacts when available; otherwise reads up to 5000
+via V1 and says so if capped. V1 is asked for the consent fields too, but may
+return full contact records; the report then says so (minimized: false).
+Either way only the consent fields are counted.
+
+Reports progress per page of contacts and stops when the call is cancelled.`,
+    {
+      sample_size: z.number().int().min(0).max(50).optional()
+        .describe("Contact IDs to list per problem (default: 10)"),
+    },
+    async (args, extra) => {
+      const paging = { signal: extra.signal, onPage: progressReporter(extra, "contacts") };
+      const sampleSize = args.sample_size ?? 10;
+      try {
+        // Names for broker and source IDs; without them groups show the ID.
+        const [brokersRes, sourcesRes] = await Promise.allSettled([
+          client.get<PropstackBroker[]>("/brokers"),
+          client.get<PropstackContactSource[]>("/contact_sources"),
+        ]);
+        const brokerNames = new Map<number, string>();
+        if (brokersRes.status === "fulfilled") {
+          for (const b of brokersRes.value) brokerNames.set(b.id, fmt(b.name, `Broker #${b.id}`));
+        }
+        const sourceNames = new Map<number, string>();
+        if (sourcesRes.status === "fulfilled") {
+          for (const s of sourcesRes.value) sourceNames.set(s.id, fmt(s.name, `Source #${s.id}`));
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        let total = 0;
+        const byStatus = new Map<string, number>(GDPR_LABELS.map((label) => [label, 0]));
+        const acceptContact = flagCounts();
+        const newsletter = flagCounts();
+        const byBroker = new Map<string, ConsentGroup>();
+        const bySource = new Map<string, ConsentGroup>();
+        const problems: Record<"withdrawn_but_contactable" | "past_retention" | "deletion_requested", ProblemSample> = {
+          withdrawn_but_contactable: { count: 0, ids: [] },
+          past_retention: { count: 0, ids: [] },
+          deletion_requested: { count: 0, ids: [] },
+        };
+
+        const flag = (counts: ReturnType<typeof flagCounts>, value: boolean | null | undefined) => {
+          if (value === true) counts.yes++;
+          else if (value === false) counts.no++;
+          else counts.unset++;
+        };
+        const flagProblem = (problem: keyof typeof problems, id: number) => {
+          problems[problem].count++;
+          if (problems[problem].ids.length < sampleSize) problems[problem].ids.push(id);
+        };
+
+        const add = (c: PropstackContact): void => {
+          total++;
+          const status = gdprLabel(c.gdpr_status);
+          byStatus.set(status, (byStatus.get(status) ?? 0) + 1);
+          flag(acceptContact, c.accept_contact);
+          flag(newsletter, c.newsletter);
+
+          const withdrawn = c.gdpr_status === 3;
+          const pastRetention = !!c.keep_data_till && c.keep_data_till.slice(0, 10) < today;
+          if (withdrawn && (c.accept_contact || c.newsletter)) flagProblem("withdrawn_but_contactable", c.id);
+          if (pastRetention) flagProblem("past_retention", c.id);
+          if (c.cp_delete_request_date) flagProblem("deletion_requested", c.id);
+
+          const brokerId = c.broker?.id ?? c.broker_id;
+          const sourceId = c.client_source?.id ?? c.client_source_id;
+          const groups: [Map<string, ConsentGroup>, string][] = [
+            [byBroker, brokerId ? (brokerNames.get(brokerId) ?? `Broker #${brokerId}`) : "Unassigned"],
+            [bySource, sourceId ? (sourceNames.get(sourceId) ?? `Source #${sourceId}`) : "No source"],
+          ];
+          for (const [map, key] of groups) {
+            const group = map.get(key) ?? { key, contacts: 0, consented: 0, withdrawn: 0, no_consent: 0, past_retention: 0 };
+            group.contacts++;
+            if (c.gdpr_status === 2) group.consented++;
+            else if (withdrawn) group.withdrawn++;
+            else group.no_consent++;
+            if (pastRetention) group.past_retention++;
+            map.set(key, group);
+          }
+        };
+
+        let capped = false;
+        let minimized = true;
+        const warnings: string[] = [];
+        const fields = CONSENT_FIELDS.join(",");
+        if (v2 && (await v2.available())) {
+          const params = { fields, with_total: true };
+          for await (const c of v2.scrollAll<PropstackContact>("/clients/scroll", params, paging)) add(c);
+        } else {
+          const consentFields = new Set<string>(CONSENT_FIELDS);
+          const pages = client.paginate<PropstackContact>("/contacts", { params: { with_meta: 1, fields }, maxItems: V1_SCAN_LIMIT, ...paging });
+          for await (const c of pages) {
+            if (minimized && Object.keys(c).some((key) => !consentFields.has(key))) minimized = false;
+            add(c);
+          }
+          capped = pages.capped;
+          if (capped) {
+            warnings.push(`Report capped at ${pages.maxItems} contacts (${pages.total ?? "more"} total). Configure API V2 access to cover all contacts.`);
+          }
+          if (!minimized) {
+            warnings.push("API V1 ignored the field list and returned full contact records. Only the consent fields were counted and no other data is in this report, but the server read full records; configure API V2 access for data minimization.");
+          }
+        }
+
+        const percent = (n: number) => (total ? Math.round((n / total) * 1000) / 10 : 0);
+        const sorted = (groups: Map<string, ConsentGroup>) => [...groups.values()].sort((a, b) => b.contacts - a.contacts);
+        const problemLabels: Record<keyof typeof problems, string> = {
+          withdrawn_but_contactable: "Consent withdrawn, but accept_contact or newsletter still set",
+          past_retention: "Past retention date (keep_data_till)",
+          deletion_requested: "Deletion requested via customer portal",
+        };
+
+        const sections: string[] = [
+          [
+            "# GDPR Consent Report",
+            "",
+            `Contacts: ${total}`,
+            ...[...byStatus].map(([label, n]) => `${label}: ${n} (${percent(n)}%)`),
+            `accept_contact: ${acceptContact.yes} yes, ${acceptContact.no} no, ${acceptContact.unset} not set`,
+            `newsletter: ${newsletter.yes} yes, ${newsletter.no} no, ${newsletter.unset} not set`,
+          ].join("\n"),
+          [
+            "## Needs Attention",
+            "",
+            ...Object.entries(problems).map(([problem, { count, ids }]) =>
+              `- ${problemLabels[problem as keyof typeof problems]}: ${count}` +
+              (ids.length > 0 ? ` (IDs: ${ids.join(", ")}${count > ids.length ? ", …" : ""})` : "")),
+          ].join("\n"),
+        ];
+        for (const [heading, groups] of [["Broker", byBroker], ["Source", bySource]] as const) {
+          const rows = sorted(groups);
+          if (rows.length === 0) continue;
+          sections.push([
+            `## By ${heading}`,
+            "",
+            `| ${heading} | Contacts | Zugestimmt | Widerrufen | No consent | Past retention |`,
+            "|---|---|---|---|---|---|",
+            ...rows.map((g) => `| ${g.key} | ${g.contacts} | ${g.consented} | ${g.withdrawn} | ${g.no_consent} | ${g.past_retention} |`),
+          ].join("\n"));
+        }
+        if (warnings.length > 0) {
+          sections.push(`\n**Note:** ${warnings.join(" ")}`);
+        }
+
+        return textResult(sections.join("\n\n---\n\n"), {
+          total_contacts: total,
+          by_gdpr_status: [...byStatus].map(([status, contacts]) => ({ status, contacts })),
+          accept_contact: acceptContact,
+          newsletter,
+          problems,
+          by_broker: sorted(byBroker),
+          by_source: sorted(bySource),
+          capped,
+          minimized,
+        });
+      } catch (err) {
+        return errorResult("GDPR consent report", err);
+      }
+    },
+  );
+  // ── export_contact_data ─────────────────────────────────────────
+
+  // Writes files on the server host, so only offered when an export
+  // directory is configured.
+  if (exportDir) {
+    server.tool(
+      "export_contact_data",
+      `Data subject access export (Art. 15 DSGVO) for one contact.
+
+Gathers everything linked to the contact — contact record with sub-contacts,
+relationships and owned properties, search profiles, deals, activities and
+notes, documents and favorites — and writes two files to the server's export
+directory:
+- contact-<id>-<timestamp>.json: machine-readable bundle of all records
+- contact-<id>-<timestamp>.md: readable summary (German) for the data subject
+
+The personal data goes into the files only; this tool returns the file paths
+and how many records each section holds. Sections that fail to load are
+listed so they can be added by hand.
+
+Use when a contact asks "What data do you hold on me?"`,
+      {
+        contact_id: z.number()
+          .describe("Contact ID of the data subject"),
+      },
+      async (args, extra) => {
+        const id = args.contact_id;
+        const signal = extra.signal;
+        try {
+          const incomplete: string[] = [];
+          // The files are for the data subject, so they get the real data
+          // even in redaction mode; only paths and counts reach the model.
+          const { contact, sections } = await client.unredacted(async () => ({
+            contact: await client.get<PropstackContact>(`/contacts/${id}`, {
+              params: { include: "children,documents,relationships,owned_properties", expand: "true" },
+              signal,
+            }),
+            sections: await Promise.allSettled([
+              collectAll(client.paginate<PropstackSearchProfile>("/saved_queries", { params: { client: id }, signal }), "search_profiles", incomplete),
+              collectAll(client.paginate<PropstackDeal>("/client_properties", { params: { client_id: id, include: "property" }, signal }), "deals", incomplete),
+              collectAll(client.paginate<PropstackActivity>("/activities", { params: { client_id: id }, pageSizeParam: "per", signal }), "activities", incomplete),
+              collectAll(client.paginate<PropstackDocument>("/documents", { params: { client_id: id }, signal }), "documents", incomplete),
+              client.get<PropstackProperty[]>(`/contacts/${id}/favorites`, { signal }),
+              fetchPipelines(client),
+            ]),
+          }));
+          const [searchProfilesRes, dealsRes, activitiesRes, documentsRes, favoritesRes, pipelinesRes] = sections;
+          signal.throwIfAborted();
+
+          const failed: string[] = [];
+          const value = <T>(section: ExportSection, res: PromiseSettledResult<T>): T | null => {
+            if (res.status === "fulfilled") return res.value;
+            failed.push(section);
+            return null;
+          };
+          const bundle: ContactExport = {
+            exported_at: new Date().toISOString(),
+            contact,
+            search_profiles: value("search_profiles", searchProfilesRes),
+            deals: value("deals", dealsRes),
+            activities: value("activities", activitiesRes),
+            documents: value("documents", documentsRes),
+            favorites: value("favorites", favoritesRes),
+            failed,
+            incomplete,
+          };
+          if (bundle.deals && pipelinesRes.status === "fulfilled") enrichDealsWithStageNames(bundle.deals, pipelinesRes.value);
+
+          const base = `contact-${id}-${bundle.exported_at.replace(/[:.]/g, "-")}`;
+          const jsonFile = join(exportDir, `${base}.json`);
+          const summaryFile = join(exportDir, `${base}.md`);
+          // Owner-only permissions: the files hold the contact's personal data.
+          mkdirSync(exportDir, { recursive: true, mode: 0o700 });
+          writeFileSync(jsonFile, JSON.stringify(bundle, null, 2) + "\n", { mode: 0o600 });
+          writeFileSync(summaryFile, renderExportSummary(bundle, `${base}.json`), { mode: 0o600 });
+
+          const records = Object.fromEntries(
+            (Object.keys(SECTION_TITLES) as ExportSection[]).map((section) => [section, bundle[section]?.length ?? null]),
+          );
+          const lines = [
+            `Exported all data held on contact #${id}.`,
+            "",
+            `- JSON bundle: ${jsonFile}`,
+            `- Summary for the data subject: ${summaryFile}`,
+            "",
+            ...(Object.entries(records) as [ExportSection, number | null][]).map(([section, count]) =>
+              `- ${section.replace("_", " ")}: ${count ?? "failed to load"}`),
+          ];
+          const gaps = [...failed, ...incomplete.map((s) => `${s} (capped)`)];
+          if (gaps.length > 0) {
+            lines.push("", `**Note:** Complete these sections by hand before handing out the export: ${gaps.join(", ")}.`);
+          }
+          return textResult(lines.join("\n"), {
+            contact_id: id,
+            json_file: jsonFile,
+            summary_file: summaryFile,
+            records,
+            failed,
+            incomplete,
+          });
+        } catch (err) {
+          return errorResult("Contact", err);
+        }
+      },
+    );
+  }
+  // ── erase_contact ───────────────────────────────────────────────
+
+  // The receipt is the point of this tool, so it needs the audit log.
+  if (auditLog) {
+    server.tool(
+      "erase_contact",
+      `Right-to-erasure workflow (Art. 17 DSGVO) for one contact.
+
+The first call only reports what is linked to the contact — deals, tasks and
+notes, events, documents, search profiles, ownerships, partnerships, messages
+and sub-contacts — with the plan for the chosen options, and returns a
+confirmation_token. Show the report to the user; call again with the same
+arguments plus the token only once they agree.
+
+Options:
+- method "delete" (default): delete the contact (recycle bin for 30 days);
+  "anonymize": overwrite its personal data and keep the record, e.g. when
+  deals must be kept for accounting
+- dependents "keep" (default): leave linked records in place; "delete":
+  delete them first, in dependency order. Tasks and events shared with other
+  contacts, properties or projects are not deleted; the contact is only
+  removed from them
+
+Only records whose own client_id is the contact are touched; anything else
+a lookup returns is listed and left alone. The token is bound to the records
+in the report: if they change before the confirming call, nothing is erased
+and a fresh report is needed.
+
+If a linked record cannot be deleted, the contact is left untouched. The
+report and the result also list local copies on this server (audit log,
+idempotency store, exports) that still hold the contact's data; in
+redaction mode, the contact's pseudonyms are removed from the mapping. Every
+erasure is recorded as a receipt (record IDs, timestamps, operator) in the
+audit log as evidence; find it with query_audit_log and record_id.`,
+      {
+        contact_id: z.number()
+          .describe("Contact ID to erase"),
+        operator: z.string().min(1)
+          .describe("Person carrying out or authorizing the erasure, recorded in the receipt"),
+        method: z.enum(["delete", "anonymize"]).optional()
+          .describe("delete (default) or anonymize the contact"),
+        dependents: z.enum(["keep", "delete"]).optional()
+          .describe("keep (default) or delete the linked records first"),
+        confirmation_token: z.string().optional()
+          .describe("Token from the impact report of this exact erasure. Only pass after the user confirmed."),
+      },
+      async (args, extra) => {
+        const id = args.contact_id;
+        const method = args.method ?? "delete";
+        const dependents = args.dependents ?? "keep";
+        try {
+          // The token is bound to the records in the report; if they changed
+          // since, the user has not approved what would now be erased.
+          const linked = await findLinkedRecords(client, id, extra.signal);
+          const action = `erase_contact:${id}:${method}:${dependents}`;
+          const approved = args.confirmation_token !== undefined ? confirmations.actionFor(args.confirmation_token) : undefined;
+          const bound = `${action}:${linkedFingerprint(linked)}`;
+          if (approved?.startsWith(`${action}:`) && approved !== bound) {
+            return errorText(
+              `The records linked to contact ${id} changed since the impact report, so nothing was erased. ` +
+              "Call erase_contact again without confirmation_token for a fresh report and confirm that one.",
+            );
+          }
+          const pending = await requireConfirmation(server, confirmations, {
+            tool: "erase_contact",
+            action: bound,
+            token: args.confirmation_token,
+            preview: async () => renderImpactReport(linked, method, dependents, localCopies(id)),
+          });
+          if (pending) return pending;
+
+          if (dependents === "delete" && linked.failed.length > 0) {
+            return errorText(`Could not check ${linked.failed.join(", ")} for contact ${id}, so nothing was erased. Try again later.`);
+          }
+
+          const startedAt = new Date().toISOString();
+          const records: ErasedRecord[] = [];
+          const erase = async (type: string, recordId: number, action: ErasedRecord["action"], run: () => Promise<unknown>) => {
+            try {
+              await run();
+              records.push({ type, id: recordId, action, ok: true });
+              return true;
+            } catch (err) {
+              records.push({ type, id: recordId, action, ok: false, error: formatError(err) });
+              return false;
+            }
+          };
+
+          let dependentsOk = true;
+          if (dependents === "delete") {
+            for (const s of linked.shared) {
+              if (!dependentsOk) break;
+              dependentsOk = await erase(s.type, s.id, "unlinked", () => client.put(`/tasks/${s.id}`, { body: { task: { client_ids: s.otherClients } } }));
+            }
+            for (const d of DEPENDENTS) {
+              for (const recordId of linked.ids[d.type]) {
+                if (!dependentsOk) break;
+                dependentsOk = await erase(d.type, recordId, "deleted", () => client.delete(d.path(recordId)));
+              }
+            }
+          }
+          const completed = dependentsOk && (method === "delete"
+            ? await erase("contact", id, "deleted", () => client.delete(`/contacts/${id}`))
+            : await erase("contact", id, "anonymized", () => client.put(`/contacts/${id}`, { body: { client: ANONYMIZED_CONTACT } })));
+
+          // Redaction mode: drop the real values behind the contact's
+          // pseudonyms. Sub-contacts and relationships are not erased.
+          const { children: _children, relationships: _relationships, ...own } = linked.contact;
+          const forgotten = completed ? client.pseudonymizer?.forget(own) ?? 0 : 0;
+          const copies = localCopies(id, completed);
+          auditLog.recordErasure({
+            contact_id: id,
+            operator: args.operator,
+            method,
+            started_at: startedAt,
+            completed,
+            records,
+            local_copies: copies,
+          });
+
+          const done = records.filter((r) => r.ok && r.action === "deleted" && r.type !== "contact").length;
+          const unlinked = records.filter((r) => r.ok && r.action === "unlinked").map((r) => r.id);
+          const failure = records.find((r) => !r.ok);
+          const kept = dependents === "keep"
+            ? DEPENDENTS.filter((d) => linked.ids[d.type].length > 0).map((d) => `${d.label.toLowerCase()}: ${linked.ids[d.type].length}`)
+            : [];
+          if (dependents === "keep" && linked.shared.length > 0) kept.push(`shared tasks and events: ${linked.shared.length}`);
+          const lines = [
+            completed
+              ? `Contact ${id} ${method === "delete" ? "deleted (recycle bin for 30 days)" : "anonymized"}.`
+              : `Erasure of contact ${id} stopped: ${failure?.type} ${failure?.id} could not be erased (${failure?.error}). The contact was not ${method === "delete" ? "deleted" : "anonymized"}.`,
+            dependents === "delete" ? `Linked records deleted: ${done}.` : null,
+            unlinked.length > 0 ? `Removed from shared tasks and events (kept for their other links): ${unlinked.join(", ")}.` : null,
+            kept.length > 0 ? `Linked records kept: ${kept.join(", ")}.` : null,
+            linked.foreign.length > 0 ? `Records of other contacts left alone: ${linked.foreign.map((f) => `${f.type} ${f.id}`).join(", ")}.` : null,
+            linked.messages > 0 ? `Messages left in Propstack: ${linked.messages}.` : null,
+            linked.subContacts.length > 0 ? `Sub-contacts not erased: ${linked.subContacts.join(", ")}.` : null,
+            forgotten > 0 ? `Pseudonyms removed from the mapping: ${forgotten}.` : null,
+            `Erasure receipt recorded in the audit log (operator: ${args.operator}).`,
+            ...localCopyLines(copies),
+          ].filter((l): l is string => l !== null);
+          const result = textResult(lines.join("\n"), {
+            ...(method === "delete" ? { deleted: completed } : { anonymized: completed }),
+            id,
+            method,
+            completed,
+            records,
+            local_copies: copies,
+          });
+          return completed ? result : { ...result, isError: true };
+        } catch (err) {
+          return errorResult("Contact", err);
+        }
+      },
+    );
+  }
+}
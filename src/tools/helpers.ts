@@ -1,7 +1,50 @@
+import { z } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { PropstackError } from "../propstack-client.js";
+import type { PageProgress } from "../pagination.js";
 
-export function textResult(text: string) {
-  return { content: [{ type: "text" as const, text }] };
+// A type alias, not an interface: the SDK's result type has an index signature.
+export type ToolResult = {
+  content: { type: "text"; text: string }[];
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+/**
+ * A tool result: markdown for chat clients, plus the same data as
+ * `structuredContent` (matching the tool's output schema) for automations.
+ */
+export function textResult(text: string, structured?: Record<string, unknown>): ToolResult {
+  return structured
+    ? { content: [{ type: "text", text }], structuredContent: structured }
+    : { content: [{ type: "text", text }] };
+}
+
+/** A failed tool call; carries no structured content. */
+export function errorText(text: string): ToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+/** The second argument of every tool handler. */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Page callback that reports progress to the client as MCP progress
+ * notifications. A no-op unless the call carried a progressToken, so
+ * clients that did not ask for progress get no notifications.
+ */
+export function progressReporter(extra: ToolExtra, what: string): (progress: PageProgress) => void {
+  const token = extra._meta?.progressToken;
+  if (token === undefined) return () => {};
+  return ({ items, total }) => {
+    const message = total !== undefined ? `Fetched ${items} of ${total} ${what}` : `Fetched ${items} ${what}`;
+    // Progress is best-effort; a closed connection must not fail the tool.
+    extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken: token, progress: items, ...(total !== undefined && { total }), message },
+    }).catch(() => {});
+  };
 }
 
 /**
@@ -68,30 +111,29 @@ export function formatError(err: unknown): string {
   return String(err);
 }
 
-export function errorResult(entity: string, err: unknown) {
+export function errorResult(entity: string, err: unknown): ToolResult {
   if (err instanceof PropstackError) {
     const id = extractIdFromPath(err.path);
     if (err.status === 401) {
-      return textResult("Invalid API key. Check your PROPSTACK_API_KEY. Manage keys at crm.propstack.de/app/admin/api_keys");
+      return errorText("Invalid API key. Check your PROPSTACK_API_KEY. Manage keys at crm.propstack.de/app/admin/api_keys");
     }
     if (err.status === 403) {
-      return textResult("Insufficient permissions. Check API key permissions in Propstack admin.");
+      return errorText("Insufficient permissions. Check API key permissions in Propstack admin.");
     }
     if (err.status === 404) {
       return id
-        ? textResult(`${entity} not found. No ${entity.toLowerCase()} with ID ${id} exists.`)
-        : textResult(`${entity} not found.`);
+        ? errorText(`${entity} not found. No ${entity.toLowerCase()} with ID ${id} exists.`)
+        : errorText(`${entity} not found.`);
     }
     if (err.status === 422) {
-      return textResult(parse422(err.detail));
+      return errorText(parse422(err.detail));
     }
     if (err.status === 429) {
-      return textResult("Rate limited by Propstack API. Please try again in a moment.");
+      return errorText("Rate limited by Propstack API. Please try again in a moment.");
     }
-    return textResult(`Propstack API error ${err.status}: ${err.detail}`);
+    return errorText(`Propstack API error ${err.status}: ${err.detail}`);
   }
-  const msg = formatError(err);
-  return { content: [{ type: "text" as const, text: `Error: ${msg}` }], isError: true as const };
+  return errorText(`Error: ${formatError(err)}`);
 }
 
 /**
@@ -265,6 +307,82 @@ export function renderProjectedRecord(
   return lines.join("\n");
 }
 
+// ── Response formats ─────────────────────────────────────────────────
+//
+// List tools render their records as markdown by default. `compact` puts
+// one record per line, `json` and `csv` print the structured records, which
+// is cheaper on tokens for large result sets. The structured content is the
+// same whichever format is chosen.
+
+export const RESPONSE_FORMATS = ["markdown", "compact", "json", "csv"] as const;
+
+export type ResponseFormat = (typeof RESPONSE_FORMATS)[number];
+
+/** The `format` parameter shared by list tools. */
+export const formatParam = z.enum(RESPONSE_FORMATS).optional()
+  .describe("Output format: markdown (default, full blocks), compact (one line per record), json (array of records), csv (header row + one row per record)");
+
+export interface ListRendering {
+  /** The default markdown rendering (blocks or a table). */
+  markdown: () => string;
+  /** Key of the record's display name, shown first in compact lines. */
+  title?: string;
+  /** Further keys shown as key=value in compact lines. */
+  compact: readonly string[];
+}
+
+/** Cell text for compact and CSV output; "" for empty values. */
+function plainValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value) && value.every((v) => v === null || typeof v !== "object")) {
+    return value.join("; ");
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function compactLine(row: Record<string, unknown>, rendering: ListRendering): string {
+  const title = rendering.title ? plainValue(row[rendering.title]) : "";
+  const pairs = rendering.compact
+    .filter((key) => key !== "id" && key !== rendering.title)
+    .map((key) => [key, plainValue(row[key])] as const)
+    .filter(([, value]) => value !== "")
+    .map(([key, value]) => `${key}=${value}`);
+  return [`#${String(row["id"])}${title ? ` ${title}` : ""}`, ...pairs].join(" | ");
+}
+
+function csvCell(value: unknown): string {
+  const text = plainValue(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** RFC 4180 CSV with a header row; columns are the union of the records' keys. */
+export function toCsv(rows: readonly Record<string, unknown>[]): string {
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const lines = [columns.map(csvCell).join(","), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(","))];
+  return lines.join("\n");
+}
+
+/**
+ * Render list records in the requested format. `rows` are the structured
+ * records (after any `fields` selection); JSON leaves out null values.
+ */
+export function renderList(
+  format: ResponseFormat | undefined,
+  rows: readonly Record<string, unknown>[],
+  rendering: ListRendering,
+): string {
+  switch (format) {
+    case "compact":
+      return rows.map((row) => compactLine(row, rendering)).join("\n");
+    case "json":
+      return JSON.stringify(rows, (_key, value: unknown) => (value === null ? undefined : value));
+    case "csv":
+      return toCsv(rows);
+    default:
+      return rendering.markdown();
+  }
+}
+
 type QueryParams = Record<string, string | number | boolean | string[] | number[] | undefined>;
 
 /**
@@ -15,6 +15,7 @@ import type {
 } from "../types/propstack.js";
 import { textResult, errorResult, fmt } from "./helpers.js";
 import { fetchPipelines } from "./deals.js";
+import { toBroker, toCustomFieldGroup, toPipeline } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -50,6 +51,39 @@ function formatBroker(b: PropstackBroker): string {
   return lines.filter(Boolean).join("\n");
 }
 
+/** Fetch custom field groups for an entity — API returns { data: [...] } or a bare array. */
+export async function fetchCustomFieldGroups(client: PropstackClient, entity: string): Promise<PropstackCustomFieldGroup[]> {
+  const raw = await client.get<{ data: PropstackCustomFieldGroup[] } | PropstackCustomFieldGroup[]>(
+    "/custom_field_groups",
+    { params: { entity } },
+  );
+  return Array.isArray(raw) ? raw : raw?.data ?? [];
+}
+
+export interface FlatTag {
+  id: number;
+  name: string | null;
+  super_group_id: number | null;
+}
+
+/** Fetch tags as a flat list — API returns flat [{id, name, super_group_id}] or hierarchical [{id, name, groups: []}]. */
+export async function fetchTags(client: PropstackClient, entity?: string): Promise<FlatTag[]> {
+  const raw = await client.get<PropstackTag[] | PropstackSuperGroup[]>(
+    "/groups",
+    { params: entity ? { entity } : {} },
+  );
+  const tags: FlatTag[] = [];
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const sg = item as PropstackSuperGroup & PropstackTag;
+    if (sg.groups?.length) {
+      for (const g of sg.groups) tags.push({ id: g.id, name: g.name, super_group_id: g.super_group_id ?? null });
+    } else {
+      tags.push({ id: sg.id, name: sg.name, super_group_id: sg.super_group_id ?? null });
+    }
+  }
+  return tags;
+}
+
 // ── Tool registration ────────────────────────────────────────────────
 
 export function registerLookupTools(server: McpServer, client: PropstackClient): void {
@@ -73,11 +107,11 @@ Typical stages: Anfrage → Besichtigung → Reserviert → Notartermin → Verk
         const pipelines = await fetchPipelines(client);
 
         if (!pipelines.length) {
-          return textResult("No deal pipelines configured.");
+          return textResult("No deal pipelines configured.", { pipelines: [] });
         }
 
         const formatted = pipelines.map(formatPipeline).join("\n\n---\n\n");
-        return textResult(`Deal pipelines:\n\n${formatted}`);
+        return textResult(`Deal pipelines:\n\n${formatted}`, { pipelines: pipelines.map(toPipeline) });
       } catch (err) {
         return errorResult("Pipeline", err);
       }
@@ -103,7 +137,7 @@ already know which pipeline you need and want its stage details.`,
         );
         const pipeline = ("data" in raw && !("id" in raw)) ? (raw as { data: PropstackDealPipeline }).data : raw as PropstackDealPipeline;
 
-        return textResult(formatPipeline(pipeline));
+        return textResult(formatPipeline(pipeline), { pipeline: toPipeline(pipeline) });
       } catch (err) {
         return errorResult("Pipeline", err);
       }
@@ -141,7 +175,7 @@ try hierarchical view via /super_groups.`,
             { params: { ...params, include: "groups" } },
           );
           const sgs = Array.isArray(res) ? res : res?.data ?? [];
-          if (!sgs.length) return textResult("No super groups found.");
+          if (!sgs.length) return textResult("No super groups found.", { tags: [], super_groups: [] });
 
           const lines: string[] = [];
           for (const sg of sgs) {
@@ -152,37 +186,21 @@ try hierarchical view via /super_groups.`,
               }
             }
           }
-          return textResult(`Tags (hierarchical):\n\n${lines.join("\n")}`);
+          return textResult(`Tags (hierarchical):\n\n${lines.join("\n")}`, {
+            tags: sgs.flatMap((sg) => (sg.groups ?? []).map((g) => ({ id: g.id, name: g.name, super_group_id: sg.id }))),
+            super_groups: sgs.map((sg) => ({ id: sg.id, name: sg.name })),
+          });
         }
 
-        const raw = await client.get<PropstackTag[] | PropstackSuperGroup[]>(
-          "/groups",
-          { params },
-        );
-        const items = Array.isArray(raw) ? raw : [];
-
-        if (!items.length) {
-          return textResult("No tags found.");
-        }
+        const tags = await fetchTags(client, args.entity);
 
-        // API returns flat [{id, name, super_group_id, public_name}] or hierarchical [{id, name, groups: []}]
-        const flatItems: { id: number; name: string | null; super_group_id?: number | null }[] = [];
-        for (const item of items) {
-          const sg = item as PropstackSuperGroup & PropstackTag;
-          if (sg.groups?.length) {
-            for (const g of sg.groups) flatItems.push({ id: g.id, name: g.name, super_group_id: g.super_group_id });
-          } else {
-            flatItems.push({
-              id: (item as PropstackTag).id,
-              name: (item as PropstackTag).name,
-              super_group_id: (item as PropstackTag).super_group_id,
-            });
-          }
+        if (!tags.length) {
+          return textResult("No tags found.", { tags: [] });
         }
 
-        const lines = flatItems.map((g) => `- **${fmt(g.name)}** (ID: ${g.id})`);
+        const lines = tags.map((g) => `- **${fmt(g.name)}** (ID: ${g.id})`);
 
-        return textResult(`Tags/Groups (Merkmale) — use these IDs for search_contacts group filter:\n\n${lines.join("\n")}`);
+        return textResult(`Tags/Groups (Merkmale) — use these IDs for search_contacts group filter:\n\n${lines.join("\n")}`, { tags });
       } catch (err) {
         return errorResult("Tag", err);
       }
@@ -217,6 +235,7 @@ Examples: "Penthouse-Käufer", "VIP", "Kapitalanleger", "Erstbezug".`,
         return textResult(
           `Tag created: **${fmt(tag.name)}** (ID: ${tag.id})` +
           (tag.super_group_id ? ` — parent group: ${tag.super_group_id}` : ""),
+          { tag: { id: tag.id, name: tag.name, super_group_id: tag.super_group_id ?? null } },
         );
       } catch (err) {
         return errorResult("Tag", err);
@@ -248,14 +267,10 @@ To FILTER by custom fields: add cf_fieldname=value as a search param.`,
     },
     async (args) => {
       try {
-        const raw = await client.get<{ data: PropstackCustomFieldGroup[] } | PropstackCustomFieldGroup[]>(
-          "/custom_field_groups",
-          { params: { entity: args.entity } },
-        );
-        const groups = Array.isArray(raw) ? raw : raw?.data ?? [];
+        const groups = await fetchCustomFieldGroups(client, args.entity);
 
         if (!groups.length) {
-          return textResult(`No custom fields configured for ${args.entity}.`);
+          return textResult(`No custom fields configured for ${args.entity}.`, { entity: args.entity, groups: [] });
         }
 
         const lines: string[] = [];
@@ -272,7 +287,10 @@ To FILTER by custom fields: add cf_fieldname=value as a search param.`,
           }
         }
 
-        return textResult(`Custom fields for ${args.entity}:\n\n${lines.join("\n")}`);
+        return textResult(`Custom fields for ${args.entity}:\n\n${lines.join("\n")}`, {
+          entity: args.entity,
+          groups: groups.map(toCustomFieldGroup),
+        });
       } catch (err) {
         return errorResult("Custom field", err);
       }
@@ -299,11 +317,11 @@ You need broker IDs for:
         const brokers = await client.get<PropstackBroker[]>("/brokers");
 
         if (!brokers || brokers.length === 0) {
-          return textResult("No brokers/users found.");
+          return textResult("No brokers/users found.", { brokers: [] });
         }
 
         const formatted = brokers.map(formatBroker).join("\n\n---\n\n");
-        return textResult(`Brokers/Users:\n\n${formatted}`);
+        return textResult(`Brokers/Users:\n\n${formatted}`, { brokers: brokers.map(toBroker) });
       } catch (err) {
         return errorResult("Broker", err);
       }
@@ -324,7 +342,7 @@ filtering and to understand the organizational structure.`,
         const teams = await client.get<PropstackTeam[]>("/teams");
 
         if (!teams || teams.length === 0) {
-          return textResult("No teams configured.");
+          return textResult("No teams configured.", { teams: [] });
         }
 
         const lines = teams.map((t) => {
@@ -332,7 +350,9 @@ filtering and to understand the organizational structure.`,
           return `**${fmt(t.name)}** (ID: ${t.id}) — ${members}`;
         });
 
-        return textResult(`Teams:\n\n${lines.join("\n")}`);
+        return textResult(`Teams:\n\n${lines.join("\n")}`, {
+          teams: teams.map((t) => ({ id: t.id, name: t.name, broker_ids: t.broker_ids })),
+        });
       } catch (err) {
         return errorResult("Team", err);
       }
@@ -371,13 +391,15 @@ for_events→event, message→message.`,
         if (!types.length) {
           return textResult(args.category
             ? `No activity types in category "${args.category}".`
-            : "No activity types configured.");
+            : "No activity types configured.", { activity_types: [] });
         }
         const lines = types.map((t) => {
           const cat = fmt(t.category, "");
           return `- **${fmt(t.name)}** (ID: ${t.id}) — ${cat}`;
         });
-        return textResult(`Activity types${args.category ? ` (${args.category})` : ""}:\n\n${lines.join("\n")}`);
+        return textResult(`Activity types${args.category ? ` (${args.category})` : ""}:\n\n${lines.join("\n")}`, {
+          activity_types: types.map((t) => ({ id: t.id, name: t.name, category: t.category })),
+        });
       } catch (err) {
         return errorResult("Activity type", err);
       }
@@ -399,9 +421,11 @@ Use these IDs for search_contacts (status param) and create_contact/update_conta
           "/contact_statuses",
         );
         const items = Array.isArray(raw) ? raw : raw?.data ?? [];
-        if (!items.length) return textResult("No contact statuses found.");
+        if (!items.length) return textResult("No contact statuses found.", { statuses: [] });
         const lines = items.map((s) => `- **${fmt(s.name)}** (ID: ${s.id})`);
-        return textResult(`Contact statuses:\n\n${lines.join("\n")}`);
+        return textResult(`Contact statuses:\n\n${lines.join("\n")}`, {
+          statuses: items.map((s) => ({ id: s.id, name: s.name })),
+        });
       } catch (err) {
         return errorResult("Contact status", err);
       }
@@ -423,9 +447,11 @@ or filtering lost deals (search_deals reservation_reason_ids).`,
           "/reservation_reasons",
         );
         const items = Array.isArray(raw) ? raw : raw?.data ?? [];
-        if (!items.length) return textResult("No reservation reasons found.");
+        if (!items.length) return textResult("No reservation reasons found.", { reasons: [] });
         const lines = items.map((r) => `- **${fmt(r.name)}** (ID: ${r.id})`);
-        return textResult(`Reservation/cancellation reasons:\n\n${lines.join("\n")}`);
+        return textResult(`Reservation/cancellation reasons:\n\n${lines.join("\n")}`, {
+          reasons: items.map((r) => ({ id: r.id, name: r.name })),
+        });
       } catch (err) {
         return errorResult("Reservation reason", err);
       }
@@ -448,7 +474,7 @@ or filtering properties by area.`,
         const locations = Array.isArray(raw) ? raw : raw?.data ?? [];
 
         if (!locations.length) {
-          return textResult("No locations configured.");
+          return textResult("No locations configured.", { locations: [] });
         }
 
         const lines: string[] = [];
@@ -461,7 +487,13 @@ or filtering properties by area.`,
           }
         }
 
-        return textResult(`Locations:\n\n${lines.join("\n")}`);
+        return textResult(`Locations:\n\n${lines.join("\n")}`, {
+          locations: locations.map((l) => ({
+            id: l.id,
+            name: l.name,
+            sub_locations: (l.sub_locations ?? []).map((sub) => ({ id: sub.id, name: sub.name })),
+          })),
+        });
       } catch (err) {
         return errorResult("Location", err);
       }
@@ -0,0 +1,968 @@
+import { z } from "zod";
+import type { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  PropstackActivity,
+  PropstackBroker,
+  PropstackContact,
+  PropstackCustomFieldGroup,
+  PropstackDeal,
+  PropstackDealPipeline,
+  PropstackDocument,
+  PropstackEmail,
+  PropstackEvent,
+  PropstackProject,
+  PropstackProperty,
+  PropstackRelationship,
+  PropstackSearchProfile,
+  PropstackTask,
+  PropstackWebhook,
+} from "../types/propstack.js";
+import { unwrapNumber, unwrapPropstackValue } from "./helpers.js";
+
+// ── Structured tool output ───────────────────────────────────────────
+//
+// Every tool answers twice: markdown for chat clients, and
+// `structuredContent` for automations, checked against the `outputSchema`
+// declared here. Entity shapes follow types/propstack.ts with Propstack's
+// `{ value }` / `{ name }` wrappers unwrapped to plain values. Apart from
+// `id`, any field may be null or missing: the API leaves fields out freely,
+// and a `fields` selection returns only the requested ones.
+
+// ── Value normalization ──────────────────────────────────────────────
+
+function str(value: unknown): string | null {
+  const v = unwrapPropstackValue(value);
+  if (v === null || v === undefined || v === "" || typeof v === "object") return null;
+  return String(v);
+}
+
+function bool(value: unknown): boolean | null {
+  const v = unwrapPropstackValue(value);
+  if (v === true || v === "true") return true;
+  if (v === false || v === "false") return false;
+  return null;
+}
+
+function numbers(value: unknown): number[] | null {
+  return Array.isArray(value) ? value.filter((v): v is number => typeof v === "number") : null;
+}
+
+function strings(value: unknown): string[] | null {
+  return Array.isArray(value) ? value.map((v) => str(v)).filter((v): v is string => v !== null) : null;
+}
+
+/** Numbers come from `value`; `pretty_value` is display text like "450.000 €". */
+function num(value: unknown): number | null {
+  const wrapped = value !== null && typeof value === "object" && "value" in value;
+  return unwrapNumber(wrapped ? (value as { value: unknown }).value : value);
+}
+
+/** Display name of a contact: `name`, else first + last name. */
+function personName(c: Pick<PropstackContact, "name" | "first_name" | "last_name">): string | null {
+  return str(c.name) ?? ([str(c.first_name), str(c.last_name)].filter(Boolean).join(" ") || null);
+}
+
+// ── Entity schemas ───────────────────────────────────────────────────
+
+const text = z.string().nullish();
+const number = z.number().nullish();
+const flag = z.boolean().nullish();
+const idList = z.array(z.number()).nullish();
+const textList = z.array(z.string()).nullish();
+
+const named = z.looseObject({ id: z.number(), name: text });
+
+export const contactOutput = z.looseObject({
+  id: z.number(),
+  name: text,
+  first_name: text,
+  last_name: text,
+  salutation: text,
+  email: text,
+  phone: text,
+  company: text,
+  position: text,
+  description: text,
+  home_street: text,
+  home_house_number: text,
+  home_zip_code: text,
+  home_city: text,
+  home_country: text,
+  broker_id: number,
+  broker_name: text,
+  client_source_id: number,
+  status: text.describe("Contact status name"),
+  language: text,
+  rating: number.describe("0 (none) to 3"),
+  newsletter: flag,
+  accept_contact: flag,
+  gdpr_status: number.describe("0=Keine Angabe, 1=Ignoriert, 2=Zugestimmt, 3=Widerrufen"),
+  warning_notice: text,
+  last_contact_at: text,
+  created_at: text,
+  updated_at: text,
+  archived: flag,
+});
+
+const contactDetailsOutput = contactOutput.extend({
+  children: z.array(named).nullish(),
+  owned_properties: z.array(z.looseObject({ id: z.number(), title: text })).nullish(),
+  document_count: number,
+  custom_fields: z.record(z.string(), z.unknown()).nullish(),
+});
+
+export const propertyOutput = z.looseObject({
+  id: z.number(),
+  title: text,
+  unit_id: text,
+  exposee_id: text,
+  marketing_type: text,
+  object_type: text,
+  rs_type: text,
+  rs_category: text,
+  street: text,
+  house_number: text,
+  zip_code: text,
+  city: text,
+  country: text,
+  price: number,
+  base_rent: number,
+  total_rent: number,
+  living_space: number,
+  plot_area: number,
+  number_of_rooms: number,
+  number_of_bed_rooms: number,
+  number_of_bath_rooms: number,
+  floor: number,
+  construction_year: number,
+  broker_id: number,
+  project_id: number,
+  property_status: text.describe("Property status name"),
+  created_at: text,
+  updated_at: text,
+  archived: flag,
+});
+
+const propertyDetailsOutput = propertyOutput.extend({
+  description_note: text,
+  location_note: text,
+  furnishing_note: text,
+  other_note: text,
+  image_count: number,
+  document_count: number,
+  links: z.array(z.looseObject({ title: text, url: text })).nullish(),
+  custom_fields: z.record(z.string(), z.unknown()).nullish(),
+});
+
+export const dealOutput = z.looseObject({
+  id: z.number(),
+  client_id: number,
+  client_name: text,
+  property_id: number,
+  property_title: text,
+  project_id: number,
+  broker_id: number,
+  deal_pipeline_id: number,
+  deal_pipeline: text.describe("Pipeline name"),
+  deal_stage_id: number,
+  deal_stage: text.describe("Stage name"),
+  sold_price: number,
+  feeling: number.describe("0=none, 1=cold, 2=warm, 3=hot"),
+  note: text,
+  date: text,
+  start_date: text,
+  reservation_reason_id: number,
+  created_at: text,
+  updated_at: text,
+});
+
+export const taskOutput = z.looseObject({
+  id: z.number(),
+  kind: z.enum(["note", "reminder", "event", "cancellation"]),
+  title: text,
+  body: text,
+  note_type_id: number,
+  broker_id: number,
+  client_ids: idList,
+  property_ids: idList,
+  project_ids: idList,
+  due_date: text,
+  remind_at: text,
+  done: flag,
+  starts_at: text,
+  ends_at: text,
+  location: text,
+  all_day: flag,
+  private: flag,
+  recurring: flag,
+  rrule: text,
+  state: text,
+  reservation_reason_id: number,
+  created_at: text,
+  updated_at: text,
+});
+
+export const pipelineOutput = z.looseObject({
+  id: z.number(),
+  name: text,
+  broker_ids: idList,
+  deal_stages: z.array(z.looseObject({ id: z.number(), name: text, position: number, chance: number })),
+});
+
+/** Range criteria of a search profile; each has a `<name>_to` upper bound. */
+const SEARCH_PROFILE_RANGES = [
+  "price", "base_rent", "total_rent", "living_space", "plot_area",
+  "number_of_rooms", "number_of_bed_rooms", "floor", "construction_year",
+  "price_per_sqm", "price_multiplier", "yield_actual",
+] as const;
+
+const SEARCH_PROFILE_FEATURES = ["lift", "balcony", "garden", "built_in_kitchen", "cellar", "rented"] as const;
+
+export const searchProfileOutput = z.looseObject({
+  id: z.number(),
+  client_id: number,
+  active: flag,
+  marketing_type: text,
+  rs_types: textList,
+  rs_categories: textList,
+  cities: textList,
+  regions: textList,
+  lat: number,
+  lng: number,
+  radius: number,
+  ...Object.fromEntries(SEARCH_PROFILE_RANGES.flatMap((r) => [[r, number], [`${r}_to`, number]])),
+  ...Object.fromEntries(SEARCH_PROFILE_FEATURES.map((f) => [f, flag])),
+  note: text,
+  group_ids: idList,
+  location_ids: idList,
+  created_at: text,
+  updated_at: text,
+});
+
+export const projectOutput = z.looseObject({
+  id: z.number(),
+  title: text,
+  status: text,
+  broker_id: number,
+  street: text,
+  house_number: text,
+  zip_code: text,
+  city: text,
+  country: text,
+  unit_ids: idList,
+  created_at: text,
+  updated_at: text,
+});
+
+export const activityOutput = z.looseObject({
+  id: z.number(),
+  type: text.describe("event, reminder, note, message, …"),
+  title: text,
+  body: text,
+  broker_id: number,
+  client_id: number,
+  property_id: number,
+  project_id: number,
+  created_at: text,
+});
+
+export const eventOutput = z.looseObject({
+  id: z.number(),
+  title: text,
+  body: text,
+  location: text,
+  starts_at: text,
+  ends_at: text,
+  state: text,
+  all_day: flag,
+  private: flag,
+  recurring: flag,
+  rrule: text,
+  broker_id: number,
+  client_id: number,
+  property_id: number,
+  created_at: text,
+});
+
+export const emailOutput = z.looseObject({
+  id: z.number(),
+  subject: text,
+  from: text,
+  to: textList,
+  cc: textList,
+  bcc: textList,
+  broker_id: number,
+  snippet_id: number,
+  message_category_id: number,
+  client_ids: idList,
+  property_ids: idList,
+  project_ids: idList,
+  read: flag,
+  archived: flag,
+  attachments: textList.describe("Attachment file names"),
+  created_at: text,
+});
+
+export const documentOutput = z.looseObject({
+  id: z.number(),
+  title: text,
+  name: text,
+  url: text,
+  broker_id: number,
+  is_private: flag,
+  is_floorplan: flag,
+  is_exposee: flag,
+  on_landing_page: flag,
+  tags: textList,
+  created_at: text,
+});
+
+export const relationshipOutput = z.looseObject({
+  id: z.number(),
+  client_id: number,
+  property_id: number,
+  name: text,
+  internal_name: text,
+});
+
+export const webhookOutput = z.looseObject({
+  id: z.number(),
+  event: text,
+  target_url: text,
+  active: z.boolean(),
+  secret: text,
+});
+
+export const brokerOutput = z.looseObject({
+  id: z.number(),
+  name: text,
+  first_name: text,
+  last_name: text,
+  email: text,
+  phone: text,
+  position: text,
+  team_id: number,
+  department_ids: idList,
+});
+
+export const customFieldGroupOutput = named.extend({
+  fields: z.array(z.looseObject({
+    name: text,
+    pretty_name: text,
+    field_type: text,
+    unit: text,
+    options: textList,
+  })),
+});
+
+export type ContactOutput = z.infer<typeof contactOutput>;
+export type PropertyOutput = z.infer<typeof propertyOutput>;
+export type DealOutput = z.infer<typeof dealOutput>;
+export type TaskOutput = z.infer<typeof taskOutput>;
+
+// ── Mappers (API record → output shape) ──────────────────────────────
+
+export function toContact(c: PropstackContact): ContactOutput {
+  return {
+    id: c.id,
+    name: personName(c),
+    first_name: str(c.first_name),
+    last_name: str(c.last_name),
+    salutation: str(c.salutation),
+    email: str(c.email),
+    phone: str(c.phone ?? c.home_cell),
+    company: str(c.company),
+    position: str(c.position),
+    description: str(c.description),
+    home_street: str(c.home_street),
+    home_house_number: str(c.home_house_number),
+    home_zip_code: str(c.home_zip_code),
+    home_city: str(c.home_city),
+    home_country: str(c.home_country),
+    broker_id: num(c.broker_id),
+    broker_name: str(c.broker?.name),
+    client_source_id: num(c.client_source_id),
+    status: str(c.status?.name ?? c.client_status?.name),
+    language: str(c.language),
+    rating: num(c.rating),
+    newsletter: bool(c.newsletter),
+    accept_contact: bool(c.accept_contact),
+    gdpr_status: num(c.gdpr_status),
+    warning_notice: str(c.warning_notice),
+    last_contact_at: str(c.last_contact_at),
+    created_at: str(c.created_at),
+    updated_at: str(c.updated_at),
+    archived: bool(c.archived),
+  };
+}
+
+/** Contact with sub-contacts, owned properties and custom fields (full_contact_360). */
+export function toContactDetails(c: PropstackContact): z.infer<typeof contactDetailsOutput> {
+  return {
+    ...toContact(c),
+    children: c.children?.map((child) => ({ id: child.id, name: personName(child) })) ?? null,
+    owned_properties: c.owned_properties?.map((p) => ({ id: p.id, title: str(p.title) })) ?? null,
+    document_count: c.documents?.length ?? 0,
+    custom_fields: customFields(c.custom_fields),
+  };
+}
+
+export function toProperty(p: PropstackProperty): PropertyOutput {
+  return {
+    id: p.id,
+    title: str(p.title),
+    unit_id: str(p.unit_id),
+    exposee_id: str(p.exposee_id),
+    marketing_type: str(p.marketing_type),
+    object_type: str(p.object_type),
+    rs_type: str(p.rs_type),
+    rs_category: str(p.rs_category),
+    street: str(p.street),
+    house_number: str(p.house_number),
+    zip_code: str(p.zip_code),
+    city: str(p.city),
+    country: str(p.country),
+    price: num(p.price),
+    base_rent: num(p.base_rent),
+    total_rent: num(p.total_rent),
+    living_space: num(p.living_space),
+    plot_area: num(p.plot_area),
+    number_of_rooms: num(p.number_of_rooms),
+    number_of_bed_rooms: num(p.number_of_bed_rooms),
+    number_of_bath_rooms: num(p.number_of_bath_rooms),
+    floor: num(p.floor),
+    construction_year: num(p.construction_year),
+    broker_id: num(p.broker_id),
+    project_id: num(p.project_id),
+    property_status: str(p.property_status?.name),
+    created_at: str(p.created_at),
+    updated_at: str(p.updated_at),
+    archived: bool(p.archived),
+  };
+}
+
+/** Property with description texts, links and custom fields (get_property). */
+export function toPropertyDetails(p: PropstackProperty): z.infer<typeof propertyDetailsOutput> {
+  return {
+    ...toProperty(p),
+    description_note: str(p.description_note),
+    location_note: str(p.location_note),
+    furnishing_note: str(p.furnishing_note),
+    other_note: str(p.other_note),
+    image_count: p.images?.length ?? 0,
+    document_count: p.documents?.length ?? 0,
+    links: p.links?.map((l) => ({ title: str(l.title), url: str(l.url) })) ?? null,
+    custom_fields: customFields(p.custom_fields),
+  };
+}
+
+export function toDeal(d: PropstackDeal): DealOutput {
+  return {
+    id: d.id,
+    client_id: num(d.client_id) ?? d.client?.id ?? null,
+    client_name: d.client ? personName(d.client) : null,
+    property_id: num(d.property_id) ?? d.property?.id ?? null,
+    property_title: str(d.property?.title),
+    project_id: num(d.project_id),
+    broker_id: num(d.broker_id),
+    deal_pipeline_id: num(d.deal_pipeline_id),
+    deal_pipeline: str(d.deal_pipeline?.name),
+    deal_stage_id: num(d.deal_stage_id),
+    deal_stage: str(d.deal_stage?.name),
+    sold_price: num(d.sold_price),
+    feeling: num(d.feeling),
+    note: str(d.note),
+    date: str(d.date),
+    start_date: str(d.start_date),
+    reservation_reason_id: num(d.reservation_reason_id),
+    created_at: str(d.created_at),
+    updated_at: str(d.updated_at),
+  };
+}
+
+export function toTask(t: PropstackTask): TaskOutput {
+  return {
+    id: t.id,
+    kind: t.reservation_reason_id ? "cancellation" : t.is_event ? "event" : t.is_reminder ? "reminder" : "note",
+    title: str(t.title),
+    body: str(t.body),
+    note_type_id: num(t.note_type_id),
+    broker_id: num(t.broker_id),
+    client_ids: numbers(t.client_ids),
+    property_ids: numbers(t.property_ids),
+    project_ids: numbers(t.project_ids),
+    due_date: str(t.due_date),
+    remind_at: str(t.remind_at),
+    done: bool(t.done),
+    starts_at: str(t.starts_at),
+    ends_at: str(t.ends_at),
+    location: str(t.location),
+    all_day: bool(t.all_day),
+    private: bool(t.private),
+    recurring: bool(t.recurring),
+    rrule: str(t.rrule),
+    state: str(t.state),
+    reservation_reason_id: num(t.reservation_reason_id),
+    created_at: str(t.created_at),
+    updated_at: str(t.updated_at),
+  };
+}
+
+export function toPipeline(p: PropstackDealPipeline): z.infer<typeof pipelineOutput> {
+  return {
+    id: p.id,
+    name: str(p.name),
+    broker_ids: numbers(p.broker_ids),
+    deal_stages: (p.deal_stages ?? []).map((s) => ({
+      id: s.id,
+      name: str(s.name),
+      position: num(s.position),
+      chance: num(s.chance),
+    })),
+  };
+}
+
+export function toSearchProfile(sp: PropstackSearchProfile): z.infer<typeof searchProfileOutput> {
+  const raw = sp as unknown as Record<string, unknown>;
+  return {
+    id: sp.id,
+    client_id: num(sp.client_id),
+    active: bool(sp.active),
+    marketing_type: str(sp.marketing_type),
+    rs_types: strings(sp.rs_types),
+    rs_categories: strings(sp.rs_categories),
+    cities: strings(sp.cities),
+    regions: strings(sp.regions),
+    lat: num(sp.lat),
+    lng: num(sp.lng),
+    radius: num(sp.radius),
+    ...Object.fromEntries(SEARCH_PROFILE_RANGES.flatMap((r) => [[r, num(raw[r])], [`${r}_to`, num(raw[`${r}_to`])]])),
+    ...Object.fromEntries(SEARCH_PROFILE_FEATURES.map((f) => [f, bool(raw[f])])),
+    note: str(sp.note),
+    group_ids: numbers(sp.group_ids),
+    location_ids: numbers(sp.location_ids),
+    created_at: str(sp.created_at),
+    updated_at: str(sp.updated_at),
+  };
+}
+
+export function toProject(p: PropstackProject): z.infer<typeof projectOutput> {
+  return {
+    id: p.id,
+    title: str(p.title ?? p.name),
+    status: str(p.status),
+    broker_id: num(p.broker_id),
+    street: str(p.street),
+    house_number: str(p.house_number),
+    zip_code: str(p.zip_code),
+    city: str(p.city),
+    country: str(p.country),
+    unit_ids: p.units?.map((u) => u.id) ?? null,
+    created_at: str(p.created_at),
+    updated_at: str(p.updated_at),
+  };
+}
+
+export function toActivity(a: PropstackActivity): z.infer<typeof activityOutput> {
+  return {
+    id: a.id,
+    type: str(a.conversation_type ?? a.type),
+    title: str(a.title),
+    body: str(a.body),
+    broker_id: num(a.broker_id) ?? a.broker?.id ?? null,
+    client_id: num(a.client_id) ?? a.client?.id ?? null,
+    property_id: num(a.property_id) ?? a.property?.id ?? null,
+    project_id: num(a.project_id),
+    created_at: str(a.created_at),
+  };
+}
+
+export function toEvent(e: PropstackEvent): z.infer<typeof eventOutput> {
+  return {
+    id: e.id,
+    title: str(e.title),
+    body: str(e.body),
+    location: str(e.location),
+    starts_at: str(e.starts_at),
+    ends_at: str(e.ends_at),
+    state: str(e.state),
+    all_day: bool(e.all_day),
+    private: bool(e.private),
+    recurring: bool(e.recurring),
+    rrule: str(e.rrule),
+    broker_id: num(e.broker_id),
+    client_id: e.client?.id ?? null,
+    property_id: e.property?.id ?? null,
+    created_at: str(e.created_at),
+  };
+}
+
+export function toEmail(e: PropstackEmail): z.infer<typeof emailOutput> {
+  return {
+    id: e.id,
+    subject: str(e.subject),
+    from: str(e.from),
+    to: strings(e.to),
+    cc: strings(e.cc),
+    bcc: strings(e.bcc),
+    broker_id: num(e.broker_id),
+    snippet_id: num(e.snippet_id),
+    message_category_id: num(e.message_category_id),
+    client_ids: numbers(e.client_ids),
+    property_ids: numbers(e.property_ids),
+    project_ids: numbers(e.project_ids),
+    read: bool(e.read),
+    archived: bool(e.archived),
+    attachments: e.attachments?.map((a) => str(a.name) ?? "unnamed") ?? null,
+    created_at: str(e.created_at),
+  };
+}
+
+export function toDocument(d: PropstackDocument): z.infer<typeof documentOutput> {
+  return {
+    id: d.id,
+    title: str(d.title),
+    name: str(d.name),
+    url: str(d.url),
+    broker_id: num(d.broker_id),
+    is_private: bool(d.is_private),
+    is_floorplan: bool(d.is_floorplan),
+    is_exposee: bool(d.is_exposee),
+    on_landing_page: bool(d.on_landing_page),
+    tags: strings(d.tags),
+    created_at: str(d.created_at),
+  };
+}
+
+export function toRelationship(r: PropstackRelationship): z.infer<typeof relationshipOutput> {
+  return {
+    id: r.id,
+    client_id: num(r.client_id),
+    property_id: num(r.property_id),
+    name: str(r.name),
+    internal_name: str(r.internal_name),
+  };
+}
+
+export function toWebhook(h: PropstackWebhook): z.infer<typeof webhookOutput> {
+  return {
+    id: h.id,
+    event: str(h.event),
+    target_url: str(h.target_url),
+    active: h.active !== false,
+    secret: str(h.secret),
+  };
+}
+
+export function toBroker(b: PropstackBroker): z.infer<typeof brokerOutput> {
+  return {
+    id: b.id,
+    name: personName(b),
+    first_name: str(b.first_name),
+    last_name: str(b.last_name),
+    email: str(b.email),
+    phone: str(b.phone),
+    position: str(b.position),
+    team_id: num(b.team_id),
+    department_ids: numbers(b.department_ids),
+  };
+}
+
+export function toCustomFieldGroup(g: PropstackCustomFieldGroup): z.infer<typeof customFieldGroupOutput> {
+  return {
+    id: g.id,
+    name: g.name,
+    fields: (g.custom_fields ?? []).map((f) => ({
+      name: f.name,
+      pretty_name: f.pretty_name,
+      field_type: f.field_type,
+      unit: f.unit,
+      options: f.custom_options?.flatMap((o) => (o.name ? [o.name] : [])) ?? null,
+    })),
+  };
+}
+
+/** Custom field values with wrappers unwrapped; empty values are dropped. */
+function customFields(fields: Record<string, unknown> | null | undefined): Record<string, unknown> | null {
+  if (!fields) return null;
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const v = unwrapPropstackValue(value);
+    if (v !== null && v !== undefined && v !== "") out[key] = v;
+  }
+  return out;
+}
+
+/**
+ * Reduce a mapped record to the `fields` a caller selected (plus `id`).
+ * Fields of the output shape keep their normalized value; any other
+ * selectable field is passed through as the API returned it.
+ */
+export function selectFields(
+  mapped: { id: number } & Record<string, unknown>,
+  raw: object,
+  fields: readonly string[],
+): { id: number } & Record<string, unknown> {
+  const source = raw as Record<string, unknown>;
+  const out: { id: number } & Record<string, unknown> = { id: mapped.id };
+  for (const f of fields) out[f] = f in mapped ? mapped[f] : source[f] ?? null;
+  return out;
+}
+
+// ── Per-tool output schemas ──────────────────────────────────────────
+
+/** `total` is the API's total_count, or null when the endpoint does not report one. */
+const total = z.number().nullable();
+
+/** Result of delete tools; a pending confirmation is `deleted: false` with a token. */
+const deletion = {
+  deleted: z.boolean(),
+  id: z.number().optional(),
+  confirmation_token: z.string().optional(),
+};
+
+/** Sections of a composite report that failed to load. */
+const failed = z.array(z.string());
+
+/** Contact counts for one broker or source in gdpr_consent_report. */
+const consentGroupOutput = z.object({
+  key: z.string(),
+  contacts: z.number(),
+  consented: z.number(),
+  withdrawn: z.number(),
+  no_consent: z.number(),
+  past_retention: z.number(),
+});
+
+const consentFlagOutput = z.object({ yes: z.number(), no: z.number(), unset: z.number() });
+
+const problemSampleOutput = z.object({ count: z.number(), ids: z.array(z.number()).describe("First contact IDs") });
+
+/** One group of a portfolio_overview breakdown. */
+const portfolioGroupOutput = z.object({
+  key: z.string(),
+  count: z.number(),
+  sale_value: z.number(),
+  monthly_rent: z.number(),
+});
+
+export const TOOL_OUTPUT_SCHEMAS: Record<string, z.ZodRawShape> = {
+  // contacts
+  search_contacts: { contacts: z.array(contactOutput), total },
+  get_contact: { contact: contactOutput },
+  create_contact: { contact: contactOutput },
+  update_contact: { contact: contactOutput },
+  delete_contact: deletion,
+  get_contact_sources: { sources: z.array(named) },
+  search_contacts_by_phone: { contacts: z.array(contactOutput) },
+
+  // properties
+  search_properties: { properties: z.array(propertyOutput), total },
+  get_property: { property: propertyDetailsOutput },
+  create_property: { property: propertyOutput },
+  update_property: { property: propertyOutput },
+  get_property_statuses: {
+    statuses: z.array(named.extend({ position: number, color: text, nonpublic: flag })),
+  },
+
+  // tasks
+  create_task: { task: taskOutput },
+  update_task: { task: taskOutput },
+  get_task: { task: taskOutput },
+
+  // deals
+  search_deals: { deals: z.array(dealOutput), total },
+  create_deal: { deal: dealOutput },
+  update_deal: { deal: dealOutput },
+
+  // search profiles
+  list_search_profiles: { search_profiles: z.array(searchProfileOutput), total },
+  create_search_profile: { search_profile: searchProfileOutput },
+  update_search_profile: { search_profile: searchProfileOutput },
+  delete_search_profile: deletion,
+
+  // projects
+  list_projects: { projects: z.array(projectOutput), total },
+  get_project: { project: projectOutput, units: z.array(propertyOutput) },
+
+  // activities
+  search_activities: { activities: z.array(activityOutput), total },
+  list_events: { events: z.array(eventOutput), total },
+
+  // emails
+  send_email: { email: emailOutput },
+  update_email: { email: emailOutput },
+
+  // documents
+  list_documents: { documents: z.array(documentOutput), total },
+  upload_document: { document: documentOutput },
+
+  // relationships
+  create_ownership: { relationship: relationshipOutput },
+  create_partnership: { relationship: relationshipOutput },
+
+  // lookups
+  list_pipelines: { pipelines: z.array(pipelineOutput) },
+  get_pipeline: { pipeline: pipelineOutput },
+  list_tags: {
+    tags: z.array(named.extend({ super_group_id: number })),
+    super_groups: z.array(named).optional(),
+  },
+  create_tag: { tag: named.extend({ super_group_id: number }) },
+  list_custom_fields: { entity: z.string(), groups: z.array(customFieldGroupOutput) },
+  list_users: { brokers: z.array(brokerOutput) },
+  list_teams: { teams: z.array(named.extend({ broker_ids: idList })) },
+  list_activity_types: { activity_types: z.array(named.extend({ category: text })) },
+  list_contact_statuses: { statuses: z.array(named) },
+  list_reservation_reasons: { reasons: z.array(named) },
+  list_locations: { locations: z.array(named.extend({ sub_locations: z.array(named) })) },
+
+  // composites
+  full_contact_360: {
+    contact: contactDetailsOutput,
+    search_profiles: z.array(searchProfileOutput).nullable(),
+    deals: z.array(dealOutput).nullable(),
+    activities: z.array(activityOutput).nullable(),
+    failed,
+  },
+  property_performance_report: {
+    property: propertyOutput,
+    days_on_market: z.number().nullable(),
+    inquiries: z.object({
+      total: z.number(),
+      by_stage: z.record(z.string(), z.number()),
+      total_value: z.number(),
+      deals: z.array(dealOutput),
+    }).nullable(),
+    activity: z.object({
+      total: z.number(),
+      by_type: z.record(z.string(), z.number()),
+      recent: z.array(activityOutput),
+    }).nullable(),
+    failed,
+  },
+  pipeline_summary: {
+    pipeline_id: z.number().nullable(),
+    broker_id: z.number().nullable(),
+    total_deals: z.number(),
+    total_value: z.number(),
+    stages: z.array(z.object({ stage: z.string(), deals: z.number(), value: z.number() })),
+    stale_deals: z.array(dealOutput).describe("Deals without an update in 14+ days"),
+    capped: z.boolean().describe("True if only part of the deals could be read"),
+  },
+  portfolio_overview: {
+    total_listings: z.number(),
+    total_sale_value: z.number().describe("Sum of purchase prices"),
+    total_monthly_rent: z.number().describe("Sum of monthly base rents"),
+    median_days_on_market: z.number().nullable().describe("Over listings not yet sold or let"),
+    reserved: z.number(),
+    reserved_share: z.number().describe("Percent of listings"),
+    sold_or_let: z.number(),
+    sold_or_let_share: z.number().describe("Percent of listings"),
+    by_status: z.array(portfolioGroupOutput),
+    by_rs_type: z.array(portfolioGroupOutput),
+    by_marketing_type: z.array(portfolioGroupOutput),
+    by_broker: z.array(portfolioGroupOutput),
+    capped: z.boolean().describe("True if only part of the properties could be read"),
+  },
+  smart_lead_intake: {
+    action: z.enum(["created", "updated"]),
+    contact_id: z.number(),
+    note_id: z.number().nullable(),
+    deal_id: z.number().nullable(),
+    reminder_id: z.number().nullable(),
+    errors: z.array(z.string()).describe("Follow-up steps that failed"),
+  },
+  match_contacts_to_property: {
+    property_id: z.number(),
+    profiles_checked: z.number(),
+    capped: z.boolean(),
+    total_matches: z.number(),
+    matches: z.array(z.object({
+      contact_id: z.number().nullable(),
+      search_profile_id: z.number(),
+      score: z.number(),
+      max_score: z.number(),
+      matched: z.array(z.string()),
+      mismatched: z.array(z.string()),
+    })),
+  },
+
+  // gdpr
+  gdpr_consent_report: {
+    total_contacts: z.number(),
+    by_gdpr_status: z.array(z.object({ status: z.string(), contacts: z.number() })),
+    accept_contact: consentFlagOutput,
+    newsletter: consentFlagOutput,
+    problems: z.object({
+      withdrawn_but_contactable: problemSampleOutput.describe("Consent withdrawn, but accept_contact or newsletter still set"),
+      past_retention: problemSampleOutput.describe("keep_data_till is in the past"),
+      deletion_requested: problemSampleOutput.describe("Deletion requested via the customer portal"),
+    }),
+    by_broker: z.array(consentGroupOutput),
+    by_source: z.array(consentGroupOutput),
+    capped: z.boolean().describe("True if only part of the contacts could be read"),
+    minimized: z.boolean().describe("False if the API returned full contact records instead of the consent fields only"),
+  },
+  export_contact_data: {
+    contact_id: z.number(),
+    json_file: z.string().describe("Path of the machine-readable bundle"),
+    summary_file: z.string().describe("Path of the readable summary for the data subject"),
+    records: z.record(z.string(), z.number().nullable()).describe("Records per section; null if the section failed to load"),
+    failed: z.array(z.string()).describe("Sections that must be added by hand"),
+    incomplete: z.array(z.string()).describe("Sections cut short by the paging cap"),
+  },
+  erase_contact: {
+    ...deletion,
+    deleted: z.boolean().optional().describe("Set by previews and by method delete"),
+    anonymized: z.boolean().optional().describe("Set by method anonymize"),
+    method: z.enum(["delete", "anonymize"]).optional(),
+    completed: z.boolean().optional().describe("False if a step failed and the contact was left untouched"),
+    records: z.array(z.object({
+      type: z.string(),
+      id: z.number(),
+      action: z.enum(["deleted", "anonymized", "unlinked"]),
+      ok: z.boolean(),
+      error: z.string().optional(),
+    })).optional().describe("Records erased, as in the audit log receipt"),
+    local_copies: z.array(z.string()).optional().describe("Local copies of the contact's data left in place"),
+  },
+
+  // admin
+  list_webhooks: { webhooks: z.array(webhookOutput) },
+  create_webhook: { webhook: webhookOutput },
+  delete_webhook: deletion,
+  get_contact_favorites: { properties: z.array(propertyOutput) },
+
+  // audit
+  query_audit_log: {
+    entries: z.array(z.looseObject({
+      ts: z.string(),
+      kind: z.enum(["tool", "request", "erasure"]),
+      session: z.string(),
+      account: z.string().nullable().optional(),
+      tool: z.string().nullable(),
+    })),
+  },
+};
+
+/**
+ * Wrap an McpServer so that every tool registered through `tool()` gets its
+ * output schema from TOOL_OUTPUT_SCHEMAS. `tool()` itself cannot declare
+ * one, so the schema is set on the registered tool right after.
+ */
+export function applyOutputSchemas(server: McpServer): McpServer {
+  return new Proxy(server, {
+    get(target, prop, receiver) {
+      if (prop === "tool") {
+        return (name: string, ...rest: unknown[]) => {
+          const registered = (target.tool as (...args: unknown[]) => RegisteredTool).call(target, name, ...rest);
+          const outputSchema = TOOL_OUTPUT_SCHEMAS[name];
+          if (outputSchema) registered.update({ outputSchema });
+          return registered;
+        };
+      }
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+}
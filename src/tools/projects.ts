@@ -2,7 +2,8 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackProject, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt } from "./helpers.js";
+import { textResult, errorResult, fmt, renderList, formatParam } from "./helpers.js";
+import { toProject, toProperty } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -71,31 +72,37 @@ Use expand=true to include custom fields in the response.`,
         .describe("Page number (default: 1)"),
       per_page: z.number().optional()
         .describe("Results per page (default: 25)"),
+      format: formatParam,
     },
     async (args) => {
       try {
+        const { format, ...params } = args;
         const raw = await client.get<PropstackPaginatedResponse<PropstackProject> | PropstackProject[]>(
           "/projects",
-          { params: args as Record<string, string | number | boolean | undefined> },
+          { params: params as Record<string, string | number | boolean | undefined> },
         );
         const projects = Array.isArray(raw) ? raw : raw.data ?? [];
         const totalCount = Array.isArray(raw) ? undefined : raw.meta?.total_count;
 
         if (projects.length === 0) {
-          return textResult("No projects found.");
+          return textResult("No projects found.", { projects: [], total: totalCount ?? 0 });
         }
 
         const header = totalCount !== undefined
           ? `Found ${totalCount} projects (showing ${projects.length}):\n\n`
           : `Found ${projects.length} projects:\n\n`;
 
-        const table = [
-          "| ID | Title | Status | City | Units |",
-          "|---|---|---|---|---|",
-          ...projects.map(formatProjectRow),
-        ].join("\n");
-
-        return textResult(header + table);
+        const rows = projects.map(toProject);
+        const text = renderList(format, rows, {
+          markdown: () => [
+            "| ID | Title | Status | City | Units |",
+            "|---|---|---|---|---|",
+            ...projects.map(formatProjectRow),
+          ].join("\n"),
+          title: "title",
+          compact: ["status", "city", "broker_id"],
+        });
+        return textResult(header + text, { projects: rows, total: totalCount ?? null });
       } catch (err) {
         return errorResult("Project", err);
       }
@@ -126,7 +133,10 @@ Use this tool to:
           `/projects/${args.id}`,
         );
 
-        return textResult(formatProject(project));
+        return textResult(formatProject(project), {
+          project: toProject(project),
+          units: (project.units ?? []).map(toProperty),
+        });
       } catch (err) {
         return errorResult("Project", err);
       }
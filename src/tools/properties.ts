@@ -2,7 +2,8 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackProperty, PropstackPropertyStatus, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt, fmtPrice, fmtArea, stripUndefined, validateFields, renderProjectedRecord, applyCustomFilters, PROPERTY_FIELDS } from "./helpers.js";
+import { textResult, errorText, errorResult, fmt, fmtPrice, fmtArea, stripUndefined, validateFields, renderProjectedRecord, applyCustomFilters, renderList, formatParam, PROPERTY_FIELDS } from "./helpers.js";
+import { selectFields, toProperty, toPropertyDetails } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -112,7 +113,10 @@ Always returns total count. Use expand=true for custom fields.
 Data minimization (Art. 25 DSGVO): pass 'fields' with an array of property
 field names to return only those fields per property (e.g. ["id", "title",
 "price", "city"]). Omit 'fields' to return the default set unchanged.
-Unknown field names produce an error listing the valid options.`,
+Unknown field names produce an error listing the valid options.
+
+Use format="compact" (one line per property), "json" or "csv" to save
+tokens on large result sets.`,
     {
       q: z.string().optional()
         .describe("Fulltext search across unit_id, street, zip, city, district, exposé ID"),
@@ -176,15 +180,16 @@ Unknown field names produce an error listing the valid options.`,
         .describe("Filter by custom field values. Keys are custom field names WITHOUT the cf_ prefix (use list_custom_fields to discover them); each becomes a cf_<name>=<value> query parameter. Example: { energy_class: \"A\" }"),
       fields: z.array(z.string()).optional()
         .describe("Data minimization: return only these property fields per result (e.g. [\"id\", \"title\", \"price\", \"city\"]). Omit to return the default field set. Unknown field names produce an error."),
+      format: formatParam,
     },
     async (args) => {
       try {
         if (args.fields && args.fields.length > 0) {
           const fieldError = validateFields(args.fields, PROPERTY_FIELDS, "property");
-          if (fieldError) return textResult(fieldError);
+          if (fieldError) return errorText(fieldError);
         }
 
-        const { fields, custom_filters, ...apiArgs } = args;
+        const { fields, custom_filters, format, ...apiArgs } = args;
         const params = applyCustomFilters(
           { with_meta: 1, ...apiArgs } as Record<string, string | number | boolean | string[] | number[] | undefined>,
           custom_filters,
@@ -196,7 +201,7 @@ Unknown field names produce an error listing the valid options.`,
         );
 
         if (!res.data || res.data.length === 0) {
-          return textResult("No properties found matching your criteria.");
+          return textResult("No properties found matching your criteria.", { properties: [], total: res.meta?.total_count ?? 0 });
         }
 
         const total = res.meta?.total_count;
@@ -205,15 +210,26 @@ Unknown field names produce an error listing the valid options.`,
           : `Found ${res.data.length} properties:\n\n`;
 
         if (fields && fields.length > 0) {
-          const projected = res.data
-            .map((p) => renderProjectedRecord(p as unknown as Record<string, unknown>, fields, `**ID: ${p.id}**`))
-            .join("\n\n---\n\n");
-          return textResult(header + projected);
+          const properties = res.data.map((p) => selectFields(toProperty(p), p, fields));
+          const text = renderList(format, properties, {
+            markdown: () => res.data
+              .map((p) => renderProjectedRecord(p as unknown as Record<string, unknown>, fields, `**ID: ${p.id}**`))
+              .join("\n\n---\n\n"),
+            compact: fields,
+          });
+          return textResult(header + text, { properties, total: total ?? null });
         }
 
-        const tableHeader = "| ID | Title | Type | Address | Price | Size | Rooms | Status |\n| --- | --- | --- | --- | --- | --- | --- | --- |";
-        const rows = res.data.map(formatPropertyRow).join("\n");
-        return textResult(header + tableHeader + "\n" + rows);
+        const properties = res.data.map(toProperty);
+        const text = renderList(format, properties, {
+          markdown: () => {
+            const tableHeader = "| ID | Title | Type | Address | Price | Size | Rooms | Status |\n| --- | --- | --- | --- | --- | --- | --- | --- |";
+            return tableHeader + "\n" + res.data.map(formatPropertyRow).join("\n");
+          },
+          title: "title",
+          compact: ["marketing_type", "rs_type", "city", "price", "base_rent", "living_space", "number_of_rooms", "property_status"],
+        });
+        return textResult(header + text, { properties, total: total ?? null });
       } catch (err) {
         return errorResult("Property", err);
       }
@@ -299,7 +315,7 @@ Always fetches with new=1 (extra fields) and expand=1 (custom fields).`,
           }
         }
 
-        return textResult(result);
+        return textResult(result, { property: toPropertyDetails(property) });
       } catch (err) {
         return errorResult("Property", err);
       }
@@ -383,7 +399,7 @@ rs_category provides sub-types (e.g. PENTHOUSE, VILLA, MAISONETTE for APARTMENT/
           { body: { property: stripUndefined(args) } },
         );
 
-        return textResult(`Property created successfully.\n\n${formatProperty(property)}`);
+        return textResult(`Property created successfully.\n\n${formatProperty(property)}`, { property: toProperty(property) });
       } catch (err) {
         return errorResult("Property", err);
       }
@@ -450,7 +466,7 @@ Use get_property_statuses to look up valid status IDs.`,
           { body: { property: stripUndefined(fields) } },
         );
 
-        return textResult(`Property updated successfully.\n\n${formatProperty(property)}`);
+        return textResult(`Property updated successfully.\n\n${formatProperty(property)}`, { property: toProperty(property) });
       } catch (err) {
         return errorResult("Property", err);
       }
@@ -476,14 +492,16 @@ Use this tool to look up valid status IDs before:
         const statuses = Array.isArray(res) ? res : (res?.data ?? []);
 
         if (!statuses || statuses.length === 0) {
-          return textResult("No property statuses configured.");
+          return textResult("No property statuses configured.", { statuses: [] });
         }
 
         const lines = statuses.map((s) => {
           const nonpublic = s.nonpublic ? " (non-public)" : "";
           return `- **${s.name}** (ID: ${s.id})${nonpublic}`;
         });
-        return textResult(`Property statuses:\n\n${lines.join("\n")}`);
+        return textResult(`Property statuses:\n\n${lines.join("\n")}`, {
+          statuses: statuses.map((s) => ({ id: s.id, name: s.name, position: s.position, color: s.color, nonpublic: s.nonpublic })),
+        });
       } catch (err) {
         return errorResult("Property status", err);
       }
@@ -3,6 +3,7 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackRelationship } from "../types/propstack.js";
 import { textResult, errorResult } from "./helpers.js";
+import { toRelationship } from "./output-schemas.js";
 
 // ── Tool registration ────────────────────────────────────────────────
 
@@ -35,6 +36,7 @@ The ownership appears on both the contact's and the property's record.`,
         return textResult(
           `Ownership created (ID: ${rel.id}).\n` +
           `Contact ${rel.client_id} is now owner of property ${rel.property_id}.`,
+          { relationship: toRelationship(rel) },
         );
       } catch (err) {
         return errorResult("Ownership", err);
@@ -73,6 +75,7 @@ The name field describes the role (e.g. "Käufer", "Mieter", "Verwalter").`,
         return textResult(
           `Partnership created (ID: ${rel.id}).\n` +
           `Contact ${rel.client_id} linked to property ${rel.property_id}${role}.`,
+          { relationship: toRelationship(rel) },
         );
       } catch (err) {
         return errorResult("Partnership", err);
@@ -2,7 +2,9 @@ import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackSearchProfile, PropstackPaginatedResponse } from "../types/propstack.js";
-import { textResult, errorResult, fmt, fmtPrice, stripUndefined, unwrapNumber, unwrapPropstackValue } from "./helpers.js";
+import { textResult, errorResult, fmt, fmtPrice, stripUndefined, unwrapNumber, unwrapPropstackValue, renderList, formatParam } from "./helpers.js";
+import { toSearchProfile } from "./output-schemas.js";
+import { requireConfirmation, type ConfirmationStore } from "./confirmation.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -210,7 +212,11 @@ function searchProfileFields() {
 
 // ── Tool registration ────────────────────────────────────────────────
 
-export function registerSearchProfileTools(server: McpServer, client: PropstackClient): void {
+export function registerSearchProfileTools(
+  server: McpServer,
+  client: PropstackClient,
+  confirmations: ConfirmationStore | null = null,
+): void {
   // ── list_search_profiles ────────────────────────────────────────
 
   server.tool(
@@ -234,24 +240,30 @@ Filter by contact ID to answer "What is this buyer looking for?"`,
         .describe("Page number (default: 1)"),
       per_page: z.number().optional()
         .describe("Results per page (default: 25)"),
+      format: formatParam,
     },
     async (args) => {
       try {
+        const { format, ...params } = args;
         const res = await client.get<PropstackPaginatedResponse<PropstackSearchProfile>>(
           "/saved_queries",
-          { params: args as Record<string, string | number | boolean | undefined> },
+          { params: params as Record<string, string | number | boolean | undefined> },
         );
 
         if (!res.data || res.data.length === 0) {
-          return textResult("No search profiles found.");
+          return textResult("No search profiles found.", { search_profiles: [], total: res.meta?.total_count ?? 0 });
         }
 
         const header = res.meta?.total_count !== undefined
           ? `Found ${res.meta.total_count} search profiles (showing ${res.data.length}):\n\n`
           : `Found ${res.data.length} search profiles:\n\n`;
 
-        const formatted = res.data.map(formatSearchProfile).join("\n\n---\n\n");
-        return textResult(header + formatted);
+        const searchProfiles = res.data.map(toSearchProfile);
+        const text = renderList(format, searchProfiles, {
+          markdown: () => res.data.map(formatSearchProfile).join("\n\n---\n\n"),
+          compact: ["client_id", "active", "marketing_type", "cities", "price", "price_to", "number_of_rooms", "living_space"],
+        });
+        return textResult(header + text, { search_profiles: searchProfiles, total: res.meta?.total_count ?? null });
       } catch (err) {
         return errorResult("Search profile", err);
       }
@@ -311,7 +323,9 @@ Use radius search (lat/lng/radius) for "within 5km of Alexanderplatz".`,
           { body: { saved_query: stripUndefined(args) } },
         );
 
-        return textResult(`Search profile created successfully.\n\n${formatSearchProfile(profile)}`);
+        return textResult(`Search profile created successfully.\n\n${formatSearchProfile(profile)}`, {
+          search_profile: toSearchProfile(profile),
+        });
       } catch (err) {
         return errorResult("Search profile", err);
       }
@@ -347,7 +361,9 @@ Only provide the fields you want to change.`,
           { body: { saved_query: stripUndefined(fields) } },
         );
 
-        return textResult(`Search profile updated successfully.\n\n${formatSearchProfile(profile)}`);
+        return textResult(`Search profile updated successfully.\n\n${formatSearchProfile(profile)}`, {
+          search_profile: toSearchProfile(profile),
+        });
       } catch (err) {
         return errorResult("Search profile", err);
       }
@@ -363,15 +379,32 @@ Only provide the fields you want to change.`,
 Use this tool when:
 - A contact has found a property and is no longer searching
 - The search profile was created in error
-- A contact explicitly asks to stop receiving matching notifications`,
+- A contact explicitly asks to stop receiving matching notifications
+
+If the server requires confirmation for deletions, the first call returns a
+preview and a confirmation_token instead of deleting. Call again with the
+token only once the user agrees.`,
     {
       id: z.number()
         .describe("Search profile ID to delete"),
+      confirmation_token: z.string().optional()
+        .describe("Token from a previous preview of this exact deletion. Only pass after the user confirmed."),
     },
     async (args) => {
       try {
+        const pending = await requireConfirmation(server, confirmations, {
+          tool: "delete_search_profile",
+          action: `delete_search_profile:${args.id}`,
+          token: args.confirmation_token,
+          preview: async () => {
+            const profile = await client.get<PropstackSearchProfile>(`/saved_queries/${args.id}`);
+            return `About to delete this search profile:\n\n${formatSearchProfile(profile)}`;
+          },
+        });
+        if (pending) return pending;
+
         await client.delete(`/saved_queries/${args.id}`);
-        return textResult(`Search profile ${args.id} deleted.`);
+        return textResult(`Search profile ${args.id} deleted.`, { deleted: true, id: args.id });
       } catch (err) {
         return errorResult("Search profile", err);
       }
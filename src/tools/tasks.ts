@@ -3,6 +3,7 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { PropstackClient } from "../propstack-client.js";
 import type { PropstackTask } from "../types/propstack.js";
 import { textResult, errorResult, fmt, stripUndefined } from "./helpers.js";
+import { toTask } from "./output-schemas.js";
 
 // ── Response formatting ──────────────────────────────────────────────
 
@@ -167,7 +168,7 @@ The body field accepts HTML content.`,
           { body: { task: stripUndefined(args) } },
         );
 
-        return textResult(`Task created successfully.\n\n${formatTask(task)}`);
+        return textResult(`Task created successfully.\n\n${formatTask(task)}`, { task: toTask(task) });
       } catch (err) {
         return errorResult("Task", err);
       }
@@ -253,7 +254,7 @@ Only provide the fields you want to change.`,
           { body: { task: stripUndefined(fields) } },
         );
 
-        return textResult(`Task updated successfully.\n\n${formatTask(task)}`);
+        return textResult(`Task updated successfully.\n\n${formatTask(task)}`, { task: toTask(task) });
       } catch (err) {
         return errorResult("Task", err);
       }
@@ -291,7 +292,7 @@ Use this tool to:
           { params },
         );
 
-        return textResult(formatTask(task));
+        return textResult(formatTask(task), { task: toTask(task) });
       } catch (err) {
         return errorResult("Task", err);
       }
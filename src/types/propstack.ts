@@ -175,6 +175,10 @@ export interface PropstackContact {
   newsletter: boolean | null;
   accept_contact: boolean | null;
   gdpr_status: number | null;
+  /** Retention date (YYYY-MM-DD) after which the contact's data should be deleted. */
+  keep_data_till?: string | null;
+  /** When the contact asked for deletion through the customer portal. */
+  cp_delete_request_date?: string | null;
   warning_notice: string | null;
 
   // Tags & custom fields
@@ -475,6 +479,12 @@ export interface PropstackProject {
 
 // ── Email (Message) ─────────────────────────────────────────────────
 
+/** Email template (Textbaustein) used by send_email's snippet_id. */
+export interface PropstackSnippet {
+  id: number;
+  name: string | null;
+}
+
 export interface PropstackEmail {
   id: number;
   subject: string | null;
@@ -515,6 +525,11 @@ export interface PropstackDocument {
   position: number | null;
   broker_id: number | null;
 
+  // What the document is attached to
+  client_id?: number | null;
+  property_id?: number | null;
+  project_id?: number | null;
+
   // Flags
   is_private: boolean | null;
   is_floorplan: boolean | null;
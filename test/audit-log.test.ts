@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PropstackClient } from "../src/propstack-client.js";
+import { AuditLog, hashPii, recordIds, type AuditEntry } from "../src/audit-log.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+import { connectMcp, closeSessions } from "./support/mcp-session.js";
+
+describe("hashPii", () => {
+  it("replaces personal fields with stable digests and keeps the rest", () => {
+    type Args = { id: number; email: string; nested: { last_name: string; rating: number } };
+    const out = hashPii({ id: 7, email: "max@example.com", nested: { last_name: "Muster", rating: 2 } }) as Args;
+    expect(out.id).toBe(7);
+    expect(out.email).toMatch(/^sha256:[0-9a-f]{16}$/);
+    expect(out.email).toBe((hashPii({ email: "max@example.com" }) as Pick<Args, "email">).email);
+    expect(out.nested).toEqual({ last_name: expect.stringMatching(/^sha256:/), rating: 2 });
+  });
+});
+
+describe("recordIds", () => {
+  it("collects numeric path segments and the response id", () => {
+    expect(recordIds("/contacts/42", { id: 42 })).toEqual([42]);
+    expect(recordIds("/contacts", { id: 99, name: "x" })).toEqual([99]);
+    expect(recordIds("/hooks/5", undefined)).toEqual([5]);
+  });
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "audit-"));
+    file = join(dir, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("attributes writes to the tool call that made them", async () => {
+    const log = new AuditLog(file);
+    await log.recordTool({ tool: "update_contact", session: "session-1", account: "acct-a" }, { id: 42 }, async () => {
+      log.recordRequest({ method: "GET", path: "/contacts/42", status: 200, response: { id: 42 } });
+      log.recordRequest({ method: "PUT", path: "/contacts/42", status: 200, response: { id: 42 } });
+      return { content: [] };
+    });
+
+    const lines = readFileSync(file, "utf8").trim().split("\n").map((l) => JSON.parse(l));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ kind: "request", method: "PUT", tool: "update_contact", session: "session-1", account: "acct-a", record_ids: [42] });
+    expect(lines[1]).toMatchObject({ kind: "tool", tool: "update_contact", ok: true, args: { id: 42 } });
+  });
+
+  it("logs failed tool calls and hashes arguments when configured", async () => {
+    const log = new AuditLog(file, true);
+    await expect(
+      log.recordTool({ tool: "create_contact", session: "stdio", account: null }, { email: "a@b.de" }, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    const [entry] = log.query();
+    expect(entry).toMatchObject({ kind: "tool", ok: false, error: "boom" });
+    expect(JSON.stringify(entry)).not.toContain("a@b.de");
+  });
+
+  it("filters by kind, tool, record and time, newest first", async () => {
+    const log = new AuditLog(file);
+    await log.recordTool({ tool: "delete_contact", session: "s", account: "acct-a" }, { id: 1 }, async () => {
+      log.recordRequest({ method: "DELETE", path: "/contacts/1", status: 200, response: undefined });
+    });
+    await log.recordTool({ tool: "delete_webhook", session: "s", account: "acct-b" }, { id: 2 }, async () => {
+      log.recordRequest({ method: "DELETE", path: "/hooks/2", status: 404, response: undefined });
+    });
+
+    expect(log.query().map((e) => e.tool)).toEqual(["delete_webhook", "delete_webhook", "delete_contact", "delete_contact"]);
+    expect(log.query({ kind: "request", recordId: 1 })).toHaveLength(1);
+    expect(log.query({ recordId: 2 })).toHaveLength(0); // failed writes touch no records
+    expect(log.query({ tool: "delete_contact", kind: "tool" })).toHaveLength(1);
+    expect(log.query({ since: new Date(Date.now() + 60_000) })).toHaveLength(0);
+    expect(log.query({ limit: 1 })).toHaveLength(1);
+    expect(log.query({ account: "acct-a" }).map((e) => e.tool)).toEqual(["delete_contact", "delete_contact"]);
+  });
+
+  it("keeps erasure receipts findable by contact and erased record", () => {
+    const log = new AuditLog(file);
+    log.recordErasure({
+      contact_id: 7,
+      operator: "Anna",
+      method: "delete",
+      started_at: new Date().toISOString(),
+      completed: true,
+      records: [
+        { type: "task", id: 70, action: "deleted", ok: true },
+        { type: "contact", id: 7, action: "deleted", ok: true },
+      ],
+    });
+
+    expect(log.query({ recordId: 7 })).toMatchObject([{ kind: "erasure", contact_id: 7, operator: "Anna", tool: null, session: "stdio" }]);
+    expect(log.query({ recordId: 70 })).toHaveLength(1);
+    expect(log.query({ kind: "request" })).toHaveLength(0);
+  });
+
+  it("returns nothing when the log does not exist yet", () => {
+    expect(new AuditLog(join(dir, "missing.jsonl")).query()).toEqual([]);
+  });
+});
+
+describe("audit log over MCP", () => {
+  let mock: MockPropstack;
+  let dir: string;
+
+  beforeAll(async () => {
+    mock = await startMockPropstack();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "audit-"));
+  });
+
+  afterEach(async () => {
+    await closeSessions();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function connect(auditLog: AuditLog, account: string) {
+    const client = new PropstackClient("test-key", { baseUrl: mock.baseUrl, onRequest: (event) => auditLog.recordRequest(event) });
+    return connectMcp(client, { auditLog, account });
+  }
+
+  it("hashes every personal argument of real tool calls", async () => {
+    const file = join(dir, "audit.jsonl");
+    const mcp = await connect(new AuditLog(file, true), "acct-a");
+    const calls = [
+      ["search_contacts", { q: "Mustermann", phone_number: "+49 170 1234567" }],
+      ["smart_lead_intake", {
+        first_name: "Jonas", last_name: "Neumann", email: "jonas.neumann@example.org", phone: "+49 151 9999999",
+        notes: "Ruft abends an", property_interest: "Dachgeschoss in Kreuzberg",
+      }],
+      ["create_contact", {
+        academic_title: "Dr.", first_name: "Jonas", last_name: "Neumann",
+        office_street: "Hafenweg", office_house_number: "12a", office_zip_code: "20457", office_city: "Hamburg",
+      }],
+    ] as const;
+    for (const [name, args] of calls) {
+      await mcp.callTool({ name, arguments: args });
+    }
+
+    const log = readFileSync(file, "utf8");
+    for (const [, args] of calls) {
+      for (const value of Object.values(args)) expect(log).not.toContain(value);
+    }
+    expect(log).toContain("sha256:");
+  });
+
+  it("only shows an account its own entries", async () => {
+    const auditLog = new AuditLog(join(dir, "audit.jsonl"));
+    const agencyA = await connect(auditLog, "acct-a");
+    const agencyB = await connect(auditLog, "acct-b");
+    await agencyA.callTool({ name: "get_contact", arguments: { id: 101 } });
+
+    const seen = await agencyB.callTool({ name: "query_audit_log", arguments: {} });
+    const { entries } = seen.structuredContent as { entries: AuditEntry[] };
+    expect(entries.map((e) => e.account)).toEqual([]);
+    const own = await agencyA.callTool({ name: "query_audit_log", arguments: {} });
+    expect((own.structuredContent as { entries: AuditEntry[] }).entries).toMatchObject([{ tool: "get_contact", account: "acct-a" }]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { PropstackClient } from "../src/propstack-client.js";
+import { checkConnection } from "../src/check.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+
+let mock: MockPropstack;
+
+beforeAll(async () => {
+  mock = await startMockPropstack();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+describe("checkConnection", () => {
+  it("lists the account's brokers when the key works", async () => {
+    const result = await checkConnection(new PropstackClient("test-key", { baseUrl: mock.baseUrl }), mock.baseUrl, "test-key");
+    expect(result.ok).toBe(true);
+    expect(result.lines).toEqual([
+      `OK: API key accepted by ${mock.baseUrl}`,
+      "Account has 1 broker:",
+      "  - Anna Maklerin (ID: 1, anna@makler.example)",
+    ]);
+  });
+
+  it("reports a missing or rejected key", async () => {
+    const missing = await checkConnection(new PropstackClient("", { baseUrl: mock.baseUrl }), mock.baseUrl, "");
+    expect(missing).toEqual({ ok: false, lines: ["PROPSTACK_API_KEY is not set."] });
+
+    mock.use({ method: "GET", path: "/brokers", status: 401, body: { error: "Unauthorized" } });
+    const rejected = await checkConnection(new PropstackClient("bad-key", { baseUrl: mock.baseUrl }), mock.baseUrl, "bad-key");
+    expect(rejected.ok).toBe(false);
+    expect(rejected.lines[0]).toContain("API key was rejected");
+  });
+
+  it("points at the network settings when Propstack is unreachable", async () => {
+    const baseUrl = "http://127.0.0.1:1/v1";
+    const client = new PropstackClient("test-key", { baseUrl, retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, maxRetryAfterMs: 0 } });
+    const result = await checkConnection(client, baseUrl, "test-key");
+    expect(result.ok).toBe(false);
+    expect(result.lines[1]).toContain("PROPSTACK_BASE_URL");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { PropstackClient } from "../src/propstack-client.js";
+import { createCompleters } from "../src/completions.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+import { connectMcp, closeSessions } from "./support/mcp-session.js";
+
+let mock: MockPropstack;
+
+beforeAll(async () => {
+  mock = await startMockPropstack();
+  mock.use({
+    method: "GET",
+    path: "/snippets",
+    status: 200,
+    body: [{ id: 40, name: "Exposé-Versand" }, { id: 41, name: "Besichtigung Nachfassen" }],
+  }, {
+    method: "GET",
+    path: "/property_statuses",
+    status: 200,
+    body: { data: [{ id: 3, name: "Vermarktung" }, { id: 4, name: "Reserviert" }, { id: 5, name: "Verkauft" }] },
+  }, {
+    method: "GET",
+    path: "/groups",
+    query: { entity: "for_clients" },
+    status: 200,
+    body: [{ id: 60, name: "Käufer", groups: [{ id: 61, name: "Kapitalanleger", super_group_id: 60 }, { id: 62, name: "Eigennutzer", super_group_id: 60 }] }],
+  }, {
+    method: "GET",
+    path: "/groups",
+    query: { entity: "for_properties" },
+    status: 200,
+    body: [{ id: 70, name: "Penthouse", super_group_id: null }, { id: 71, name: "Erstbezug", super_group_id: null }],
+  });
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+const completers = () => createCompleters(new PropstackClient("test-key", { baseUrl: mock.baseUrl }));
+
+describe("createCompleters", () => {
+  it("matches reference data by name or ID prefix", async () => {
+    const c = completers();
+    expect(await c.broker("anna")).toEqual(["1"]);
+    expect(await c.broker("x")).toEqual([]);
+    expect(await c.pipeline("verk")).toEqual(["10"]);
+    expect(await c.snippet("besicht")).toEqual(["41"]);
+    expect(await c.snippet(undefined)).toEqual(["41", "40"]);
+  });
+
+  it("completes lead sources, property statuses and tags", async () => {
+    const c = completers();
+    expect(await c.contactSource("immo")).toEqual(["21"]);
+    expect(await c.contactSource(undefined)).toEqual(["22", "21"]);
+    expect(await c.propertyStatus("ver")).toEqual(["5", "3"]);
+    expect(await c.contactTag("anleger")).toEqual(["61"]);
+    expect(await c.contactTag(undefined)).toEqual(["62", "61"]);
+    expect(await c.propertyTag("")).toEqual(["71", "70"]);
+  });
+
+  it("completes stages of the pipeline given in the other arguments", async () => {
+    const c = completers();
+    expect(await c.dealStage("", { arguments: { pipeline_id: "10" } })).toEqual(["11", "12", "13"]);
+    expect(await c.dealStage("", { arguments: { pipeline_id: "99" } })).toEqual([]);
+  });
+
+  it("searches contacts by name once two characters are typed", async () => {
+    const c = completers();
+    expect(await c.contact("M")).toEqual([]);
+    expect(await c.contact("Muster")).toEqual(["101", "102"]);
+    expect(mock.requests.at(-1)?.query).toMatchObject({ q: "Muster", per_page: "10" });
+  });
+
+  it("returns no suggestions when a lookup fails", async () => {
+    const failing = createCompleters(new PropstackClient("test-key", { baseUrl: `${mock.baseUrl}/missing` }));
+    expect(await failing.broker("anna")).toEqual([]);
+  });
+});
+
+describe("completion requests", () => {
+  afterEach(closeSessions);
+
+  it("completes prompt arguments and resource template variables", async () => {
+    const mcp = await connectMcp(new PropstackClient("test-key", { baseUrl: mock.baseUrl }));
+
+    expect(mcp.getServerCapabilities()?.completions).toBeDefined();
+
+    const broker = await mcp.complete({
+      ref: { type: "ref/prompt", name: "weekly_pipeline_review" },
+      argument: { name: "broker_id", value: "An" },
+    });
+    expect(broker.completion.values).toEqual(["1"]);
+
+    const source = await mcp.complete({
+      ref: { type: "ref/resource", uri: "propstack://contacts/source/{id}" },
+      argument: { name: "id", value: "Emp" },
+    });
+    expect(source.completion.values).toEqual(["22"]);
+
+    const status = await mcp.complete({
+      ref: { type: "ref/resource", uri: "propstack://properties/status/{id}" },
+      argument: { name: "id", value: "reserv" },
+    });
+    expect(status.completion.values).toEqual(["4"]);
+
+    const tag = await mcp.complete({
+      ref: { type: "ref/resource", uri: "propstack://properties/tag/{id}" },
+      argument: { name: "id", value: "pent" },
+    });
+    expect(tag.completion.values).toEqual(["70"]);
+
+    const contactTag = await mcp.complete({
+      ref: { type: "ref/resource", uri: "propstack://contacts/tag/{id}" },
+      argument: { name: "id", value: "anleger" },
+    });
+    expect(contactTag.completion.values).toEqual(["61"]);
+
+    const entity = await mcp.complete({
+      ref: { type: "ref/resource", uri: "propstack://custom-fields/{entity}" },
+      argument: { name: "entity", value: "pro" },
+    });
+    expect(entity.completion.values).toEqual(["properties", "projects"]);
+  });
+});
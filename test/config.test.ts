@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import { loadConfig } from "../src/config.js";
+import { DEFAULT_CACHE_RULES } from "../src/response-cache.js";
+import { DEFAULT_RATE_LIMITS } from "../src/rate-limiter.js";
+
+describe("loadConfig", () => {
+  it("defaults to stdio with the standard HTTP settings", () => {
+    const config = loadConfig([], {});
+    expect(config.transport).toBe("stdio");
+    expect(config.http).toEqual({
+      host: "127.0.0.1",
+      port: 3000,
+      path: "/mcp",
+      requireSessionKey: false,
+      sessionIdleTimeoutMs: 1_800_000,
+      allowedHosts: [],
+      allowedOrigins: [],
+    });
+    expect(config.tools).toEqual({ readOnly: false, toolsets: [], allowTools: [], denyTools: [] });
+    expect(config.confirmDestructive).toBe(false);
+    expect(config.audit).toEqual({ path: null, hashPii: false });
+    expect(config.cache).toEqual(DEFAULT_CACHE_RULES);
+    expect(config.limits).toEqual(DEFAULT_RATE_LIMITS);
+    expect(config.idempotencyStore).toBeNull();
+    expect(config.recordFixtures).toBeNull();
+    expect(config.exportDir).toBeNull();
+    expect(config.redaction).toEqual({ enabled: false, mapPath: null });
+    expect(config.network).toEqual({ baseUrl: null, proxy: null, noProxy: [], caFile: null });
+    expect(config.check).toBe(false);
+  });
+
+  it("selects HTTP via --http or PROPSTACK_MCP_TRANSPORT", () => {
+    expect(loadConfig(["--http"], {}).transport).toBe("http");
+    expect(loadConfig([], { PROPSTACK_MCP_TRANSPORT: "HTTP" }).transport).toBe("http");
+  });
+
+  it("reads the port from flags (both forms) before the environment", () => {
+    expect(loadConfig(["--port", "8080"], { PROPSTACK_MCP_PORT: "9000" }).http.port).toBe(8080);
+    expect(loadConfig(["--port=8081"], {}).http.port).toBe(8081);
+    expect(loadConfig([], { PROPSTACK_MCP_PORT: "9000" }).http.port).toBe(9000);
+  });
+
+  it("reads the host from flag or environment", () => {
+    expect(loadConfig(["--host", "0.0.0.0"], {}).http.host).toBe("0.0.0.0");
+    expect(loadConfig([], { PROPSTACK_MCP_HOST: "::" }).http.host).toBe("::");
+  });
+
+  it("enables multi-tenant mode via flag or truthy environment value", () => {
+    expect(loadConfig(["--multi-tenant"], {}).http.requireSessionKey).toBe(true);
+    expect(loadConfig([], { PROPSTACK_MCP_MULTI_TENANT: "true" }).http.requireSessionKey).toBe(true);
+    expect(loadConfig([], { PROPSTACK_MCP_MULTI_TENANT: "0" }).http.requireSessionKey).toBe(false);
+  });
+
+  it("reads the session idle timeout in seconds", () => {
+    expect(loadConfig(["--session-timeout", "90"], {}).http.sessionIdleTimeoutMs).toBe(90_000);
+    expect(loadConfig([], { PROPSTACK_MCP_SESSION_TIMEOUT: "0" }).http.sessionIdleTimeoutMs).toBe(0);
+    expect(() => loadConfig(["--session-timeout=-1"], {})).toThrow(/--session-timeout/);
+  });
+
+  it("reads the allowed hosts and origins", () => {
+    const { http } = loadConfig(["--allowed-hosts", "MCP.example.com, mcp.example.com:8443"], {
+      PROPSTACK_MCP_ALLOWED_ORIGINS: "https://app.example.com",
+    });
+    expect(http.allowedHosts).toEqual(["mcp.example.com", "mcp.example.com:8443"]);
+    expect(http.allowedOrigins).toEqual(["https://app.example.com"]);
+  });
+
+  it("enables read-only mode via flag or environment", () => {
+    expect(loadConfig(["--read-only"], {}).tools.readOnly).toBe(true);
+    expect(loadConfig([], { PROPSTACK_READ_ONLY: "1" }).tools.readOnly).toBe(true);
+  });
+
+  it("enables destructive-action confirmation via flag or environment", () => {
+    expect(loadConfig(["--confirm-destructive"], {}).confirmDestructive).toBe(true);
+    expect(loadConfig([], { PROPSTACK_CONFIRM_DESTRUCTIVE: "yes" }).confirmDestructive).toBe(true);
+  });
+
+  it("reads the audit log path and PII hashing option", () => {
+    expect(loadConfig(["--audit-log", "/tmp/audit.jsonl", "--audit-hash-pii"], {}).audit)
+      .toEqual({ path: "/tmp/audit.jsonl", hashPii: true });
+    expect(loadConfig([], { PROPSTACK_AUDIT_LOG: "audit.jsonl" }).audit).toEqual({ path: "audit.jsonl", hashPii: false });
+  });
+
+  it("merges cache TTL overrides into the defaults, or turns caching off", () => {
+    const rules = loadConfig(["--cache-ttl", "brokers=30, /tags=120"], {}).cache;
+    expect(rules).toContainEqual({ prefix: "/brokers", ttlMs: 30_000 });
+    expect(rules).toContainEqual({ prefix: "/tags", ttlMs: 120_000 });
+    expect(rules).toHaveLength(DEFAULT_CACHE_RULES.length + 1);
+    expect(loadConfig([], { PROPSTACK_CACHE_TTL: "off" }).cache).toEqual([]);
+    expect(() => loadConfig([], { PROPSTACK_CACHE_TTL: "/brokers" })).toThrow(/Invalid cache rule/);
+  });
+
+  it("reads rate and concurrency limits", () => {
+    const config = loadConfig(["--rate-limit", "2.5", "--max-concurrency=1"], { PROPSTACK_RATE_BURST: "3" });
+    expect(config.limits).toEqual({ requestsPerSecond: 2.5, burst: 3, maxConcurrent: 1 });
+    expect(() => loadConfig([], { PROPSTACK_RATE_LIMIT: "-1" })).toThrow(/PROPSTACK_RATE_LIMIT/);
+  });
+
+  it("reads the idempotency store and fixture recording paths", () => {
+    expect(loadConfig(["--idempotency-store=keys.json"], {}).idempotencyStore).toBe("keys.json");
+    expect(loadConfig([], { PROPSTACK_IDEMPOTENCY_STORE: "/var/lib/keys.json" }).idempotencyStore).toBe("/var/lib/keys.json");
+    expect(loadConfig(["--record-fixtures", "fixtures"], {}).recordFixtures).toBe("fixtures");
+  });
+
+  it("reads the contact export directory", () => {
+    expect(loadConfig(["--export-dir", "exports"], {}).exportDir).toBe("exports");
+    expect(loadConfig([], { PROPSTACK_EXPORT_DIR: "/srv/dsgvo" }).exportDir).toBe("/srv/dsgvo");
+  });
+
+  it("reads the PII redaction settings", () => {
+    expect(loadConfig(["--redact-pii", "--pseudonym-map", "map.jsonl"], {}).redaction).toEqual({ enabled: true, mapPath: "map.jsonl" });
+    expect(loadConfig([], { PROPSTACK_REDACT_PII: "1", PROPSTACK_PSEUDONYM_MAP: "/srv/map.jsonl" }).redaction)
+      .toEqual({ enabled: true, mapPath: "/srv/map.jsonl" });
+  });
+
+  it("reads base URL, proxy and CA settings", () => {
+    const config = loadConfig(["--base-url", "https://sandbox.example/v1/", "--check"], {
+      HTTPS_PROXY: "http://proxy.corp:8080",
+      NO_PROXY: "localhost, .corp",
+      PROPSTACK_CA_FILE: "/etc/ssl/corp.pem",
+    });
+    expect(config.network).toEqual({
+      baseUrl: "https://sandbox.example/v1",
+      proxy: "http://proxy.corp:8080",
+      noProxy: ["localhost", ".corp"],
+      caFile: "/etc/ssl/corp.pem",
+    });
+    expect(config.check).toBe(true);
+    expect(loadConfig([], { PROPSTACK_PROXY: "http://a:1", HTTP_PROXY: "http://b:2" }).network.proxy).toBe("http://a:1");
+    expect(() => loadConfig([], { PROPSTACK_BASE_URL: "api.propstack.de" })).toThrow(/Invalid URL/);
+    expect(() => loadConfig(["--proxy=socks5://p:1080"], {})).toThrow(/http:\/\/ or https:\/\//);
+  });
+
+  it("parses toolsets (expanding aliases) and allow/deny lists", () => {
+    const config = loadConfig(["--deny-tools", "delete_contact"], {
+      PROPSTACK_TOOLSETS: "contacts, calendar",
+      PROPSTACK_ALLOW_TOOLS: "list_users,",
+    });
+    expect(config.tools.toolsets).toEqual(["contacts", "tasks", "activities"]);
+    expect(config.tools.allowTools).toEqual(["list_users"]);
+    expect(config.tools.denyTools).toEqual(["delete_contact"]);
+  });
+
+  it("rejects unknown toolset names", () => {
+    expect(() => loadConfig(["--toolsets=contacts,crm"], {})).toThrow(/Unknown toolset "crm"/);
+  });
+
+  it("rejects invalid ports, missing flag values and unknown transports", () => {
+    expect(() => loadConfig(["--port", "abc"], {})).toThrow(/Invalid port/);
+    expect(() => loadConfig(["--port", "70000"], {})).toThrow(/Invalid port/);
+    expect(() => loadConfig(["--port"], {})).toThrow(/Missing value for --port/);
+    expect(() => loadConfig([], { PROPSTACK_MCP_TRANSPORT: "sse" })).toThrow(/PROPSTACK_MCP_TRANSPORT/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from "vitest";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ConfirmationStore, requireConfirmation } from "../src/tools/confirmation.js";
+
+/** Minimal McpServer stand-in exposing only what requireConfirmation touches. */
+function fakeServer(elicitation?: { action: string; content?: Record<string, unknown> }): McpServer {
+  return {
+    server: {
+      getClientCapabilities: () => (elicitation ? { elicitation: {} } : {}),
+      elicitInput: vi.fn(async () => elicitation),
+    },
+  } as unknown as McpServer;
+}
+
+function text(result: { content: { text: string }[] } | null): string {
+  return result?.content[0]?.text ?? "";
+}
+
+describe("ConfirmationStore", () => {
+  it("redeems a token once, for the action it was issued for", () => {
+    const store = new ConfirmationStore();
+    const token = store.issue("delete_contact:1");
+    expect(store.consume(token, "delete_contact:2")).toBe(false);
+    expect(store.consume(token, "delete_contact:1")).toBe(true);
+    expect(store.consume(token, "delete_contact:1")).toBe(false);
+  });
+
+  it("rejects expired tokens", () => {
+    const store = new ConfirmationStore();
+    const token = store.issue("delete_webhook:7", 0);
+    expect(store.consume(token, "delete_webhook:7", 6 * 60 * 1000)).toBe(false);
+  });
+});
+
+describe("requireConfirmation", () => {
+  const request = (token?: string) => ({
+    tool: "delete_contact",
+    action: "delete_contact:42",
+    token,
+    preview: async () => "About to delete Max Mustermann",
+  });
+
+  it("proceeds immediately when confirmation mode is off", async () => {
+    expect(await requireConfirmation(fakeServer(), null, request())).toBeNull();
+  });
+
+  it("returns a preview with a token, then proceeds when the token is presented", async () => {
+    const store = new ConfirmationStore();
+    const preview = text(await requireConfirmation(fakeServer(), store, request()));
+    expect(preview).toContain("About to delete Max Mustermann");
+    const token = /confirmation_token: "([0-9a-f]+)"/.exec(preview)?.[1];
+    expect(token).toBeDefined();
+
+    expect(await requireConfirmation(fakeServer(), store, request(token))).toBeNull();
+    expect(text(await requireConfirmation(fakeServer(), store, request(token)))).toMatch(/invalid or expired/);
+  });
+
+  it("asks through elicitation when the client supports it", async () => {
+    const store = new ConfirmationStore();
+    const accepted = fakeServer({ action: "accept", content: { confirm: true } });
+    expect(await requireConfirmation(accepted, store, request())).toBeNull();
+
+    const declined = fakeServer({ action: "decline" });
+    expect(text(await requireConfirmation(declined, store, request()))).toMatch(/^Cancelled/);
+  });
+});
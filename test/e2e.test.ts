@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PropstackClient } from "../src/propstack-client.js";
+import { PropstackV2Client } from "../src/propstack-v2-client.js";
+import type { ServerOptions } from "../src/server.js";
+import { IdempotencyStore } from "../src/idempotency.js";
+import { AuditLog } from "../src/audit-log.js";
+import { FixtureRecorder } from "../src/fixtures.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+import { connectMcp, closeSessions, text } from "./support/mcp-session.js";
+
+// End-to-end: MCP client → McpServer → tool handler → PropstackClient →
+// HTTP → mock Propstack serving test/fixtures/propstack.
+
+let mock: MockPropstack;
+
+beforeAll(async () => {
+  mock = await startMockPropstack();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.requests.length = 0;
+});
+
+afterEach(closeSessions);
+
+async function connect(options: ServerOptions = {}, client?: PropstackClient) {
+  const mcp = await connectMcp(client ?? new PropstackClient("test-key", { baseUrl: mock.baseUrl }), options);
+  return async (name: string, args: Record<string, unknown> = {}): Promise<string> =>
+    text(await mcp.callTool({ name, arguments: args }));
+}
+
+const writes = () => mock.requests.filter((r) => r.method !== "GET");
+
+describe("contacts", () => {
+  it("search_contacts lists matching contacts", async () => {
+    const call = await connect();
+    const text = await call("search_contacts", { q: "Muster" });
+    expect(text).toContain("Found 2 contacts");
+    expect(text).toContain("**Max Mustermann** (ID: 101)");
+    expect(mock.requests[0]?.query).toMatchObject({ q: "Muster" });
+  });
+
+  it("get_contact reports unknown IDs as not found", async () => {
+    const call = await connect();
+    expect(await call("get_contact", { id: 101 })).toContain("max.mustermann@example.com");
+    expect(await call("get_contact", { id: 999 })).toBe("Contact not found. No contact with ID 999 exists.");
+  });
+
+  it("full_contact_360 combines contact, search profiles, deals and activity", async () => {
+    const call = await connect();
+    const text = await call("full_contact_360", { contact_id: 101 });
+    expect(text).toContain("# Max Mustermann (ID: 101)");
+    expect(text).toContain("## Search Profiles (2)");
+    expect(text).toContain("**Deal #301**: Altbauwohnung am Park\nAnfrage");
+    expect(text).toContain("Telefonat: Interesse an Altbauwohnung");
+  });
+
+  it("delete_contact asks for confirmation when confirmation mode is on", async () => {
+    const call = await connect({ confirmDestructive: true });
+    const preview = await call("delete_contact", { id: 101 });
+    expect(preview).toContain("About to delete this contact");
+    expect(preview).toContain("- Deals: 2");
+    expect(writes()).toHaveLength(0);
+
+    const token = /confirmation_token: "([0-9a-f]+)"/.exec(preview)![1];
+    expect(await call("delete_contact", { id: 101, confirmation_token: token })).toContain("Contact 101 deleted");
+    expect(writes()).toEqual([expect.objectContaining({ method: "DELETE", path: "/contacts/101" })]);
+  });
+});
+
+describe("properties and deals", () => {
+  it("search_properties and get_property render listings", async () => {
+    const call = await connect();
+    expect(await call("search_properties", {})).toContain("| 501 | Altbauwohnung am Park | BUY/APARTMENT |");
+    expect(await call("get_property", { id: 501 })).toContain("**Altbauwohnung am Park** (ID: 501)");
+  });
+
+  it("search_deals resolves stage names from the pipelines", async () => {
+    const call = await connect();
+    const text = await call("search_deals", {});
+    expect(text).toContain("Found 2 deals");
+    expect(text).toContain("Besichtigung");
+  });
+
+  it("pipeline_summary aggregates stages and flags stale deals", async () => {
+    const call = await connect();
+    const text = await call("pipeline_summary", {});
+    expect(text).toContain("Total deals: 2");
+    expect(text).toContain("| Anfrage | 1 |");
+    expect(text).toContain("## Stale Deals (no update in 14+ days): 1");
+    expect(text).toContain("**Deal #301**");
+  });
+
+  it("pipeline_summary scrolls all deals through API V2 when available", async () => {
+    const v2 = new PropstackV2Client("test-key", { baseUrl: mock.baseUrl.replace(/\/v1$/, "/v2") });
+    const call = await connect({ v2 });
+    const text = await call("pipeline_summary", { pipeline_id: 10 });
+    expect(text).toContain("Total deals: 2");
+    expect(text).toContain("| Besichtigung | 1 |");
+    expect(text).toContain("Max Mustermann");
+    expect(text).toContain("Altbauwohnung am Park");
+    expect(mock.requests.some((r) => r.path === "/client_properties")).toBe(false);
+    const scrolls = mock.requests.filter((r) => r.path === "/client_properties/scroll");
+    expect(scrolls).toHaveLength(3);
+    expect(scrolls.every((r) => r.query["include"] === "client,property")).toBe(true);
+  });
+
+  it("portfolio_overview aggregates all listings through API V2", async () => {
+    const v2 = new PropstackV2Client("test-key", { baseUrl: mock.baseUrl.replace(/\/v1$/, "/v2") });
+    const call = await connect({ v2 });
+    const text = await call("portfolio_overview");
+    expect(text).toContain("Listings: 3");
+    expect(text).toContain("Reserved: 1 (33.3%) | Sold/let: 1 (33.3%)");
+    expect(text).toContain("| Anna Maklerin | 2 |");
+    expect(text).toContain("| Broker #2 | 1 |");
+    expect(text).toContain("| HOUSE | 2 |");
+    expect(text).not.toContain("Stadtvilla");
+  });
+
+  it("portfolio_overview falls back to V1 paging", async () => {
+    const call = await connect();
+    const text = await call("portfolio_overview");
+    expect(text).toContain("Listings: 2");
+    expect(text).toContain("| Verfügbar | 1 |");
+    expect(mock.requests.find((r) => r.path === "/units")?.query).toMatchObject({ with_meta: "1" });
+  });
+
+  it("property_performance_report summarizes inquiries and activity", async () => {
+    const call = await connect();
+    const text = await call("property_performance_report", { property_id: 501 });
+    expect(text).toContain("Total inquiries: 2");
+    expect(text).toContain("Total activities: 2");
+  });
+
+  it("match_contacts_to_property ranks the matching search profile first", async () => {
+    const call = await connect();
+    const text = await call("match_contacts_to_property", { property_id: 501 });
+    expect(text).toMatch(/\*\*1\. Contact #101\*\* — Score: 12\/12/);
+  });
+
+  it("match_contacts_to_property says when max_profiles cut the search short", async () => {
+    const call = await connect();
+    const text = await call("match_contacts_to_property", { property_id: 501, max_profiles: 1 });
+    expect(text).toContain("out of 1 total");
+    expect(text).toContain("Only the first 1 of 2 search profiles were checked");
+  });
+});
+
+describe("smart_lead_intake", () => {
+  it("creates contact, note, deal and reminder for a new lead", async () => {
+    const call = await connect();
+    const text = await call("smart_lead_intake", {
+      first_name: "Jonas",
+      last_name: "Neu",
+      phone: "+49 151 9999999",
+      notes: "Sucht 3 Zimmer",
+      property_id: 501,
+    });
+    expect(text).toContain("Action: Contact **created**");
+    expect(text).toContain("Contact: Jonas Neu (ID: 201)");
+    expect(text).toContain("Deal: created (ID: 401) for property 501");
+
+    const posted = writes().map((r) => `${r.method} ${r.path}`).sort();
+    expect(posted).toEqual(["POST /client_properties", "POST /contacts", "POST /tasks", "POST /tasks"]);
+    const deal = writes().find((r) => r.path === "/client_properties")!;
+    expect(deal.body).toMatchObject({ client_property: { client_id: 201, deal_stage_id: 11, deal_pipeline_id: 10 } });
+  });
+
+  it("updates an existing contact found by phone", async () => {
+    const call = await connect();
+    const text = await call("smart_lead_intake", { first_name: "Max", last_name: "Mustermann", phone: "+49 170 1234567" });
+    expect(text).toContain("Action: Contact **updated**");
+    expect(writes().map((r) => `${r.method} ${r.path}`)).toEqual(["PUT /contacts/101", "POST /tasks"]);
+  });
+
+  it("does not create duplicates when retried with the same idempotency_key", async () => {
+    const store = new IdempotencyStore();
+    const client = new PropstackClient("test-key", {
+      baseUrl: mock.baseUrl,
+      onRequest: (event) => store.recordRequest(event),
+    });
+    const call = await connect({ idempotency: { store, scope: "test" } }, client);
+    const args = { first_name: "Jonas", last_name: "Neu", phone: "+49 151 9999999", idempotency_key: "call-42" };
+
+    await call("smart_lead_intake", args);
+    const retried = await call("smart_lead_intake", args);
+
+    expect(retried).toContain("Already processed");
+    expect(writes().filter((r) => r.path === "/contacts")).toHaveLength(1);
+  });
+
+  it("does not create the contact again when a retried intake had failed part-way", async () => {
+    const store = new IdempotencyStore();
+    const client = new PropstackClient("test-key", {
+      baseUrl: mock.baseUrl,
+      onRequest: (event) => store.recordRequest(event),
+    });
+    // The contact is created, then loading the pipelines for the deal fails.
+    const get = client.get.bind(client);
+    vi.spyOn(client, "get").mockImplementation((path, opts) =>
+      path === "/deal_pipelines" ? Promise.reject(new Error("Pipelines unavailable")) : get(path, opts));
+    const call = await connect({ idempotency: { store, scope: "test" } }, client);
+    const args = { first_name: "Jonas", last_name: "Neu", property_id: 501, idempotency_key: "call-43" };
+
+    expect(await call("smart_lead_intake", args)).toContain("Pipelines unavailable");
+    const retried = await call("smart_lead_intake", args);
+
+    expect(retried).toContain("The original call failed after these writes");
+    expect(writes().filter((r) => r.path === "/contacts")).toHaveLength(1);
+  });
+});
+
+describe("structured output", () => {
+  async function connectClient(options: ServerOptions = {}) {
+    const mcp = await connectMcp(new PropstackClient("test-key", { baseUrl: mock.baseUrl }), options);
+    // Listing tools makes the client validate structuredContent against each outputSchema.
+    const { tools } = await mcp.listTools();
+    return { mcp, tools };
+  }
+
+  it("declares an output schema for every tool", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "audit-"));
+    try {
+      const { tools } = await connectClient({ auditLog: new AuditLog(join(dir, "audit.jsonl")) });
+      expect(tools.length).toBeGreaterThan(50);
+      expect(tools.filter((t) => !t.outputSchema).map((t) => t.name)).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("returns records alongside the text", async () => {
+    const { mcp } = await connectClient();
+
+    const contacts = await mcp.callTool({ name: "search_contacts", arguments: { q: "Muster" } });
+    expect(contacts.structuredContent).toMatchObject({
+      contacts: [expect.objectContaining({ id: 101, name: "Max Mustermann", email: "max.mustermann@example.com" }), expect.anything()],
+    });
+
+    const property = await mcp.callTool({ name: "get_property", arguments: { id: 501 } });
+    expect(property.structuredContent).toMatchObject({ property: { id: 501, title: "Altbauwohnung am Park" } });
+
+    const deals = await mcp.callTool({ name: "search_deals", arguments: {} });
+    expect(deals.structuredContent).toMatchObject({ deals: expect.arrayContaining([expect.objectContaining({ deal_stage: "Besichtigung" })]) });
+
+    const summary = await mcp.callTool({ name: "pipeline_summary", arguments: {} });
+    expect(summary.structuredContent).toMatchObject({ total_deals: 2, capped: false, stale_deals: [expect.objectContaining({ id: 301 })] });
+
+    const portfolio = await mcp.callTool({ name: "portfolio_overview", arguments: {} });
+    expect(portfolio.structuredContent).toMatchObject({
+      total_listings: 2,
+      total_sale_value: 450000,
+      total_monthly_rent: 1850,
+      reserved: 1,
+      reserved_share: 50,
+      by_marketing_type: [{ key: "BUY", count: 1 }, { key: "RENT", count: 1 }],
+      capped: false,
+    });
+  });
+
+  it("limits records to the selected fields", async () => {
+    const { mcp } = await connectClient();
+    const result = await mcp.callTool({ name: "search_contacts", arguments: { q: "Muster", fields: ["email"] } });
+    const [first] = (result.structuredContent as { contacts: Record<string, unknown>[] }).contacts;
+    expect(first).toEqual({ id: 101, email: "max.mustermann@example.com" });
+  });
+
+  it("renders list results in the requested format", async () => {
+    const call = await connect();
+
+    const compact = await call("search_contacts", { q: "Muster", format: "compact" });
+    expect(compact).toContain("#101 Max Mustermann | email=max.mustermann@example.com");
+    expect(compact).not.toContain("---");
+
+    const csv = await call("search_properties", { format: "csv", fields: ["title", "city"] });
+    expect(csv).toContain("id,title,city\n501,Altbauwohnung am Park,");
+
+    const json = await call("search_deals", { format: "json" });
+    const records = JSON.parse(json.slice(json.indexOf("["))) as Record<string, unknown>[];
+    expect(records).toEqual(expect.arrayContaining([expect.objectContaining({ deal_stage: "Besichtigung" })]));
+
+    const profiles = await call("list_search_profiles", { format: "compact" });
+    expect(profiles).toContain("#701 | client_id=101 | active=true | marketing_type=BUY | cities=Berlin | price=300000 | price_to=500000 | number_of_rooms=2");
+  });
+
+  it("flags API errors with isError instead of structured content", async () => {
+    const { mcp } = await connectClient();
+    const result = await mcp.callTool({ name: "get_contact", arguments: { id: 999 } });
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
+
+describe("progress", () => {
+  it("pipeline_summary reports progress while paging deals", async () => {
+    const mcp = await connectMcp(new PropstackClient("test-key", { baseUrl: mock.baseUrl }));
+
+    const updates: { progress: number; total?: number; message?: string }[] = [];
+    await mcp.callTool({ name: "pipeline_summary", arguments: {} }, undefined, { onprogress: (p) => updates.push(p) });
+    expect(updates).toEqual([{ progress: 2, total: 2, message: "Fetched 2 of 2 deals" }]);
+  });
+});
+
+describe("record mode", () => {
+  it("captures real responses as fixtures the mock server can replay", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "fixtures-"));
+    try {
+      const recording = new PropstackClient("test-key", { baseUrl: mock.baseUrl, recorder: new FixtureRecorder(dir) });
+      const recorded = await recording.get("/contacts/101");
+
+      const replay = await startMockPropstack(dir);
+      try {
+        const client = new PropstackClient("test-key", { baseUrl: replay.baseUrl });
+        expect(await client.get("/contacts/101")).toEqual(recorded);
+      } finally {
+        await replay.close();
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,400 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PropstackClient } from "../src/propstack-client.js";
+import { PropstackV2Client } from "../src/propstack-v2-client.js";
+import type { ServerOptions } from "../src/server.js";
+import { AuditLog } from "../src/audit-log.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+import { connectMcp, closeSessions, text } from "./support/mcp-session.js";
+
+let mock: MockPropstack;
+
+beforeAll(async () => {
+  mock = await startMockPropstack();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+beforeEach(() => {
+  mock.requests.length = 0;
+});
+
+afterEach(closeSessions);
+
+async function connect(options: ServerOptions = {}) {
+  const mcp = await connectMcp(new PropstackClient("test-key", { baseUrl: mock.baseUrl }), options);
+  await mcp.listTools();
+  return mcp;
+}
+
+const v2 = () => new PropstackV2Client("test-key", { baseUrl: mock.baseUrl.replace(/\/v1$/, "/v2") });
+
+describe("gdpr_consent_report", () => {
+  it("counts consent across all contacts scrolled through API V2", async () => {
+    const mcp = await connect({ v2: v2() });
+    const result = await mcp.callTool({ name: "gdpr_consent_report", arguments: {} });
+
+    expect(result.structuredContent).toMatchObject({
+      total_contacts: 4,
+      by_gdpr_status: [
+        { status: "Keine Angabe", contacts: 1 },
+        { status: "Ignoriert", contacts: 1 },
+        { status: "Zugestimmt", contacts: 1 },
+        { status: "Widerrufen", contacts: 1 },
+      ],
+      accept_contact: { yes: 2, no: 1, unset: 1 },
+      newsletter: { yes: 2, no: 1, unset: 1 },
+      problems: {
+        withdrawn_but_contactable: { count: 1, ids: [102] },
+        past_retention: { count: 1, ids: [103] },
+        deletion_requested: { count: 1, ids: [104] },
+      },
+      by_broker: [
+        { key: "Anna Maklerin", contacts: 2, consented: 1, withdrawn: 1 },
+        { key: "Unassigned", contacts: 1, past_retention: 1 },
+        { key: "Broker #2", contacts: 1, no_consent: 1 },
+      ],
+      by_source: expect.arrayContaining([{ key: "ImmoScout24", contacts: 2, consented: 1, withdrawn: 0, no_consent: 1, past_retention: 0 }]),
+      capped: false,
+    });
+    expect(text(result)).toContain("Consent withdrawn, but accept_contact or newsletter still set: 1 (IDs: 102)");
+  });
+
+  it("asks V2 for the consent fields only", async () => {
+    const mcp = await connect({ v2: v2() });
+    await mcp.callTool({ name: "gdpr_consent_report", arguments: {} });
+    const scroll = mock.requests.find((r) => r.path === "/clients/scroll");
+    expect(scroll?.query["fields"]).toBe("id,gdpr_status,accept_contact,newsletter,keep_data_till,cp_delete_request_date,broker_id,client_source_id");
+  });
+
+  it("falls back to V1 paging without names or contact details", async () => {
+    const mcp = await connect();
+    const result = await mcp.callTool({ name: "gdpr_consent_report", arguments: {} });
+    expect(result.structuredContent).toMatchObject({ total_contacts: 2, capped: false, minimized: false });
+    const contacts = mock.requests.find((r) => r.path === "/contacts");
+    expect(contacts?.query["fields"]).toBe("id,gdpr_status,accept_contact,newsletter,keep_data_till,cp_delete_request_date,broker_id,client_source_id");
+    expect(text(result)).toContain("API V1 ignored the field list and returned full contact records");
+    expect(JSON.stringify(result)).not.toMatch(/Mustermann|example\.com/);
+  });
+
+  it("reports a minimized V1 scan when V1 honours the field list", async () => {
+    mock.use({
+      method: "GET",
+      path: "/contacts",
+      query: { fields: "id,gdpr_status,accept_contact,newsletter,keep_data_till,cp_delete_request_date,broker_id,client_source_id" },
+      status: 200,
+      body: { data: [{ id: 101, gdpr_status: 2, accept_contact: true, newsletter: null, broker_id: 1 }], meta: { total_count: 1 } },
+    });
+    const mcp = await connect();
+    const result = await mcp.callTool({ name: "gdpr_consent_report", arguments: {} });
+    expect(result.structuredContent).toMatchObject({ total_contacts: 1, minimized: true });
+    expect(text(result)).not.toContain("full contact records");
+  });
+
+  it("limits the ID sample per problem", async () => {
+    const mcp = await connect({ v2: v2() });
+    const result = await mcp.callTool({ name: "gdpr_consent_report", arguments: { sample_size: 0 } });
+    expect(result.structuredContent).toMatchObject({ problems: { past_retention: { count: 1, ids: [] } } });
+  });
+});
+
+describe("export_contact_data", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "propstack-export-"));
+    mock.use(
+      {
+        method: "GET",
+        path: "/saved_queries",
+        query: { client: "101" },
+        status: 200,
+        body: { data: [{ id: 701, client_id: 101, active: true, marketing_type: "BUY", cities: ["Berlin"], price: null, price_to: 500000 }], meta: { total_count: 1 } },
+      },
+      {
+        method: "GET",
+        path: "/client_properties",
+        query: { client_id: "101" },
+        status: 200,
+        body: { data: [{ id: 301, client_id: 101, property_id: 501, deal_stage_id: 11, property: { id: 501, title: "Altbauwohnung am Park" } }], meta: { total_count: 1 } },
+      },
+      { method: "GET", path: "/contacts/101/favorites", status: 200, body: [{ id: 502, title: "Reihenhaus mit Garten" }] },
+    );
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("is only offered when an export directory is configured", async () => {
+    const { tools } = await (await connect()).listTools();
+    expect(tools.map((t) => t.name)).not.toContain("export_contact_data");
+  });
+
+  it("writes a JSON bundle and a readable summary, returning only paths and counts", async () => {
+    const mcp = await connect({ exportDir: dir });
+    const result = await mcp.callTool({ name: "export_contact_data", arguments: { contact_id: 101 } });
+
+    const out = result.structuredContent as { json_file: string; summary_file: string };
+    expect(result.structuredContent).toMatchObject({
+      contact_id: 101,
+      records: { search_profiles: 1, deals: 1, activities: 2, documents: null, favorites: 1 },
+      failed: ["documents"],
+      incomplete: [],
+    });
+    expect(JSON.stringify(result)).not.toMatch(/Mustermann|example\.com/);
+    expect(text(result)).toContain("Complete these sections by hand before handing out the export: documents");
+
+    const bundle = JSON.parse(readFileSync(out.json_file, "utf8")) as Record<string, unknown>;
+    expect(bundle).toMatchObject({
+      contact: { id: 101, email: "max.mustermann@example.com" },
+      search_profiles: [{ id: 701 }],
+      deals: [{ id: 301, deal_stage: { name: "Anfrage" } }],
+      favorites: [{ id: 502 }],
+      documents: null,
+    });
+    expect(statSync(out.json_file).mode & 0o777).toBe(0o600);
+
+    const summary = readFileSync(out.summary_file, "utf8");
+    expect(summary).toContain("# Auskunft nach Art. 15 DSGVO");
+    expect(summary).toContain("Betroffene Person: Max Mustermann (Kontakt-ID 101)");
+    expect(summary).toContain("- email: max.mustermann@example.com");
+    expect(summary).toContain("- Altbauwohnung am Park · Phase: Anfrage");
+    expect(summary).toMatch(/## Dokumente\n\nKonnte nicht automatisch abgerufen werden/);
+  });
+
+  it("reports unknown contacts without writing files", async () => {
+    const mcp = await connect({ exportDir: dir });
+    const before = mock.requests.length;
+    const result = await mcp.callTool({ name: "export_contact_data", arguments: { contact_id: 999 } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("No contact with ID 999 exists");
+    expect(mock.requests.length - before).toBe(1);
+  });
+});
+
+describe("erase_contact", () => {
+  let dir: string;
+  let auditLog: AuditLog;
+
+  beforeAll(() => {
+    mock.use(
+      {
+        method: "GET",
+        path: "/contacts/105",
+        status: 200,
+        body: {
+          id: 105,
+          name: "Erika Beispiel",
+          email: "erika@example.com",
+          children: [{ id: 106, name: "Paul Beispiel" }],
+          relationships: [
+            { id: 41, client_id: 105, internal_name: "owner", property_id: 501 },
+            { id: 42, client_id: 105, internal_name: "tenant", property_id: 502 },
+          ],
+        },
+      },
+      {
+        method: "GET",
+        path: "/saved_queries",
+        query: { client: "105" },
+        status: 200,
+        body: { data: [{ id: 711, client_id: 105 }], meta: { total_count: 1 } },
+      },
+      {
+        method: "GET",
+        path: "/activities",
+        query: { client_id: "105" },
+        status: 200,
+        body: {
+          data: [
+            { id: 951, client_id: 105, note_id: 811 },
+            { id: 952, client_id: 105, appointment_id: 821 },
+            { id: 953, client_id: 105, message_id: 831 },
+          ],
+          meta: { total_count: 3 },
+        },
+      },
+      { method: "GET", path: "/events", query: { client: "105" }, status: 200, body: { events: [{ id: 821 }] } },
+      { method: "GET", path: "/documents", query: { client_id: "105" }, status: 200, body: { documents: [{ id: 611, client_id: 105 }] } },
+      {
+        method: "GET",
+        path: "/client_properties",
+        query: { client_id: "105" },
+        status: 200,
+        body: { data: [{ id: 311, client_id: 105, property_id: 501 }], meta: { total_count: 1 } },
+      },
+      { method: "GET", path: "/tasks/811", status: 200, body: { id: 811, client_ids: [105], property_ids: [], project_ids: [] } },
+      // A viewing with another contact at a property: only unlinked.
+      { method: "GET", path: "/tasks/821", status: 200, body: { id: 821, client_ids: [105, 107], property_ids: [501], project_ids: [] } },
+      { method: "PUT", path: "/tasks/:id", status: 200, body: { id: 821 } },
+      { method: "DELETE", path: "/tasks/:id", status: 204 },
+      { method: "DELETE", path: "/documents/:id", status: 204 },
+      { method: "DELETE", path: "/ownerships/:id", status: 204 },
+      { method: "DELETE", path: "/partnerships/:id", status: 422, body: { errors: ["Relationship is locked"] } },
+      { method: "DELETE", path: "/client_properties/:id", status: 204 },
+    );
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "erase-"));
+    auditLog = new AuditLog(join(dir, "audit.jsonl"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writes = () => mock.requests.filter((r) => r.method !== "GET").map((r) => `${r.method} ${r.path}`);
+
+  it("is only offered when an audit log is configured", async () => {
+    const { tools } = await (await connect()).listTools();
+    expect(tools.map((t) => t.name)).not.toContain("erase_contact");
+  });
+
+  it("reports linked records and waits for confirmation", async () => {
+    writeFileSync(join(dir, "contact-105-2026-10-01T10-00-00-000Z.json"), "{}");
+    const mcp = await connect({ auditLog, exportDir: dir });
+    const result = await mcp.callTool({ name: "erase_contact", arguments: { contact_id: 105, operator: "Anna Maklerin" } });
+
+    expect(result.structuredContent).toMatchObject({ deleted: false, confirmation_token: expect.any(String) });
+    const report = text(result);
+    expect(report).toContain("Erasure impact for contact #105 (Erika Beispiel)");
+    expect(report).toContain("- Tasks and notes: 1 (IDs 811)");
+    expect(report).toContain("- Events: none");
+    expect(report).toContain("- Shared tasks and events (also linked to other contacts, properties or projects): 1 (IDs 821)");
+    expect(report).toContain("- Ownerships: 1 (IDs 41)");
+    expect(report).toContain("- Partnerships: 1 (IDs 42)");
+    expect(report).toContain("- Messages (emails, letters): 1");
+    expect(report).toContain("- Sub-contacts: 1 (IDs 106)");
+    expect(report).toContain("Keep the linked records");
+    expect(report).toContain(`- Audit log ${join(dir, "audit.jsonl")}`);
+    expect(report).toContain("contact-105-2026-10-01T10-00-00-000Z.json");
+    expect(writes()).toEqual([]);
+    expect(auditLog.query({ kind: "erasure" })).toEqual([]);
+  });
+
+  it("anonymizes the contact and records a receipt", async () => {
+    const mcp = await connect({ auditLog });
+    const args = { contact_id: 105, operator: "Anna Maklerin", method: "anonymize" };
+    const preview = await mcp.callTool({ name: "erase_contact", arguments: args });
+    const token = (preview.structuredContent as { confirmation_token: string }).confirmation_token;
+
+    const result = await mcp.callTool({ name: "erase_contact", arguments: { ...args, confirmation_token: token } });
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      anonymized: true,
+      completed: true,
+      records: [{ type: "contact", id: 105, action: "anonymized", ok: true }],
+      local_copies: [expect.stringContaining("Audit log")],
+    });
+    expect(result.structuredContent).not.toHaveProperty("deleted");
+    expect(writes()).toEqual(["PUT /contacts/105"]);
+    const put = mock.requests.find((r) => r.method === "PUT");
+    expect(put?.body).toMatchObject({ client: { last_name: "Anonymisiert", email: null, newsletter: false, accept_contact: false } });
+
+    const [receipt] = auditLog.query({ kind: "erasure", recordId: 105 });
+    expect(receipt).toMatchObject({ kind: "erasure", tool: "erase_contact", contact_id: 105, operator: "Anna Maklerin", method: "anonymize", completed: true });
+  });
+
+  it("deletes dependents in order and leaves the contact when one fails", async () => {
+    const mcp = await connect({ auditLog });
+    const args = { contact_id: 105, operator: "Anna Maklerin", dependents: "delete" };
+    const preview = await mcp.callTool({ name: "erase_contact", arguments: args });
+    const token = (preview.structuredContent as { confirmation_token: string }).confirmation_token;
+
+    const result = await mcp.callTool({ name: "erase_contact", arguments: { ...args, confirmation_token: token } });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("Erasure of contact 105 stopped: partnership 42 could not be erased");
+    expect(writes()).toEqual([
+      "PUT /tasks/821",
+      "DELETE /saved_queries/711",
+      "DELETE /tasks/811",
+      "DELETE /documents/611",
+      "DELETE /ownerships/41",
+      "DELETE /partnerships/42",
+    ]);
+
+    const [receipt] = auditLog.query({ kind: "erasure" });
+    expect(receipt).toMatchObject({ contact_id: 105, method: "delete", completed: false });
+    expect(auditLog.query({ kind: "erasure", recordId: 811 })).toHaveLength(1);
+    expect(mock.requests.find((r) => r.method === "PUT")?.body).toEqual({ task: { client_ids: [107] } });
+    expect(receipt).toMatchObject({ records: expect.arrayContaining([{ type: "event", id: 821, action: "unlinked", ok: true }]) });
+  });
+
+  it("rejects a token issued for other options", async () => {
+    const mcp = await connect({ auditLog });
+    const preview = await mcp.callTool({ name: "erase_contact", arguments: { contact_id: 105, operator: "Anna" } });
+    const token = (preview.structuredContent as { confirmation_token: string }).confirmation_token;
+
+    const result = await mcp.callTool({
+      name: "erase_contact",
+      arguments: { contact_id: 105, operator: "Anna", dependents: "delete", confirmation_token: token },
+    });
+    expect(result.isError).toBe(true);
+    expect(text(result)).toContain("invalid or expired");
+    expect(writes()).toEqual([]);
+  });
+
+  describe("when Propstack returns records of other contacts", () => {
+    beforeAll(() => {
+      // As if the API ignored the contact filters: everyone's records come back.
+      mock.use(
+        { method: "GET", path: "/contacts/109", status: 200, body: { id: 109, name: "Tom Beispiel", relationships: [{ id: 49, client_id: 108, internal_name: "owner" }] } },
+        {
+          method: "GET",
+          path: "/saved_queries",
+          query: { client: "109" },
+          status: 200,
+          body: { data: [{ id: 791, client_id: 109 }, { id: 792, client_id: 108 }], meta: { total_count: 2 } },
+        },
+        { method: "GET", path: "/activities", query: { client_id: "109" }, status: 200, body: { data: [{ id: 991, client_id: 108, note_id: 891 }], meta: { total_count: 1 } } },
+        { method: "GET", path: "/events", query: { client: "109" }, status: 200, body: { events: [] } },
+        { method: "GET", path: "/documents", query: { client_id: "109" }, status: 200, body: { documents: [{ id: 691, client_id: 108 }, { id: 692 }] } },
+        { method: "GET", path: "/client_properties", query: { client_id: "109" }, status: 200, body: { data: [{ id: 391, client_id: 108 }], meta: { total_count: 1 } } },
+        { method: "GET", path: "/tasks/891", status: 200, body: { id: 891, client_ids: [108], property_ids: [], project_ids: [] } },
+      );
+    });
+
+    it("deletes only the contact's own records and reports the rest", async () => {
+      const mcp = await connect({ auditLog });
+      const args = { contact_id: 109, operator: "Anna", dependents: "delete" };
+      const preview = await mcp.callTool({ name: "erase_contact", arguments: args });
+      expect(text(preview)).toContain("- Search profiles: 1 (IDs 791)");
+      expect(text(preview)).toContain(
+        "**Not this contact's:** Propstack also returned task 891 (contact 108), search_profile 792 (contact 108), document 691 (contact 108), " +
+          "document 692 (contact none), ownership 49 (contact 108), deal 391 (contact 108).",
+      );
+      const token = (preview.structuredContent as { confirmation_token: string }).confirmation_token;
+
+      const result = await mcp.callTool({ name: "erase_contact", arguments: { ...args, confirmation_token: token } });
+      expect(result.structuredContent).toMatchObject({ deleted: true, completed: true });
+      expect(writes()).toEqual(["DELETE /saved_queries/791", "DELETE /contacts/109"]);
+      expect(text(result)).toContain("Records of other contacts left alone: task 891, search_profile 792,");
+    });
+
+    it("refuses a token when the linked records changed since the report", async () => {
+      const mcp = await connect({ auditLog });
+      const args = { contact_id: 109, operator: "Anna", dependents: "delete" };
+      const preview = await mcp.callTool({ name: "erase_contact", arguments: args });
+      const token = (preview.structuredContent as { confirmation_token: string }).confirmation_token;
+
+      mock.use({
+        method: "GET",
+        path: "/client_properties",
+        query: { client_id: "109" },
+        status: 200,
+        body: { data: [{ id: 392, client_id: 109 }], meta: { total_count: 1 } },
+      });
+      const result = await mcp.callTool({ name: "erase_contact", arguments: { ...args, confirmation_token: token } });
+      expect(result.isError).toBe(true);
+      expect(text(result)).toContain("changed since the impact report, so nothing was erased");
+      expect(writes()).toEqual([]);
+      expect(auditLog.query({ kind: "erasure" })).toEqual([]);
+    });
+  });
+});
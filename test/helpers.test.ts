@@ -10,6 +10,8 @@ import {
   fmtPrice,
   fmtArea,
   stripUndefined,
+  renderList,
+  toCsv,
   CONTACT_FIELDS,
 } from "../src/tools/helpers.js";
 
@@ -157,3 +159,39 @@ describe("stripUndefined", () => {
     expect("a" in out).toBe(false);
   });
 });
+
+describe("renderList", () => {
+  const rows = [
+    { id: 1, name: "Max Mustermann", email: "max@x.de", city: null },
+    { id: 2, name: "Erika Muster", email: null, city: "Köln" },
+  ];
+  const rendering = { markdown: () => "MARKDOWN", title: "name", compact: ["email", "city"] };
+
+  it("uses the markdown rendering by default", () => {
+    expect(renderList(undefined, rows, rendering)).toBe("MARKDOWN");
+    expect(renderList("markdown", rows, rendering)).toBe("MARKDOWN");
+  });
+
+  it("puts one record per line in compact mode, skipping empty values", () => {
+    expect(renderList("compact", rows, rendering)).toBe(
+      "#1 Max Mustermann | email=max@x.de\n#2 Erika Muster | city=Köln",
+    );
+  });
+
+  it("prints JSON without null values", () => {
+    expect(JSON.parse(renderList("json", rows, rendering))).toEqual([
+      { id: 1, name: "Max Mustermann", email: "max@x.de" },
+      { id: 2, name: "Erika Muster", city: "Köln" },
+    ]);
+  });
+});
+
+describe("toCsv", () => {
+  it("writes a header row and quotes cells with commas, quotes or newlines", () => {
+    const csv = toCsv([
+      { id: 1, title: 'Loft "Am Hafen", Hamburg', tags: ["a", "b"] },
+      { id: 2, note: "line1\nline2" },
+    ]);
+    expect(csv).toBe('id,title,tags,note\n1,"Loft ""Am Hafen"", Hamburg",a; b,\n2,,,"line1\nline2"');
+  });
+});
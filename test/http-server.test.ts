@@ -0,0 +1,273 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import { request, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { PropstackClient } from "../src/propstack-client.js";
+import { createServer } from "../src/server.js";
+import { DEFAULT_TOOL_POLICY } from "../src/tool-policy.js";
+import { defaultAllowedHosts, startHttpServer, type SessionContext } from "../src/http-server.js";
+import type { HttpConfig } from "../src/config.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+
+// MCP client → Streamable HTTP → per-session McpServer → PropstackClient →
+// mock Propstack.
+
+let mock: MockPropstack;
+
+beforeAll(async () => {
+  mock = await startMockPropstack();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "raw", version: "1.0.0" } },
+};
+
+describe("HTTP transport", () => {
+  let http: Server | undefined;
+  let url: URL;
+  let closed: SessionContext[];
+  let closeWaiters: (() => void)[];
+  const clients: Client[] = [];
+
+  async function start(requireSessionKey: boolean, sessionIdleTimeoutMs = 0, options: Partial<HttpConfig> = {}) {
+    closed = [];
+    closeWaiters = [];
+    http = await startHttpServer(
+      { host: "127.0.0.1", port: 0, path: "/mcp", requireSessionKey, sessionIdleTimeoutMs, allowedHosts: [], allowedOrigins: [], ...options },
+      ({ apiKey }) => createServer(new PropstackClient(apiKey ?? "server-key", { baseUrl: mock.baseUrl }), DEFAULT_TOOL_POLICY),
+      (context) => {
+        closed.push(context);
+        for (const resolve of closeWaiters.splice(0)) resolve();
+      },
+    );
+    url = new URL(`http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`);
+  }
+
+  async function connect(apiKey?: string) {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: apiKey ? { "X-Propstack-Api-Key": apiKey } : {} },
+    });
+    const mcp = new Client({ name: "http-test", version: "1.0.0" });
+    await mcp.connect(transport);
+    clients.push(mcp);
+    return { mcp, transport };
+  }
+
+  function post(body: unknown, headers: Record<string, string> = {}) {
+    return fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  /** POST through node:http, which (unlike fetch) sends the given Host header. */
+  function postWithHost(host: string, body: unknown): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const req = request(url, {
+        method: "POST",
+        headers: { Host: host, "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      }, (res) => {
+        res.resume();
+        resolve(res.statusCode!);
+      });
+      req.on("error", reject);
+      req.end(JSON.stringify(body));
+    });
+  }
+
+  /** Resolves when the server next reports a closed session. */
+  function nextSessionClose(): Promise<void> {
+    return new Promise((resolve) => closeWaiters.push(resolve));
+  }
+
+  async function health(): Promise<{ sessions: number }> {
+    return (await fetch(new URL("/health", url))).json() as Promise<{ sessions: number }>;
+  }
+
+  /** Read an SSE response until `done` matches, then stop; returns the events' IDs and data. */
+  async function readEvents(res: Response, done: (data: string) => boolean, abort?: AbortController) {
+    const events: { id: string; data: string }[] = [];
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    while (!events.some((e) => done(e.data))) {
+      const { value, done: ended } = await reader.read();
+      if (ended) break;
+      buffer += decoder.decode(value, { stream: true });
+      const blocks = buffer.split("\n\n");
+      buffer = blocks.pop()!;
+      for (const block of blocks) {
+        const id = /^id: (.*)$/m.exec(block)?.[1];
+        const data = /^data: (.*)$/m.exec(block)?.[1];
+        if (id && data) events.push({ id, data });
+      }
+    }
+    abort?.abort();
+    return events;
+  }
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((c) => c.close()));
+    if (http) {
+      http.closeAllConnections();
+      await new Promise((resolve) => http!.close(resolve));
+      http = undefined;
+    }
+  });
+
+  describe("per-session API keys", () => {
+    it("refuses a session without a key in multi-tenant mode", async () => {
+      await start(true);
+      const res = await post(initialize);
+      expect(res.status).toBe(401);
+      expect(await res.text()).toContain("x-propstack-api-key");
+    });
+
+    it("rejects requests with another key or no key", async () => {
+      await start(true);
+      const { transport } = await connect("key-a");
+      const session = { "Mcp-Session-Id": transport.sessionId! };
+      const list = { jsonrpc: "2.0", id: 2, method: "tools/list" };
+
+      expect((await post(list, { ...session, "X-Propstack-Api-Key": "key-b" })).status).toBe(403);
+      expect((await post(list, session)).status).toBe(403);
+      expect((await post(list, { ...session, Authorization: "Bearer key-a" })).status).toBe(200);
+    });
+
+    it("calls Propstack with each session's own key", async () => {
+      await start(true);
+      const a = await connect("key-a");
+      const b = await connect("key-b");
+      mock.requests.length = 0;
+
+      await a.mcp.callTool({ name: "get_contact", arguments: { id: 101 } });
+      await b.mcp.callTool({ name: "get_contact", arguments: { id: 101 } });
+
+      expect(mock.requests.map((r) => r.apiKey)).toEqual(["key-a", "key-b"]);
+    });
+
+    it("reports each session once when it ends", async () => {
+      await start(true);
+      const { transport } = await connect("key-a");
+      await transport.terminateSession();
+      expect(closed).toEqual([{ apiKey: "key-a" }]);
+    });
+
+    it("releases a session whose initialize was rejected", async () => {
+      await start(true);
+      const res = await post(initialize, { "X-Propstack-Api-Key": "key-a", Accept: "application/json" });
+      expect(res.status).toBe(406);
+      expect(closed).toEqual([{ apiKey: "key-a" }]);
+    });
+  });
+
+  describe("DNS rebinding protection", () => {
+    it("allows the bound address and the loopback names by default", () => {
+      expect(defaultAllowedHosts("127.0.0.1", 3000)).toEqual(["127.0.0.1:3000", "localhost:3000", "[::1]:3000"]);
+      expect(defaultAllowedHosts("0.0.0.0", 3000)).toEqual(["localhost:3000", "127.0.0.1:3000", "[::1]:3000"]);
+      expect(defaultAllowedHosts("10.0.0.5", 8080)).toEqual(["10.0.0.5:8080"]);
+    });
+
+    it("refuses a foreign Host or Origin before creating a session", async () => {
+      await start(false);
+      expect(await postWithHost("attacker.example", initialize)).toBe(403);
+      expect(await postWithHost(`attacker.example:${url.port}`, initialize)).toBe(403);
+
+      const res = await post(initialize, { Origin: "http://attacker.example" });
+      expect(res.status).toBe(403);
+      expect(await res.text()).toContain("origin");
+      expect(await health()).toEqual({ status: "ok", sessions: 0 });
+      expect(closed).toEqual([]);
+
+      expect((await post(initialize, { Origin: `http://localhost:${url.port}` })).status).toBe(200);
+    });
+
+    it("uses the configured hosts and origins instead of the defaults", async () => {
+      await start(false, 0, { allowedHosts: ["mcp.example.com"], allowedOrigins: ["https://app.example.com"] });
+      expect(await postWithHost("mcp.example.com", initialize)).toBe(200);
+      expect(await postWithHost(`127.0.0.1:${url.port}`, initialize)).toBe(403);
+    });
+  });
+
+  describe("sessions", () => {
+    it("initializes a session and reuses it for later requests", async () => {
+      await start(false);
+      const { mcp, transport } = await connect();
+      const sessionId = transport.sessionId;
+      expect(sessionId).toEqual(expect.any(String));
+
+      await mcp.listTools();
+      const result = await mcp.callTool({ name: "get_contact", arguments: { id: 101 } });
+      expect(result.isError).toBeFalsy();
+      expect(transport.sessionId).toBe(sessionId);
+      expect(await health()).toEqual({ status: "ok", sessions: 1 });
+    });
+
+    it("replays missed messages to a client resuming with Last-Event-ID", async () => {
+      await start(false);
+      const init = await post(initialize);
+      const sessionId = init.headers.get("mcp-session-id")!;
+      await readEvents(init, (data) => data.includes('"id":1'));
+      const session = { "Mcp-Session-Id": sessionId };
+      expect((await post({ jsonrpc: "2.0", method: "notifications/initialized" }, session)).status).toBe(202);
+
+      // pipeline_summary sends a progress notification, then its result.
+      const call = await post({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tools/call",
+        params: { name: "pipeline_summary", arguments: {}, _meta: { progressToken: "p1" } },
+      }, session);
+      const [progress, response] = await readEvents(call, (data) => data.includes('"id":2'));
+      expect(progress?.data).toContain("notifications/progress");
+
+      // The client saw only the progress event before the stream broke.
+      const abort = new AbortController();
+      const resumed = await fetch(url, {
+        headers: { ...session, Accept: "text/event-stream", "Last-Event-ID": progress!.id },
+        signal: abort.signal,
+      });
+      expect(resumed.status).toBe(200);
+      const replayed = await readEvents(resumed, (data) => data.includes('"id":2'), abort);
+      expect(replayed).toEqual([response]);
+    });
+
+    it("ends a session on DELETE", async () => {
+      await start(false);
+      const { transport } = await connect();
+      const sessionId = transport.sessionId!;
+
+      await transport.terminateSession();
+
+      const res = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "Mcp-Session-Id": sessionId });
+      expect(res.status).toBe(404);
+      expect(await health()).toEqual({ status: "ok", sessions: 0 });
+      expect(closed).toEqual([{ apiKey: undefined }]);
+    });
+
+    it("closes sessions that stay idle", async () => {
+      await start(false, 200);
+      const sessionClosed = nextSessionClose();
+      const init = await post(initialize);
+      const sessionId = init.headers.get("mcp-session-id")!;
+      await readEvents(init, (data) => data.includes('"id":1'));
+      expect(await health()).toEqual({ status: "ok", sessions: 1 });
+
+      await sessionClosed;
+
+      expect(await health()).toEqual({ status: "ok", sessions: 0 });
+      expect(closed).toEqual([{ apiKey: undefined }]);
+      const res = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, { "Mcp-Session-Id": sessionId });
+      expect(res.status).toBe(404);
+    });
+  });
+});
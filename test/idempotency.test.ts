@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { IdempotencyStore, applyIdempotency } from "../src/idempotency.js";
+
+const created = (id: number) => async () => ({ content: [{ type: "text", text: `Created ${id}` }] });
+
+/** Simulate a create call whose client writes record `id`. */
+function createsRecord(store: IdempotencyStore, id: number) {
+  return async () => {
+    store.recordRequest({ method: "POST", path: "/contacts", status: 201, response: { id } });
+    return created(id)();
+  };
+}
+
+describe("IdempotencyStore", () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it("returns the original result for a repeated key without running again", async () => {
+    const store = new IdempotencyStore();
+    const execute = vi.fn(createsRecord(store, 42));
+
+    await store.run("k1", { name: "Max" }, execute);
+    const replayed = await store.run("k1", { name: "Max" }, execute);
+
+    expect(execute).toHaveBeenCalledOnce();
+    expect(replayed.content[0]?.text).toMatch(/Already processed .* Records: 42\./);
+    expect(replayed.content[1]?.text).toBe("Created 42");
+  });
+
+  it("shares one execution between concurrent calls with the same key", async () => {
+    const store = new IdempotencyStore();
+    const execute = vi.fn(createsRecord(store, 7));
+    const [a, b] = await Promise.all([store.run("k", {}, execute), store.run("k", {}, execute)]);
+    expect(execute).toHaveBeenCalledOnce();
+    expect(a).toBe(b);
+  });
+
+  it("rejects a key reused with different arguments", async () => {
+    const store = new IdempotencyStore();
+    await store.run("k", { name: "Max" }, createsRecord(store, 1));
+    const result = await store.run("k", { name: "Erika" }, createsRecord(store, 2));
+    expect(result.isError).toBe(true);
+  });
+
+  it("does not remember calls that wrote nothing, so they can be retried", async () => {
+    const store = new IdempotencyStore();
+    const failing = vi.fn(async () => ({ content: [{ type: "text", text: "Validation failed" }] }));
+    await store.run("k", {}, failing);
+    await store.run("k", {}, failing);
+    expect(failing).toHaveBeenCalledTimes(2);
+  });
+
+  it("remembers calls that failed after writing, so a retry does not write again", async () => {
+    const store = new IdempotencyStore();
+    const partial = vi.fn(async () => {
+      store.recordRequest({ method: "POST", path: "/contacts", status: 201, response: { id: 9 } });
+      return { content: [{ type: "text", text: "Pipelines unavailable" }], isError: true };
+    });
+    await store.run("k", {}, partial);
+    const replayed = await store.run("k", {}, partial);
+    expect(partial).toHaveBeenCalledOnce();
+    expect(replayed.isError).toBe(true);
+    expect(replayed.content[0]?.text).toMatch(/Records: 9\. The original call failed after these writes/);
+  });
+
+  it("forgets keys after the TTL and persists them to disk", async () => {
+    dir = mkdtempSync(join(tmpdir(), "idem-"));
+    const path = join(dir, "keys.json");
+    const store = new IdempotencyStore(path, 1000);
+    await store.run("k", {}, createsRecord(store, 5), 0);
+
+    const reloaded = new IdempotencyStore(path, 1000);
+    const execute = vi.fn(createsRecord(reloaded, 6));
+    await reloaded.run("k", {}, execute, 500);
+    expect(execute).not.toHaveBeenCalled();
+    await reloaded.run("k", {}, execute, 2000);
+    expect(execute).toHaveBeenCalledOnce();
+  });
+});
+
+describe("applyIdempotency", () => {
+  function register(name: string) {
+    const tool = vi.fn();
+    const server = applyIdempotency({ tool } as unknown as McpServer, new IdempotencyStore(), "acct");
+    const handler = vi.fn(created(1));
+    server.tool(name, "desc", {}, handler);
+    const [, , shape, wrapped] = tool.mock.calls[0]!;
+    return { shape, wrapped, handler };
+  }
+
+  it("adds idempotency_key to create tools and strips it before the handler runs", async () => {
+    const { shape, wrapped, handler } = register("create_contact");
+    expect(shape).toHaveProperty("idempotency_key");
+    await wrapped({ first_name: "Max", idempotency_key: "call-1" }, {});
+    expect(handler).toHaveBeenCalledWith({ first_name: "Max" }, {});
+  });
+
+  it("leaves other tools untouched", () => {
+    const { shape, wrapped, handler } = register("update_contact");
+    expect(shape).not.toHaveProperty("idempotency_key");
+    expect(wrapped).toBe(handler);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Agent, ProxyAgent } from "undici";
+import { bypassesProxy, createDispatcher, type NetworkConfig } from "../src/network.js";
+
+const none: NetworkConfig = { baseUrl: null, proxy: null, noProxy: [], caFile: null };
+const API = "https://api.propstack.de/v1";
+
+describe("bypassesProxy", () => {
+  it("matches exact hosts, domain suffixes and *", () => {
+    expect(bypassesProxy("api.propstack.de", ["propstack.de"])).toBe(true);
+    expect(bypassesProxy("api.propstack.de", [".propstack.de"])).toBe(true);
+    expect(bypassesProxy("propstack.de", ["propstack.de"])).toBe(true);
+    expect(bypassesProxy("notpropstack.de", ["propstack.de"])).toBe(false);
+    expect(bypassesProxy("anything", ["*"])).toBe(true);
+    expect(bypassesProxy("api.propstack.de", [])).toBe(false);
+  });
+});
+
+describe("createDispatcher", () => {
+  it("uses the default dispatcher when nothing is configured", () => {
+    expect(createDispatcher(none, API)).toBeUndefined();
+  });
+
+  it("routes through the proxy unless the host is in NO_PROXY", () => {
+    const proxy = "http://proxy.corp:8080";
+    expect(createDispatcher({ ...none, proxy }, API)).toBeInstanceOf(ProxyAgent);
+    expect(createDispatcher({ ...none, proxy, noProxy: ["propstack.de"] }, API)).toBeUndefined();
+  });
+
+  it("trusts an extra CA file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "ca-"));
+    try {
+      const caFile = join(dir, "ca.pem");
+      writeFileSync(caFile, "-----BEGIN CERTIFICATE-----\n-----END CERTIFICATE-----\n");
+      expect(createDispatcher({ ...none, caFile }, API)).toBeInstanceOf(Agent);
+      expect(() => createDispatcher({ ...none, caFile: join(dir, "missing.pem") }, API)).toThrow(/ENOENT/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import type { PropstackContact, PropstackProperty, PropstackTask } from "../src/types/propstack.js";
+import { TOOL_OUTPUT_SCHEMAS, selectFields, toContact, toProperty, toTask } from "../src/tools/output-schemas.js";
+import { errorResult } from "../src/tools/helpers.js";
+import { PropstackError } from "../src/propstack-client.js";
+
+describe("mappers", () => {
+  it("unwraps Propstack value and name wrappers", () => {
+    const property = {
+      id: 501,
+      title: { value: "Altbauwohnung" },
+      price: { value: "450000", pretty_value: "450.000 €" },
+      living_space: { value: 92.5 },
+      property_status: { id: 3, name: "Vermarktung" },
+    } as unknown as PropstackProperty;
+
+    expect(toProperty(property)).toMatchObject({
+      id: 501,
+      title: "Altbauwohnung",
+      price: 450000,
+      living_space: 92.5,
+      property_status: "Vermarktung",
+      city: null,
+    });
+  });
+
+  it("derives the contact name and status like the text output", () => {
+    const contact = {
+      id: 101,
+      name: null,
+      first_name: "Max",
+      last_name: "Mustermann",
+      home_cell: "0170 1234567",
+      status: { id: 1, label: null, name: "Interessent", color: null },
+    } as unknown as PropstackContact;
+
+    expect(toContact(contact)).toMatchObject({ name: "Max Mustermann", phone: "0170 1234567", status: "Interessent" });
+  });
+
+  it("classifies tasks by mode", () => {
+    const base = { id: 1 } as PropstackTask;
+    expect(toTask(base).kind).toBe("note");
+    expect(toTask({ ...base, is_reminder: true }).kind).toBe("reminder");
+    expect(toTask({ ...base, is_event: true }).kind).toBe("event");
+    expect(toTask({ ...base, is_event: true, reservation_reason_id: 4 }).kind).toBe("cancellation");
+  });
+
+  it("produces records the tool schemas accept", () => {
+    const schema = z.object(TOOL_OUTPUT_SCHEMAS["get_contact"]!);
+    expect(schema.safeParse({ contact: toContact({ id: 7 } as PropstackContact) }).success).toBe(true);
+  });
+});
+
+describe("selectFields", () => {
+  it("keeps only the selected fields plus id, normalized where the shape defines them", () => {
+    const raw = { id: 101, email: "a@b.de", status: { name: "Lead" }, custom_fields: { budget: 5 } } as unknown as PropstackContact;
+    expect(selectFields(toContact(raw), raw, ["status", "custom_fields", "fax"])).toEqual({
+      id: 101,
+      status: "Lead",
+      custom_fields: { budget: 5 },
+      fax: null,
+    });
+  });
+});
+
+describe("errorResult", () => {
+  it("flags Propstack API errors with isError", () => {
+    const result = errorResult("Contact", new PropstackError(404, "Not Found", "", "/contacts/9"));
+    expect(result).toEqual({
+      content: [{ type: "text", text: "Contact not found. No contact with ID 9 exists." }],
+      isError: true,
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from "vitest";
+import { Pagination, readPage } from "../src/pagination.js";
+
+/** A fake list endpoint over `count` records, in the `{ data, meta }` envelope. */
+function endpoint(count: number) {
+  return vi.fn(async (params: Record<string, unknown>) => {
+    const per = Number(params["per_page"] ?? params["per"]);
+    const start = (Number(params["page"]) - 1) * per;
+    const data = Array.from({ length: Math.max(0, Math.min(per, count - start)) }, (_, i) => start + i + 1);
+    return { data, meta: { total_count: count } };
+  });
+}
+
+async function collect<T>(pages: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of pages) items.push(item);
+  return items;
+}
+
+describe("readPage", () => {
+  it("understands every V1 list envelope", () => {
+    expect(readPage([1, 2])).toEqual({ items: [1, 2], total: undefined });
+    expect(readPage({ data: [1], meta: { total_count: 9 } })).toEqual({ items: [1], total: 9 });
+    expect(readPage({ documents: [1] })).toEqual({ items: [1], total: undefined });
+    expect(readPage({ events: [1], meta: { total_count: 3 } })).toEqual({ items: [1], total: 3 });
+    expect(readPage({ hooks: [1] })).toEqual({ items: [1], total: undefined });
+    expect(readPage(null)).toEqual({ items: [], total: undefined });
+  });
+});
+
+describe("Pagination", () => {
+  it("walks pages until the reported total is reached", async () => {
+    const fetchPage = endpoint(250);
+    const pages = new Pagination<number>(fetchPage, { params: { q: "x" } });
+    const items = await collect(pages);
+
+    expect(items).toHaveLength(250);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage).toHaveBeenLastCalledWith({ q: "x", page: 3, per_page: 100 });
+    expect(pages.capped).toBe(false);
+    expect(pages.total).toBe(250);
+  });
+
+  it("stops at maxItems and reports the cap", async () => {
+    const fetchPage = endpoint(500);
+    const pages = new Pagination<number>(fetchPage, { maxItems: 150, pageSize: 100, pageSizeParam: "per" });
+    expect(await collect(pages)).toHaveLength(150);
+    expect(fetchPage).toHaveBeenLastCalledWith({ page: 2, per: 50 });
+    expect(pages.capped).toBe(true);
+  });
+
+  it("does not report a cap when the listing ends exactly at maxItems", async () => {
+    const pages = new Pagination<number>(endpoint(100), { maxItems: 100 });
+    await collect(pages);
+    expect(pages.capped).toBe(false);
+  });
+
+  it("treats a short bare-array page as the last one", async () => {
+    const fetchPage = vi.fn(async () => [1, 2, 3]);
+    expect(await collect(new Pagination<number>(fetchPage))).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledOnce();
+  });
+
+  it("fetches no further pages once the caller stops", async () => {
+    const fetchPage = endpoint(1000);
+    for await (const item of new Pagination<number>(fetchPage)) {
+      if (item === 5) break;
+    }
+    expect(fetchPage).toHaveBeenCalledOnce();
+  });
+
+  it("reports the running count after each page", async () => {
+    const onPage = vi.fn();
+    await collect(new Pagination<number>(endpoint(250), { maxItems: 200, onPage }));
+    expect(onPage.mock.calls).toEqual([
+      [{ items: 100, total: 200 }],
+      [{ items: 200, total: 200 }],
+    ]);
+  });
+
+  it("fetches no further pages once the signal aborts", async () => {
+    const controller = new AbortController();
+    const fetchPage = endpoint(1000);
+    const pages = new Pagination<number>(fetchPage, { signal: controller.signal, onPage: () => controller.abort() });
+    await expect(collect(pages)).rejects.toThrow(/aborted/);
+    expect(fetchPage).toHaveBeenCalledOnce();
+  });
+});
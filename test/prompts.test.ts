@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { PropstackClient } from "../src/propstack-client.js";
+import { DEFAULT_TOOL_POLICY, type ToolPolicy } from "../src/tool-policy.js";
+import { connectMcp, closeSessions } from "./support/mcp-session.js";
+
+// Prompts only expand text; no request reaches Propstack.
+function connect(policy: ToolPolicy = DEFAULT_TOOL_POLICY) {
+  return connectMcp(new PropstackClient("test-key", { baseUrl: "http://127.0.0.1:1/v1" }), {}, policy);
+}
+
+afterEach(closeSessions);
+
+async function promptText(mcp: Client, name: string, args: Record<string, string>): Promise<string> {
+  const { messages } = await mcp.getPrompt({ name, arguments: args });
+  return messages.map((m) => (m.content as { text: string }).text).join("\n");
+}
+
+describe("prompts", () => {
+  it("advertises the broker workflows", async () => {
+    const mcp = await connect();
+    const { prompts } = await mcp.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual([
+      "prepare_call",
+      "weekly_pipeline_review",
+      "new_listing_outreach",
+      "post_viewing_followup",
+    ]);
+    expect(prompts[0]?.arguments).toEqual([expect.objectContaining({ name: "contact_id", required: true })]);
+  });
+
+  it("expands arguments into steps that name the tools", async () => {
+    const mcp = await connect();
+    expect(await promptText(mcp, "prepare_call", { contact_id: "101" })).toContain("Call full_contact_360 with contact_id 101.");
+    const review = await promptText(mcp, "weekly_pipeline_review", { broker_id: "1" });
+    expect(review).toContain("Call pipeline_summary with broker_id 1.");
+    expect(review).toContain("no movement in 14+ days"); // the threshold pipeline_summary uses
+
+    const outreach = await promptText(mcp, "new_listing_outreach", { property_id: "501", broker_id: "1" });
+    expect(outreach).toContain("match_contacts_to_property with property_id 501");
+    expect(outreach).toContain("send_email (broker_id 1)");
+  });
+
+  it("rejects non-numeric IDs", async () => {
+    const mcp = await connect();
+    await expect(mcp.getPrompt({ name: "prepare_call", arguments: { contact_id: "Max" } })).rejects.toThrow(/numeric ID/);
+  });
+
+  it("leaves out write steps in read-only mode", async () => {
+    const mcp = await connect({ ...DEFAULT_TOOL_POLICY, readOnly: true });
+    const text = await promptText(mcp, "post_viewing_followup", { contact_id: "101", property_id: "501", feedback: "Likes the balcony" });
+    expect(text).toContain("Feedback from the viewing: Likes the balcony");
+    expect(text).not.toMatch(/update_deal|create_task|send_email/);
+    expect(text).toContain("Draft a follow-up message for me to send.");
+  });
+
+  it("hides prompts whose tools are not exposed", async () => {
+    const mcp = await connect({ ...DEFAULT_TOOL_POLICY, toolsets: ["contacts"] });
+    expect(mcp.getServerCapabilities()?.prompts).toBeUndefined();
+  });
+});
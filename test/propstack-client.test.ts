@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { PropstackClient, ReadOnlyModeError } from "../src/propstack-client.js";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("PropstackClient read-only mode", () => {
+  it("refuses POST, PUT and DELETE without touching the network", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { readOnly: true });
+
+    await expect(client.post("/contacts", { body: {} })).rejects.toBeInstanceOf(ReadOnlyModeError);
+    await expect(client.put("/contacts/1", { body: {} })).rejects.toBeInstanceOf(ReadOnlyModeError);
+    await expect(client.delete("/contacts/1")).rejects.toThrow(/read-only mode/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("still performs GET requests", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { readOnly: true });
+
+    await expect(client.get("/contacts")).resolves.toEqual({ data: [] });
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+});
+
+describe("PropstackClient response cache", () => {
+  const cache = [{ prefix: "/deal_pipelines", ttlMs: 60_000 }];
+
+  it("serves repeated lookups from the cache, keyed by URL", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [{ id: 1 }] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { cache });
+
+    await client.get("/deal_pipelines");
+    const second = await client.get<{ data: { id: number }[] }>("/deal_pipelines");
+    expect(second).toEqual({ data: [{ id: 1 }] });
+    expect(fetchMock).toHaveBeenCalledOnce();
+
+    await client.get("/deal_pipelines", { params: { page: 2 } });
+    await client.get("/contacts");
+    await client.get("/contacts");
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("hands out copies, so callers cannot corrupt the cached value", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify({ data: [{ id: 1 }] }), { status: 200 })));
+    const client = new PropstackClient("key", { cache });
+
+    const first = await client.get<{ data: { id: number; name?: string }[] }>("/deal_pipelines");
+    first.data[0]!.name = "mutated";
+    expect(await client.get("/deal_pipelines")).toEqual({ data: [{ id: 1 }] });
+  });
+
+  it("drops cached data when the server writes to the same resource", async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ id: 1 }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { cache });
+
+    await client.get("/deal_pipelines/1");
+    await client.put("/deal_pipelines/1", { body: {} });
+    await client.get("/deal_pipelines/1");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("PropstackClient retries", () => {
+  const retry = { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, maxRetryAfterMs: 0 };
+  const networkError = () => new TypeError("fetch failed", { cause: { code: "ECONNRESET" } });
+
+  it("retries idempotent requests after network errors", async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(networkError())
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 1 }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry });
+
+    await expect(client.get("/contacts/1")).resolves.toEqual({ id: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not re-send a POST after a network error", async () => {
+    const fetchMock = vi.fn().mockRejectedValue(networkError());
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry });
+
+    await expect(client.post("/contacts", { body: {} })).rejects.toThrow(/was not retried/);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("retries 503 for GET, honouring Retry-After", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 503, headers: { "Retry-After": "0" } }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry });
+
+    await expect(client.get("/contacts")).resolves.toEqual({ data: [] });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails fast once the circuit breaker opens", async () => {
+    const fetchMock = vi.fn().mockRejectedValue(networkError());
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", {
+      retry: { ...retry, maxRetries: 0 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 60_000 },
+    });
+
+    await expect(client.get("/contacts")).rejects.toThrow("fetch failed");
+    await expect(client.get("/contacts")).rejects.toThrow("fetch failed");
+    await expect(client.get("/contacts")).rejects.toThrow(/appears to be unavailable/);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("recovers after a cancelled probe", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockImplementationOnce(async () => {
+        controller.abort();
+        throw networkError();
+      })
+      .mockImplementation(async () => new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", {
+      retry: { ...retry, maxRetries: 0 },
+      circuitBreaker: { failureThreshold: 2, cooldownMs: 0 },
+    });
+
+    await expect(client.get("/contacts")).rejects.toThrow(/503/);
+    await expect(client.get("/contacts")).rejects.toThrow(/503/);
+    await expect(client.get("/contacts", { signal: controller.signal })).rejects.toThrow(/aborted/);
+    await expect(client.get("/contacts")).resolves.toEqual({ data: [] });
+    await expect(client.get("/contacts")).resolves.toEqual({ data: [] });
+  });
+
+  it("neither sends nor retries a request once its signal aborts", async () => {
+    const fetchMock = vi.fn().mockRejectedValue(networkError());
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(client.get("/contacts", { signal: controller.signal })).rejects.toThrow(/aborted/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("stops retrying when the signal aborts mid-request", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn().mockImplementation(async () => {
+      controller.abort();
+      throw networkError();
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry });
+
+    await expect(client.get("/contacts", { signal: controller.signal })).rejects.toThrow(/aborted/);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("stops waiting out the backoff when the signal aborts", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn().mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 10);
+      return new Response("busy", { status: 503, headers: { "Retry-After": "60" } });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry: { ...retry, maxRetryAfterMs: 60_000 } });
+
+    const started = Date.now();
+    await expect(client.get("/contacts", { signal: controller.signal })).rejects.toThrow(/aborted/);
+    expect(Date.now() - started).toBeLessThan(5_000);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("stops waiting for the rate limiter when the signal aborts", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", { retry, limits: { requestsPerSecond: 0.01, burst: 1, maxConcurrent: 0 } });
+
+    await client.get("/contacts");
+    setTimeout(() => controller.abort(), 10);
+    await expect(client.get("/contacts", { signal: controller.signal })).rejects.toThrow(/aborted/);
+    expect(fetchMock).toHaveBeenCalledOnce();
+  });
+
+  it("keeps the probe when a cancelled caller was not the probe", async () => {
+    const cancelled = new AbortController();
+    let finishProbe!: (res: Response) => void;
+    const fetchMock = vi.fn()
+      .mockImplementationOnce((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => reject(init.signal!.reason));
+      }))
+      .mockResolvedValueOnce(new Response("busy", { status: 503 }))
+      .mockImplementationOnce(() => new Promise((resolve) => { finishProbe = resolve; }))
+      .mockImplementation(async () => new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackClient("key", {
+      retry: { ...retry, maxRetries: 0 },
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 0 },
+    });
+
+    // Sent while the circuit was closed, cancelled while another caller probes.
+    const slow = client.get("/contacts", { signal: cancelled.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    await expect(client.get("/contacts")).rejects.toThrow(/503/);
+    const probe = client.get("/contacts");
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+    cancelled.abort();
+    await expect(slow).rejects.toThrow(/aborted/);
+
+    await expect(client.get("/contacts")).rejects.toThrow(/appears to be unavailable/);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    finishProbe(new Response(JSON.stringify({ data: [] }), { status: 200 }));
+    await expect(probe).resolves.toEqual({ data: [] });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from "vitest";
+import { PropstackV2Client, V2_BASE, v2BaseUrlFor } from "../src/propstack-v2-client.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+
+const noRetry = { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0, maxRetryAfterMs: 0 };
+
+describe("v2BaseUrlFor", () => {
+  it("derives the V2 URL from a V1 URL", () => {
+    expect(v2BaseUrlFor("https://api.propstack.de/v1")).toBe(V2_BASE);
+    expect(v2BaseUrlFor("https://sandbox.example/api/v1")).toBe("https://sandbox.example/api/v2");
+    expect(v2BaseUrlFor("https://gateway.example/propstack")).toBeNull();
+  });
+});
+
+describe("PropstackV2Client against the mock", () => {
+  let mock: MockPropstack;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    mock = await startMockPropstack();
+    baseUrl = mock.baseUrl.replace(/\/v1$/, "/v2");
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  it("follows scroll_id until a page comes back empty", async () => {
+    mock.requests.length = 0;
+    const client = new PropstackV2Client("test-key", { baseUrl });
+    const ids: number[] = [];
+    for await (const deal of client.scrollAll<{ id: number }>("/client_properties/scroll")) ids.push(deal.id);
+
+    expect(ids).toEqual([301, 302, 303]);
+    expect(mock.requests.map((r) => r.query)).toEqual([
+      { per: "1000" },
+      { per: "1000", scroll_id: "scroll-2" },
+      { per: "1000", scroll_id: "scroll-3" },
+    ]);
+  });
+
+  it("stops requesting pages when the caller breaks out", async () => {
+    mock.requests.length = 0;
+    const client = new PropstackV2Client("test-key", { baseUrl });
+    for await (const deal of client.scrollAll<{ id: number }>("/client_properties/scroll")) {
+      if (deal.id === 301) break;
+    }
+    expect(mock.requests).toHaveLength(1);
+  });
+
+  it("reports the running count after each page", async () => {
+    const client = new PropstackV2Client("test-key", { baseUrl });
+    const onPage = vi.fn();
+    const ids: number[] = [];
+    for await (const deal of client.scrollAll<{ id: number }>("/client_properties/scroll", {}, { onPage })) ids.push(deal.id);
+
+    expect(ids).toEqual([301, 302, 303]);
+    expect(onPage.mock.calls).toEqual([[{ items: 2, total: undefined }], [{ items: 3, total: undefined }]]);
+  });
+
+  it("is available when the probe scroll succeeds", async () => {
+    expect(await new PropstackV2Client("test-key", { baseUrl }).available()).toBe(true);
+  });
+});
+
+describe("PropstackV2Client.available", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("disables V2 for good when the key is rejected", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({ error: "Unauthorized" }), { status: 401, statusText: "Unauthorized" }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackV2Client("v1-only-key", { retry: noRetry });
+
+    expect(await client.available()).toBe(false);
+    expect(await client.available()).toBe(false);
+    expect(fetchMock).toHaveBeenCalledOnce();
+    expect(client.unavailableReason).toBe("401 Unauthorized");
+  });
+
+  it("probes again after a transient failure", async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("", { status: 503, statusText: "Service Unavailable" }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: [], scroll_id: "x" }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const client = new PropstackV2Client("key", { retry: noRetry });
+
+    expect(await client.available()).toBe(false);
+    expect(await client.available()).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
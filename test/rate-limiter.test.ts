@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "../src/rate-limiter.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("RateLimiter", () => {
+  it("lets a burst through, then spaces requests at the sustained rate", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burst: 2, maxConcurrent: 0 });
+    const started: number[] = [];
+    const t0 = Date.now();
+    const runs = Array.from({ length: 4 }, () => limiter.run(async () => { started.push(Date.now() - t0); }));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(runs);
+    expect(started).toEqual([0, 0, 500, 1000]);
+  });
+
+  it("never has more than maxConcurrent requests in flight", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, burst: 0, maxConcurrent: 2 });
+    let inFlight = 0;
+    let peak = 0;
+    const task = () => limiter.run(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      inFlight--;
+    });
+
+    const runs = Array.from({ length: 5 }, task);
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(runs);
+    expect(peak).toBe(2);
+  });
+
+  it("stops waiting for a token when the signal aborts, without using it up", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1, burst: 1, maxConcurrent: 0 });
+    const controller = new AbortController();
+    const fn = vi.fn(async () => "ok");
+    await limiter.run(fn);
+
+    const cancelled = limiter.run(fn, controller.signal);
+    const queued = limiter.run(fn);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(/aborted/);
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(queued).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops waiting for a slot when the signal aborts", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, burst: 0, maxConcurrent: 1 });
+    const controller = new AbortController();
+    let finish!: () => void;
+    const running = limiter.run(() => new Promise<void>((resolve) => { finish = resolve; }));
+
+    const cancelled = limiter.run(async () => "never", controller.signal);
+    const queued = limiter.run(async () => "ok");
+    controller.abort();
+    await expect(cancelled).rejects.toThrow(/aborted/);
+    finish();
+    await running;
+    await expect(queued).resolves.toBe("ok");
+  });
+
+  it("frees the slot when a request fails", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, burst: 0, maxConcurrent: 1 });
+    await expect(limiter.run(async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    await expect(limiter.run(async () => "ok")).resolves.toBe("ok");
+  });
+});
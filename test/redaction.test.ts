@@ -0,0 +1,279 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, statSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PropstackClient } from "../src/propstack-client.js";
+import type { ServerOptions } from "../src/server.js";
+import { Pseudonymizer, REDACTED_TEXT } from "../src/redaction.js";
+import { AuditLog } from "../src/audit-log.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+import { connectMcp, closeSessions } from "./support/mcp-session.js";
+
+const contact = {
+  id: 101,
+  first_name: "Max",
+  last_name: "Mustermann",
+  name: "Max Mustermann",
+  email: "Max.Mustermann@example.com",
+  phone: "+49 170 1234567",
+  company: "Muster GmbH",
+  home_street: "Musterstraße",
+  home_house_number: "1",
+  home_city: "Berlin",
+  home_zip_code: "10115",
+  home_country: "DE",
+  dob: "1980-05-17",
+  description: "Scheidung läuft, Budget unklar",
+  broker: { id: 1, name: "Anna Maklerin", email: "anna@makler.de" },
+  custom_fields: { budget: 500000, budget_note: "Erbschaft" },
+  gdpr_status: 2,
+};
+
+describe("Pseudonymizer", () => {
+  it("replaces a contact's PII with pseudonyms and withholds free text", () => {
+    const p = new Pseudonymizer();
+    const out = p.redact("/contacts/101", contact);
+
+    expect(out).toMatchObject({
+      id: 101,
+      first_name: null,
+      name: expect.stringMatching(/^Contact#[0-9A-F]{4}$/),
+      email: expect.stringMatching(/^\*\*\*#[0-9A-F]{4}@example\.com$/),
+      phone: expect.stringMatching(/^\+49\*\*\*#[0-9A-F]{4}$/),
+      company: expect.stringMatching(/^Company#[0-9A-F]{4}$/),
+      home_street: expect.stringMatching(/^Address#[0-9A-F]{4}$/),
+      home_house_number: null,
+      home_city: null,
+      home_zip_code: null,
+      home_country: null,
+      dob: null,
+      description: REDACTED_TEXT,
+      broker: { id: 1, name: "Anna Maklerin", email: "anna@makler.de" },
+      custom_fields: { budget: 500000, budget_note: REDACTED_TEXT },
+      gdpr_status: 2,
+    });
+    expect(out.last_name).toBe(out.name);
+    expect(contact.name).toBe("Max Mustermann"); // the input is not modified
+  });
+
+  it("gives a contact the same pseudonym everywhere it appears", () => {
+    const p = new Pseudonymizer();
+    const { name } = p.redact("/contacts/101", contact);
+    const deals = p.redact("/client_properties", {
+      data: [{ id: 301, client: { id: 101, name: "Max Mustermann" }, property: { id: 501, title: "Altbauwohnung am Park" } }],
+    });
+    const activities = p.redact("/activities", {
+      data: [{ id: 901, title: "Telefonat mit Max Mustermann (max.mustermann@example.com)", body: "Wünscht Rückruf" }],
+    });
+
+    expect(deals.data[0]).toMatchObject({ client: { name }, property: { title: "Altbauwohnung am Park" } });
+    expect(activities.data[0]?.title).toBe(`Telefonat mit ${name} (${p.redact("/contacts", contact).email})`);
+    expect(activities.data[0]?.body).toBe(REDACTED_TEXT);
+  });
+
+  it("treats every record from a contact endpoint as a contact", () => {
+    const p = new Pseudonymizer();
+    const record = { id: 102, name: "Erika Musterfrau", email: "erika@example.com", home_city: "Köln", home_zip_code: "50667" };
+    const expected = {
+      id: 102,
+      name: expect.stringMatching(/^Contact#[0-9A-F]{4}$/),
+      email: expect.stringMatching(/^\*\*\*#[0-9A-F]{4}@example\.com$/),
+      home_city: null,
+      home_zip_code: null,
+    };
+
+    expect(p.redact("/contacts/102", record)).toEqual(expected);
+    expect(p.redact("/contacts", [record])).toEqual([expected]);
+    expect(p.redact("/clients/scroll", { data: [record], scroll_id: "s1" })).toEqual({ data: [expected], scroll_id: "s1" });
+    // Favorites of a contact are properties, not contacts.
+    const favorite = { id: 501, name: "Altbauwohnung am Park", city: "Köln", zip_code: "50667" };
+    expect(p.redact("/contacts/102/favorites", [favorite])).toEqual([favorite]);
+  });
+
+  it("pseudonymizes contact fields flattened onto other records", () => {
+    const p = new Pseudonymizer();
+    const { name } = p.redact("/contacts/101", contact);
+    const deals = p.redact("/client_properties", {
+      data: [{ id: 301, client_id: 101, client_name: "Max Mustermann", client_phone: "+49 170 1234567", property_id: 501 }],
+    });
+
+    expect(deals.data[0]).toEqual({
+      id: 301,
+      client_id: 101,
+      client_name: name,
+      client_phone: expect.stringMatching(/^\+49\*\*\*#[0-9A-F]{4}$/),
+      property_id: 501,
+    });
+    expect(p.redact("/tasks", { title: "Rückruf Erika Schmidt", client_name: "Erika Schmidt" })).toEqual({
+      title: `Rückruf ${p.redact("/client_properties", { client_name: "Erika Schmidt" }).client_name}`,
+      client_name: expect.stringMatching(/^Contact#[0-9A-F]{4}$/),
+    });
+  });
+
+  it("scrubs names learned later and prefers the longest match", () => {
+    const p = new Pseudonymizer();
+    const { name: max } = p.redact("/contacts/101", contact);
+    const { name: mustermann } = p.redact("/contacts/103", { id: 103, name: "Mustermann" });
+    const { title } = p.redact("/activities", { title: "Max Mustermann und Frau Mustermann" });
+
+    expect(title).toBe(`${max} und Frau ${mustermann}`);
+  });
+
+  it("leaves staff and reference data alone", () => {
+    const p = new Pseudonymizer();
+    const brokers = [{ id: 1, first_name: "Anna", last_name: "Maklerin", name: "Anna Maklerin", email: "anna@makler.de" }];
+    expect(p.redact("/brokers", brokers)).toEqual(brokers);
+    const pipelines = [{ id: 10, name: "Verkauf", deal_stages: [{ id: 11, name: "Anfrage" }] }];
+    expect(p.redact("/deal_pipelines", pipelines)).toEqual(pipelines);
+  });
+
+  it("restores pseudonyms in outgoing values", () => {
+    const p = new Pseudonymizer();
+    const out = p.redact("/contacts/101", contact);
+    expect(p.restore({ q: out.name, to: [out.email], note: `Anruf bei ${out.phone}.`, id: 101 })).toEqual({
+      q: "Max Mustermann",
+      to: ["max.mustermann@example.com"],
+      note: "Anruf bei +49 170 1234567.",
+      id: 101,
+    });
+    expect(p.restore("Contact#0000")).toBe("Contact#0000");
+    expect(p.reveal(out.company!)).toBe("Muster GmbH");
+  });
+
+  it("returns real data inside bypass", async () => {
+    const p = new Pseudonymizer();
+    expect(await p.bypass(async () => p.redact("/contacts/101", contact))).toBe(contact);
+  });
+
+  describe("with a mapping file", () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), "pseudonyms-"));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("keeps pseudonyms stable across restarts", () => {
+      const file = join(dir, "pseudonyms.jsonl");
+      const first = new Pseudonymizer(file).redact("/contacts/101", contact);
+      const second = new Pseudonymizer(file);
+      expect(second.redact("/contacts/101", contact)).toEqual(first);
+      expect(second.reveal(first.name!)).toBe("Max Mustermann");
+      expect(statSync(file).mode & 0o777).toBe(0o600);
+      // Digits of the pseudonym are keyed, so a new mapping gives new ones.
+      expect(new Pseudonymizer(join(dir, "other.jsonl")).redact("/contacts/101", contact).name).not.toBe(first.name);
+      expect(readFileSync(file, "utf8")).toContain("\"value\":\"Max Mustermann\"");
+    });
+
+    it("keeps one mapping per account", () => {
+      const file = join(dir, "pseudonyms.jsonl");
+      const agencyA = new Pseudonymizer(file, "acct-a");
+      const agencyB = new Pseudonymizer(file, "acct-b");
+      const { name } = agencyA.redact("/contacts/101", contact);
+
+      expect(agencyB.restore(name)).toBe(name);
+      expect(agencyB.redact("/contacts/101", contact).name).not.toBe(name);
+      expect(new Pseudonymizer(file, "acct-a").reveal(name!)).toBe("Max Mustermann");
+      expect(new Pseudonymizer(file, "acct-b").reveal(name!)).toBeUndefined();
+    });
+
+    it("forgets an erased contact's pseudonyms, also in the file", () => {
+      const file = join(dir, "pseudonyms.jsonl");
+      const agencyA = new Pseudonymizer(file, "acct-a");
+      const agencyB = new Pseudonymizer(file, "acct-b");
+      const out = agencyA.redact("/contacts/101", contact);
+      agencyB.redact("/contacts/101", contact);
+
+      expect(agencyA.forget(out)).toBe(5); // name, company, address, email, phone
+      expect(agencyA.restore(out.name)).toBe(out.name);
+      expect(agencyA.redact("/activities", { title: "Anruf Max Mustermann" }).title).toBe("Anruf Max Mustermann");
+      const reloaded = new Pseudonymizer(file, "acct-a");
+      expect(reloaded.reveal(out.name!)).toBeUndefined();
+      expect(reloaded.redact("/contacts/101", contact).name).toBe(out.name); // same key, same pseudonym
+      expect(new Pseudonymizer(file, "acct-b").restore("x")).toBe("x");
+      expect(readFileSync(file, "utf8")).toMatch(/"account":"acct-b".*"value":"Max Mustermann"/);
+      expect(statSync(file).mode & 0o777).toBe(0o600);
+    });
+  });
+});
+
+describe("redaction mode", () => {
+  let mock: MockPropstack;
+
+  beforeAll(async () => {
+    mock = await startMockPropstack();
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  afterEach(closeSessions);
+
+  function connect(pseudonymizer: Pseudonymizer, options: ServerOptions = {}) {
+    return connectMcp(new PropstackClient("test-key", { baseUrl: mock.baseUrl, pseudonymizer }), options);
+  }
+
+  it("keeps contact PII out of tool output", async () => {
+    const mcp = await connect(new Pseudonymizer());
+    for (const [name, args] of [
+      ["get_contact", { id: 101 }],
+      ["search_contacts", {}],
+      ["search_deals", {}],
+    ] as const) {
+      const result = await mcp.callTool({ name, arguments: args });
+      expect(result.isError).toBeFalsy();
+      expect(JSON.stringify(result)).not.toMatch(/Mustermann|Musterfrau|max\.|erika@|1234567/);
+      expect(JSON.stringify(result)).toMatch(/Contact#[0-9A-F]{4}/);
+    }
+  });
+
+  it("lets the model search by pseudonym", async () => {
+    const pseudonymizer = new Pseudonymizer();
+    const mcp = await connect(pseudonymizer);
+    const found = await mcp.callTool({ name: "search_contacts", arguments: {} });
+    const phone = (found.structuredContent as { contacts: { phone: string | null }[] }).contacts[0]!.phone!;
+    expect(phone).toMatch(/^\+49\*\*\*#/);
+
+    mock.requests.length = 0;
+    await mcp.callTool({ name: "search_contacts", arguments: { phone_number: phone } });
+    expect(mock.requests[0]?.query["phone_number"]).toBe("+49 170 1234567");
+  });
+
+  it("removes an erased contact from the mapping", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "redacted-erase-"));
+    try {
+      const pseudonymizer = new Pseudonymizer(join(dir, "pseudonyms.jsonl"));
+      const mcp = await connect(pseudonymizer, { auditLog: new AuditLog(join(dir, "audit.jsonl")) });
+      const args = { contact_id: 101, operator: "Anna", method: "anonymize" };
+      const preview = await mcp.callTool({ name: "erase_contact", arguments: args });
+      expect(JSON.stringify(preview)).toContain("Pseudonym map");
+      const { confirmation_token } = preview.structuredContent as { confirmation_token: string };
+      const name = (await mcp.callTool({ name: "get_contact", arguments: { id: 101 } })).structuredContent as { contact: { name: string } };
+
+      const result = await mcp.callTool({ name: "erase_contact", arguments: { ...args, confirmation_token } });
+      expect(result.structuredContent).toMatchObject({ anonymized: true });
+      expect(JSON.stringify(result)).toContain("Pseudonyms removed from the mapping");
+      expect(pseudonymizer.reveal(name.contact.name)).toBeUndefined();
+      expect(readFileSync(join(dir, "pseudonyms.jsonl"), "utf8")).not.toContain("Mustermann");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("still writes real data to Art. 15 exports", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "redacted-export-"));
+    try {
+      const mcp = await connect(new Pseudonymizer(), { exportDir: dir });
+      const result = await mcp.callTool({ name: "export_contact_data", arguments: { contact_id: 101 } });
+      const { json_file } = result.structuredContent as { json_file: string };
+      expect(readFileSync(json_file, "utf8")).toContain("max.mustermann@example.com");
+      expect(JSON.stringify(result)).not.toMatch(/Mustermann/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from "vitest";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { PropstackClient } from "../src/propstack-client.js";
+import { DEFAULT_TOOL_POLICY, type ToolPolicy } from "../src/tool-policy.js";
+import { startMockPropstack, type MockPropstack } from "./support/mock-propstack.js";
+import { connectMcp, closeSessions } from "./support/mcp-session.js";
+
+let mock: MockPropstack;
+
+beforeAll(async () => {
+  mock = await startMockPropstack();
+});
+
+afterAll(async () => {
+  await mock.close();
+});
+
+afterEach(closeSessions);
+
+function connect(policy: ToolPolicy = DEFAULT_TOOL_POLICY) {
+  return connectMcp(new PropstackClient("test-key", { baseUrl: mock.baseUrl }), {}, policy);
+}
+
+async function readJson(mcp: Client, uri: string): Promise<Record<string, unknown>> {
+  const { contents } = await mcp.readResource({ uri });
+  expect(contents[0]).toMatchObject({ uri, mimeType: "application/json" });
+  return JSON.parse((contents[0] as { text: string }).text) as Record<string, unknown>;
+}
+
+describe("resources", () => {
+  it("lists reference data and record templates", async () => {
+    const mcp = await connect();
+    const { resources } = await mcp.listResources();
+    expect(resources.map((r) => r.uri)).toEqual(expect.arrayContaining([
+      "propstack://pipelines",
+      "propstack://brokers",
+      "propstack://custom-fields/contacts",
+      "propstack://custom-fields/deals",
+    ]));
+
+    const { resourceTemplates } = await mcp.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(expect.arrayContaining([
+      "propstack://custom-fields/{entity}",
+      "propstack://contact/{id}",
+      "propstack://property/{id}",
+      "propstack://contacts/source/{id}",
+      "propstack://contacts/tag/{id}",
+      "propstack://properties/status/{id}",
+      "propstack://properties/tag/{id}",
+    ]));
+  });
+
+  it("reads pipelines, brokers and custom fields", async () => {
+    const mcp = await connect();
+    expect(await readJson(mcp, "propstack://pipelines")).toMatchObject({
+      pipelines: [{ id: 10, name: "Verkauf", deal_stages: expect.arrayContaining([expect.objectContaining({ name: "Besichtigung" })]) }],
+    });
+    expect(await readJson(mcp, "propstack://brokers")).toMatchObject({ brokers: [{ id: 1, name: "Anna Maklerin" }] });
+    expect(await readJson(mcp, "propstack://custom-fields/contacts")).toMatchObject({
+      entity: "contacts",
+      groups: [{ id: 70, fields: [{ name: "budget" }, { name: "financing", options: ["Bar", "Kredit"] }] }],
+    });
+  });
+
+  it("reads a single contact or property", async () => {
+    const mcp = await connect();
+    expect(await readJson(mcp, "propstack://contact/101")).toMatchObject({
+      contact: { id: 101, name: "Max Mustermann", email: "max.mustermann@example.com" },
+    });
+    expect(await readJson(mcp, "propstack://property/501")).toMatchObject({
+      property: { id: 501, title: "Altbauwohnung am Park" },
+    });
+  });
+
+  it("lists the newest contacts or properties per lead source, status or tag", async () => {
+    const mcp = await connect();
+    const newest = { sort_by: "created_at", order: "desc", per_page: "25" };
+
+    expect(await readJson(mcp, "propstack://contacts/source/21")).toMatchObject({
+      contacts: [{ id: 101, name: "Max Mustermann" }, { id: 102 }],
+      total: 2,
+    });
+    expect(mock.requests.at(-1)?.query).toEqual({ "sources[]": ["21"], ...newest });
+    await readJson(mcp, "propstack://contacts/tag/61");
+    expect(mock.requests.at(-1)?.query).toEqual({ "group[]": ["61"], ...newest });
+
+    expect(await readJson(mcp, "propstack://properties/status/3")).toMatchObject({
+      properties: expect.arrayContaining([expect.objectContaining({ id: 501, title: "Altbauwohnung am Park" })]),
+    });
+    expect(mock.requests.at(-1)?.query).toEqual({ status: "3", with_meta: "1", ...newest });
+    await readJson(mcp, "propstack://properties/tag/70");
+    expect(mock.requests.at(-1)?.query).toEqual({ group: "70", with_meta: "1", ...newest });
+  });
+
+  it("rejects unknown records and entities", async () => {
+    const mcp = await connect();
+    await expect(mcp.readResource({ uri: "propstack://contact/999" })).rejects.toThrow(/not exist/);
+    await expect(mcp.readResource({ uri: "propstack://contact/abc" })).rejects.toThrow(/Invalid record ID/);
+    await expect(mcp.readResource({ uri: "propstack://custom-fields/cars" })).rejects.toThrow(/Unknown entity "cars"/);
+  });
+
+  it("only offers resources whose tools the policy allows", async () => {
+    const mcp = await connect({ ...DEFAULT_TOOL_POLICY, toolsets: ["properties"] });
+    const { resources } = await mcp.listResources();
+    expect(resources).toEqual([]);
+    const { resourceTemplates } = await mcp.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+      "propstack://property/{id}",
+      "propstack://properties/status/{id}",
+      "propstack://properties/tag/{id}",
+    ]);
+  });
+});
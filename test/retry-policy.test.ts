@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  canRetryError,
+  canRetryStatus,
+  parseRetryAfter,
+} from "../src/retry-policy.js";
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2026-10-19T12:00:00Z");
+
+  it("accepts delay-seconds and HTTP-dates", () => {
+    expect(parseRetryAfter("7", now)).toBe(7000);
+    expect(parseRetryAfter("Mon, 19 Oct 2026 12:00:30 GMT", now)).toBe(30_000);
+  });
+
+  it("clamps past dates to zero and rejects garbage", () => {
+    expect(parseRetryAfter("Mon, 19 Oct 2026 11:00:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("grows exponentially up to the cap, scaled by jitter", () => {
+    expect(backoffDelay(DEFAULT_RETRY_POLICY, 1, () => 1)).toBe(1000);
+    expect(backoffDelay(DEFAULT_RETRY_POLICY, 3, () => 1)).toBe(4000);
+    expect(backoffDelay(DEFAULT_RETRY_POLICY, 10, () => 1)).toBe(10_000);
+    expect(backoffDelay(DEFAULT_RETRY_POLICY, 3, () => 0.5)).toBe(2000);
+  });
+});
+
+describe("retry decisions", () => {
+  const refused = new TypeError("fetch failed", { cause: { code: "ECONNREFUSED" } });
+  const reset = new TypeError("fetch failed", { cause: { code: "ECONNRESET" } });
+
+  it("never repeats a POST that may have reached the server", () => {
+    expect(canRetryError("GET", reset)).toBe(true);
+    expect(canRetryError("POST", reset)).toBe(false);
+    expect(canRetryError("POST", refused)).toBe(true);
+  });
+
+  it("retries 429 for every method and 5xx only for idempotent ones", () => {
+    expect(canRetryStatus("POST", 429)).toBe(true);
+    expect(canRetryStatus("GET", 503)).toBe(true);
+    expect(canRetryStatus("POST", 503)).toBe(false);
+    expect(canRetryStatus("GET", 500)).toBe(false);
+    expect(canRetryStatus("GET", 404)).toBe(false);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures, then lets one probe through after the cooldown", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    breaker.check(0);
+    breaker.recordFailure(0);
+    expect(() => breaker.check(500)).toThrow(CircuitOpenError);
+
+    breaker.check(1000); // the probe
+    expect(() => breaker.check(1000)).toThrow(/appears to be unavailable/);
+    breaker.recordSuccess();
+    expect(() => breaker.check(1000)).not.toThrow();
+  });
+
+  it("tells the probe apart from other callers", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    expect(breaker.check(0)).toBe(false);
+    breaker.recordFailure(0);
+    expect(breaker.check(1000)).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.check(1000)).toBe(false);
+  });
+
+  it("lets the next caller probe when a probe is released", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    expect(breaker.check(1000)).toBe(true);
+    breaker.releaseProbe();
+    expect(() => breaker.check(1000)).not.toThrow();
+    expect(() => breaker.check(1000)).toThrow(CircuitOpenError);
+  });
+
+  it("reopens when the probe fails", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    breaker.check(1000);
+    breaker.recordFailure(1000);
+    expect(() => breaker.check(1500)).toThrow(CircuitOpenError);
+  });
+});
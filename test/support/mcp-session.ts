@@ -0,0 +1,33 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { PropstackClient } from "../../src/propstack-client.js";
+import { createServer, type ServerOptions } from "../../src/server.js";
+import { DEFAULT_TOOL_POLICY, type ToolPolicy } from "../../src/tool-policy.js";
+
+// An MCP client connected to a fresh server over an in-memory transport.
+// Test files close every session after each test with `afterEach(closeSessions)`.
+
+const open: { mcp: Client; server: McpServer }[] = [];
+
+export async function connectMcp(
+  propstack: PropstackClient,
+  options: ServerOptions = {},
+  policy: ToolPolicy = DEFAULT_TOOL_POLICY,
+): Promise<Client> {
+  const server = createServer(propstack, policy, options);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const mcp = new Client({ name: "propstack-test", version: "1.0.0" });
+  await Promise.all([server.connect(serverTransport), mcp.connect(clientTransport)]);
+  open.push({ mcp, server });
+  return mcp;
+}
+
+export async function closeSessions(): Promise<void> {
+  await Promise.all(open.splice(0).flatMap(({ mcp, server }) => [mcp.close(), server.close()]));
+}
+
+/** The text blocks of a tool result, joined by newlines. */
+export function text(result: Awaited<ReturnType<Client["callTool"]>>): string {
+  return (result.content as { text: string }[]).map((c) => c.text).join("\n");
+}
@@ -0,0 +1,81 @@
+import { createServer, type IncomingMessage } from "node:http";
+import type { AddressInfo } from "node:net";
+import { fileURLToPath } from "node:url";
+import { loadFixtures, matchFixture, queryOf, type Fixture, type FixtureQuery } from "../../src/fixtures.js";
+
+/** The fixtures shipped with the test suite. */
+export const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL("../fixtures/propstack", import.meta.url));
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  query: FixtureQuery;
+  body: unknown;
+  /** The X-API-KEY the request was sent with. */
+  apiKey: string | undefined;
+}
+
+export interface MockPropstack {
+  /** Base URL to hand to PropstackClient, e.g. http://127.0.0.1:54321/v1 (/v2 is served too) */
+  baseUrl: string;
+  /** Every request received, in order. */
+  requests: ReceivedRequest[];
+  /** Add fixtures that take part in matching like the loaded ones (handy for one test). */
+  use(...fixtures: Fixture[]): void;
+  close(): Promise<void>;
+}
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+/**
+ * Start a local stand-in for the Propstack API that replays fixtures.
+ * Requests without an X-API-KEY get 401, like the real API; requests no
+ * fixture matches get 404 with a message naming the request, so a missing
+ * fixture is obvious from the failing test.
+ */
+export async function startMockPropstack(fixturesDir: string = DEFAULT_FIXTURES_DIR): Promise<MockPropstack> {
+  const fixtures = loadFixtures(fixturesDir);
+  const requests: ReceivedRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname.replace(/^\/v\d+/, "");
+    const query = queryOf(url);
+    const method = req.method ?? "GET";
+    const apiKey = req.headers["x-api-key"] as string | undefined;
+    requests.push({ method, path, query, body: await readBody(req), apiKey });
+
+    if (!apiKey) {
+      res.writeHead(401, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "Unauthorized" }));
+      return;
+    }
+
+    // Later fixtures (added with use()) win ties over the shipped ones.
+    const fixture = matchFixture([...fixtures].reverse(), method, path, query);
+    if (!fixture) {
+      res.writeHead(404, { "Content-Type": "application/json" })
+        .end(JSON.stringify({ error: `No fixture for ${method} ${path}${url.search}` }));
+      return;
+    }
+    if (fixture.body === undefined || fixture.status === 204) {
+      res.writeHead(fixture.status).end();
+      return;
+    }
+    res.writeHead(fixture.status, { "Content-Type": "application/json" }).end(JSON.stringify(fixture.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    requests,
+    use: (...extra) => fixtures.push(...extra),
+    close: () => new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve()))),
+  };
+}
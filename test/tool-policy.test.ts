@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  isMutatingTool,
+  createsRecords,
+  isToolAllowed,
+  applyToolPolicy,
+  resolveToolsets,
+  unknownPolicyToolNames,
+  DEFAULT_TOOL_POLICY,
+} from "../src/tool-policy.js";
+
+describe("isMutatingTool", () => {
+  it("flags create_/update_/delete_ tools and the named write tools", () => {
+    for (const name of ["create_contact", "update_deal", "delete_webhook", "send_email", "upload_document", "smart_lead_intake", "erase_contact"]) {
+      expect(isMutatingTool(name)).toBe(true);
+    }
+  });
+
+  it("leaves read tools alone", () => {
+    for (const name of ["search_contacts", "get_property", "list_webhooks", "full_contact_360", "pipeline_summary"]) {
+      expect(isMutatingTool(name)).toBe(false);
+    }
+  });
+});
+
+describe("createsRecords", () => {
+  it("covers create_ tools and the composite/sending tools, not updates or deletes", () => {
+    expect(createsRecords("create_task")).toBe(true);
+    expect(createsRecords("smart_lead_intake")).toBe(true);
+    expect(createsRecords("send_email")).toBe(true);
+    expect(createsRecords("update_contact")).toBe(false);
+    expect(createsRecords("delete_contact")).toBe(false);
+    expect(createsRecords("erase_contact")).toBe(false);
+  });
+});
+
+describe("isToolAllowed", () => {
+  const readOnly = { ...DEFAULT_TOOL_POLICY, readOnly: true };
+
+  it("allows everything under the default policy", () => {
+    expect(isToolAllowed("delete_contact", "contacts", DEFAULT_TOOL_POLICY)).toBe(true);
+  });
+
+  it("rejects only mutating tools in read-only mode", () => {
+    expect(isToolAllowed("delete_contact", "contacts", readOnly)).toBe(false);
+    expect(isToolAllowed("search_contacts", "contacts", readOnly)).toBe(true);
+  });
+
+  it("restricts to the selected toolsets plus the allow list", () => {
+    const policy = { ...DEFAULT_TOOL_POLICY, toolsets: ["deals" as const], allowTools: ["list_users"] };
+    expect(isToolAllowed("search_deals", "deals", policy)).toBe(true);
+    expect(isToolAllowed("list_users", "lookups", policy)).toBe(true);
+    expect(isToolAllowed("list_tags", "lookups", policy)).toBe(false);
+  });
+
+  it("treats an allow list on its own as the complete tool list", () => {
+    const policy = { ...DEFAULT_TOOL_POLICY, allowTools: ["search_contacts"] };
+    expect(isToolAllowed("search_contacts", "contacts", policy)).toBe(true);
+    expect(isToolAllowed("get_contact", "contacts", policy)).toBe(false);
+  });
+
+  it("lets the deny list and read-only mode override everything else", () => {
+    const policy = { ...readOnly, toolsets: ["contacts" as const], allowTools: ["create_deal"], denyTools: ["get_contact"] };
+    expect(isToolAllowed("get_contact", "contacts", policy)).toBe(false);
+    expect(isToolAllowed("create_deal", "deals", policy)).toBe(false);
+  });
+});
+
+describe("resolveToolsets", () => {
+  it("expands aliases, normalizes case and deduplicates", () => {
+    expect(resolveToolsets(["Calendar", "tasks", " deals "])).toEqual(["tasks", "activities", "deals"]);
+  });
+
+  it("throws on unknown names and lists the valid ones", () => {
+    expect(() => resolveToolsets(["nope"])).toThrow(/Valid toolsets are: contacts/);
+  });
+});
+
+describe("unknownPolicyToolNames", () => {
+  it("reports allow/deny entries that match no registered tool", () => {
+    const policy = { ...DEFAULT_TOOL_POLICY, allowTools: ["search_contacts", "serch_deals"], denyTools: ["delete_contact"] };
+    expect(unknownPolicyToolNames(policy, new Set(["search_contacts", "delete_contact"]))).toEqual(["serch_deals"]);
+  });
+});
+
+describe("applyToolPolicy", () => {
+  it("drops rejected registrations and forwards the rest", () => {
+    const mcp = new McpServer({ name: "test", version: "0" });
+    const gated = applyToolPolicy(mcp, { ...DEFAULT_TOOL_POLICY, readOnly: true }, "contacts");
+    const noop = async () => ({ content: [] });
+
+    expect(gated.tool("delete_contact", "d", {}, noop)).toBeUndefined();
+    expect(gated.tool("search_contacts", "s", {}, noop)).toBeDefined();
+  });
+
+  it("reports every offered tool and whether it was allowed", () => {
+    const mcp = new McpServer({ name: "test", version: "0" });
+    const offers: [string, boolean][] = [];
+    const gated = applyToolPolicy(mcp, { ...DEFAULT_TOOL_POLICY, readOnly: true }, "contacts", (name, allowed) => {
+      offers.push([name, allowed]);
+    });
+    const noop = async () => ({ content: [] });
+
+    gated.tool("delete_contact", "d", {}, noop);
+    gated.tool("search_contacts", "s", {}, noop);
+    expect(offers).toEqual([["delete_contact", false], ["search_contacts", true]]);
+  });
+});